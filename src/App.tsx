@@ -1,12 +1,10 @@
 import React from 'react';
 import { LiquidCanvas } from './components/LiquidCanvas';
-import { InstructionOverlay } from './components/InstructionOverlay';
 
 function App() {
   return (
     <div className="min-h-screen relative">
       <LiquidCanvas /> 
-      <InstructionOverlay />
     </div>
   );
 }
@@ -0,0 +1,169 @@
+import { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import {
+  CALIBRATION_TARGETS,
+  CalibrationMapping,
+  CalibrationSample,
+  solveAffine,
+  solveHomography
+} from '../lib/calibration';
+import type { Point } from '../lib/geometry';
+import type { HandFrame, HandInputSource } from '../lib/handInput';
+
+interface Props {
+  source: HandInputSource;
+  onComplete: (mapping: CalibrationMapping) => void;
+  onCancel: () => void;
+}
+
+const INDEX_TIP = 8;
+const DWELL_MS = 1000;
+const DWELL_RADIUS = 0.015; // Normalized camera units
+const MIN_TARGET_SEPARATION = 0.05;
+
+export function CalibrationOverlay({ source, onComplete, onCancel }: Props) {
+  const [step, setStep] = useState(0);
+  const [dwellProgress, setDwellProgress] = useState(0);
+  const [handVisible, setHandVisible] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const samplesRef = useRef<CalibrationSample[]>([]);
+  const latestRef = useRef<Point | null>(null);
+  const onCompleteRef = useRef(onComplete);
+
+  useEffect(() => {
+    onCompleteRef.current = onComplete;
+  }, [onComplete]);
+
+  useEffect(() => {
+    let history: { t: number; point: Point }[] = [];
+
+    const capture = (camera: Point) => {
+      if (samplesRef.current.length >= CALIBRATION_TARGETS.length) return;
+      history = [];
+      setDwellProgress(0);
+
+      const samples = [...samplesRef.current, { camera, viewport: CALIBRATION_TARGETS[samplesRef.current.length] }];
+      samplesRef.current = samples;
+      setStep(samples.length);
+      if (samples.length < CALIBRATION_TARGETS.length) return;
+
+      try {
+        onCompleteRef.current(solveHomography(samples));
+      } catch {
+        // A homography from near-collinear points is unstable; fall back to affine
+        try {
+          onCompleteRef.current(solveAffine(samples));
+        } catch (error) {
+          samplesRef.current = [];
+          setStep(0);
+          setError(error instanceof Error ? error.message : 'Calibration failed');
+        }
+      }
+    };
+
+    const handleFrame = (frame: HandFrame) => {
+      const tip = frame.multiHandLandmarks[0]?.[INDEX_TIP];
+      setHandVisible(Boolean(tip));
+      if (!tip) {
+        history = [];
+        latestRef.current = null;
+        setDwellProgress(0);
+        return;
+      }
+
+      const point = { x: tip.x, y: tip.y };
+      latestRef.current = point;
+      history.push({ t: frame.timestamp, point });
+      history = history.filter(entry => frame.timestamp - entry.t <= DWELL_MS);
+
+      // The fingertip must stay within a small radius of its recent mean
+      const mean = {
+        x: history.reduce((sum, entry) => sum + entry.point.x, 0) / history.length,
+        y: history.reduce((sum, entry) => sum + entry.point.y, 0) / history.length
+      };
+      const steady = history.every(entry =>
+        Math.hypot(entry.point.x - mean.x, entry.point.y - mean.y) <= DWELL_RADIUS
+      );
+      if (!steady) {
+        history = [{ t: frame.timestamp, point }];
+        setDwellProgress(0);
+        return;
+      }
+
+      // Ignore a hand still resting on the previous target
+      const previous = samplesRef.current[samplesRef.current.length - 1]?.camera;
+      if (previous && Math.hypot(mean.x - previous.x, mean.y - previous.y) < MIN_TARGET_SEPARATION) {
+        setDwellProgress(0);
+        return;
+      }
+
+      const held = frame.timestamp - history[0].t;
+      setDwellProgress(Math.min(1, held / DWELL_MS));
+      if (held >= DWELL_MS * 0.95) capture(mean);
+    };
+
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onCancel();
+      if (event.key === ' ' && latestRef.current) {
+        event.preventDefault();
+        capture(latestRef.current);
+      }
+    };
+
+    const unsubscribe = source.on('frame', handleFrame);
+    window.addEventListener('keydown', handleKey);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('keydown', handleKey);
+    };
+  }, [source, onCancel]);
+
+  const target = CALIBRATION_TARGETS[Math.min(step, CALIBRATION_TARGETS.length - 1)];
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/70 backdrop-blur-sm text-white">
+      <div className="absolute inset-x-0 top-1/3 text-center px-6">
+        <p className="text-xl font-light tracking-wide mb-2">
+          Point your index finger at the target and hold still
+        </p>
+        <p className="text-sm text-white/60">
+          Target {Math.min(step + 1, CALIBRATION_TARGETS.length)} of {CALIBRATION_TARGETS.length}
+          {' · '}
+          {handVisible ? 'Hand detected' : 'Show your hand to the camera'}
+          {' · '}
+          Space to capture, Esc to cancel
+        </p>
+        {error && <p className="mt-3 text-sm text-red-300">{error}</p>}
+      </div>
+
+      <div
+        className="absolute -translate-x-1/2 -translate-y-1/2"
+        style={{ left: `${target.x * 100}%`, top: `${target.y * 100}%` }}
+      >
+        <svg width="72" height="72" viewBox="0 0 72 72">
+          <circle cx="36" cy="36" r="30" fill="none" stroke="rgba(255,255,255,0.25)" strokeWidth="4" />
+          <circle
+            cx="36"
+            cy="36"
+            r="30"
+            fill="none"
+            stroke="#4ade80"
+            strokeWidth="4"
+            strokeDasharray={`${dwellProgress * 2 * Math.PI * 30} ${2 * Math.PI * 30}`}
+            transform="rotate(-90 36 36)"
+          />
+          <circle cx="36" cy="36" r="6" fill="#4ade80" />
+        </svg>
+      </div>
+
+      <button
+        onClick={onCancel}
+        className="absolute top-4 right-4 p-2 rounded-full text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+        title="Cancel calibration"
+      >
+        <X className="w-5 h-5" />
+      </button>
+    </div>
+  );
+}
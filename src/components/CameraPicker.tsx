@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { Video } from 'lucide-react';
+import type { CameraHandSource } from '../lib/cameraHandSource';
+import { CameraDevice, listCameras } from '../lib/cameraDevices';
+
+interface Props {
+  camera: CameraHandSource;
+}
+
+export function CameraPicker({ camera }: Props) {
+  const [devices, setDevices] = useState<CameraDevice[]>([]);
+  const [selected, setSelected] = useState<string | null>(camera.deviceId ?? camera.preferredDeviceId);
+
+  useEffect(() => {
+    const refresh = () => {
+      listCameras()
+        .then(setDevices)
+        .catch(error => console.warn('[Camera] Could not list devices:', error));
+    };
+
+    refresh();
+    // Labels only appear once access is granted, and cameras come and go
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    const unsubscribe = camera.on('status', status => {
+      if (status !== 'running') return;
+      setSelected(camera.deviceId);
+      refresh();
+    });
+
+    return () => {
+      navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+      unsubscribe();
+    };
+  }, [camera]);
+
+  // A single camera leaves nothing to choose
+  if (devices.length < 2) return null;
+
+  const select = (deviceId: string) => {
+    setSelected(deviceId);
+    camera.setCamera(deviceId);
+  };
+
+  return (
+    <label className="flex items-center gap-1 pl-1 text-white/80" title="Camera">
+      <Video className="w-4 h-4" />
+      <select
+        value={selected ?? ''}
+        onChange={(e) => select(e.target.value)}
+        className="max-w-[10rem] px-1 py-1 rounded bg-transparent text-white/80 hover:text-white"
+      >
+        {selected === null && <option value="" className="text-black">Default camera</option>}
+        {devices.map(device => (
+          <option key={device.deviceId} value={device.deviceId} className="text-black">{device.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
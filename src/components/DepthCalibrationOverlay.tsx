@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { DepthCalibration, measureHandSize } from '../lib/handDepth';
+import type { HandFrame, HandInputSource } from '../lib/handInput';
+
+interface Props {
+  source: HandInputSource;
+  aspectRatio: number;
+  onComplete: (calibration: DepthCalibration) => void;
+  onCancel: () => void;
+}
+
+const POSES = [
+  { prompt: 'Hold your hand back where it should hover', detail: 'A relaxed arm’s length from the camera' },
+  { prompt: 'Now reach towards the camera as if pressing', detail: 'As close as is still comfortable' }
+];
+const DWELL_MS = 1000;
+const DWELL_TOLERANCE = 0.06; // Fraction of the hand's mean size
+const MIN_PRESS_RATIO = 1.2; // The press pose must look at least this much bigger
+
+export function DepthCalibrationOverlay({ source, aspectRatio, onComplete, onCancel }: Props) {
+  const [step, setStep] = useState(0);
+  const [dwellProgress, setDwellProgress] = useState(0);
+  const [handVisible, setHandVisible] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const samplesRef = useRef<number[]>([]);
+  const latestRef = useRef<number | null>(null);
+  const onCompleteRef = useRef(onComplete);
+
+  useEffect(() => {
+    onCompleteRef.current = onComplete;
+  }, [onComplete]);
+
+  useEffect(() => {
+    let history: { t: number; size: number }[] = [];
+
+    const capture = (size: number) => {
+      history = [];
+      setDwellProgress(0);
+
+      const samples = [...samplesRef.current, size];
+      if (samples.length < POSES.length) {
+        samplesRef.current = samples;
+        setStep(samples.length);
+        setError(null);
+        return;
+      }
+
+      const [hover, press] = samples;
+      if (press < hover * MIN_PRESS_RATIO) {
+        // Too little difference to tell the poses apart; try the press pose again
+        setError('Bring your hand closer to the camera for the press pose');
+        return;
+      }
+      onCompleteRef.current({ hover, press, createdAt: new Date().toISOString() });
+    };
+
+    const handleFrame = (frame: HandFrame) => {
+      const landmarks = frame.multiHandLandmarks[0];
+      setHandVisible(Boolean(landmarks));
+      if (!landmarks || landmarks.length < 21) {
+        history = [];
+        latestRef.current = null;
+        setDwellProgress(0);
+        return;
+      }
+
+      const size = measureHandSize(landmarks, aspectRatio);
+      latestRef.current = size;
+      history.push({ t: frame.timestamp, size });
+      history = history.filter(entry => frame.timestamp - entry.t <= DWELL_MS);
+
+      // The hand must hold its distance for a moment
+      const mean = history.reduce((sum, entry) => sum + entry.size, 0) / history.length;
+      if (!history.every(entry => Math.abs(entry.size - mean) <= mean * DWELL_TOLERANCE)) {
+        history = [{ t: frame.timestamp, size }];
+        setDwellProgress(0);
+        return;
+      }
+
+      // Wait for the hand to move on from the hover pose before taking the press pose
+      const previous = samplesRef.current[samplesRef.current.length - 1];
+      if (previous !== undefined && mean < previous * MIN_PRESS_RATIO) {
+        setDwellProgress(0);
+        return;
+      }
+
+      const held = frame.timestamp - history[0].t;
+      setDwellProgress(Math.min(1, held / DWELL_MS));
+      if (held >= DWELL_MS * 0.95) capture(mean);
+    };
+
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onCancel();
+      if (event.key === ' ' && latestRef.current !== null) {
+        event.preventDefault();
+        capture(latestRef.current);
+      }
+    };
+
+    const unsubscribe = source.on('frame', handleFrame);
+    window.addEventListener('keydown', handleKey);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('keydown', handleKey);
+    };
+  }, [source, aspectRatio, onCancel]);
+
+  const pose = POSES[Math.min(step, POSES.length - 1)];
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/70 backdrop-blur-sm text-white flex flex-col items-center justify-center text-center px-6">
+      <p className="text-xl font-light tracking-wide mb-2">{pose.prompt}</p>
+      <p className="text-sm text-white/60">
+        {pose.detail}
+        {' · '}
+        Pose {Math.min(step + 1, POSES.length)} of {POSES.length}
+        {' · '}
+        {handVisible ? 'Hand detected' : 'Show your hand to the camera'}
+        {' · '}
+        Space to capture, Esc to cancel
+      </p>
+      {error && <p className="mt-3 text-sm text-red-300">{error}</p>}
+
+      <svg width="96" height="96" viewBox="0 0 96 96" className="mt-8">
+        <circle cx="48" cy="48" r="40" fill="none" stroke="rgba(255,255,255,0.25)" strokeWidth="4" />
+        <circle
+          cx="48"
+          cy="48"
+          r="40"
+          fill="none"
+          stroke="#4ade80"
+          strokeWidth="4"
+          strokeDasharray={`${dwellProgress * 2 * Math.PI * 40} ${2 * Math.PI * 40}`}
+          transform="rotate(-90 48 48)"
+        />
+        <circle cx="48" cy="48" r={step === 0 ? 10 : 22} fill="#4ade80" fillOpacity={0.6} />
+      </svg>
+
+      <button
+        onClick={onCancel}
+        className="absolute top-4 right-4 p-2 rounded-full text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+        title="Cancel depth calibration"
+      >
+        <X className="w-5 h-5" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+import { ChangeEvent, PointerEvent as ReactPointerEvent, ReactNode, useEffect, useRef, useState } from 'react';
+import {
+  Check,
+  CupSoda,
+  Download,
+  MousePointer2,
+  Redo2,
+  Square,
+  Trash2,
+  TrendingDown,
+  Undo2,
+  Upload
+} from 'lucide-react';
+import type { Point } from '../lib/geometry';
+import type { GestureRecognizer } from '../lib/gestures';
+import { EditorTool, LevelEditor, obstacleFromDrag } from '../lib/levelEditor';
+import { parseLevel } from '../lib/levelFile';
+import type { LiquidWorld } from '../lib/liquidWorld';
+import type { SceneDefinition } from '../lib/scene';
+
+interface Props {
+  editor: LevelEditor;
+  world: LiquidWorld;
+  gestures: GestureRecognizer;
+  onImport: (scene: SceneDefinition) => void; // Throws to turn a level down, with the reason shown
+  onExport: () => void;
+  onClose: () => void;
+}
+
+type Drag =
+  | { kind: 'draw'; tool: Exclude<EditorTool, 'select'>; from: Point; to: Point }
+  | { kind: 'move'; offset: Point } // From the obstacle's centre to the grab point
+  | { kind: 'rotate'; center: Point };
+
+interface DragHandlers {
+  start: (point: Point) => void;
+  move: (point: Point, snap: boolean) => void;
+  end: () => void;
+}
+
+const TOOLS: { tool: EditorTool; label: string; icon: ReactNode }[] = [
+  { tool: 'select', label: 'Select, move and rotate', icon: <MousePointer2 className="w-4 h-4" /> },
+  { tool: 'wall', label: 'Draw a wall', icon: <Square className="w-4 h-4" /> },
+  { tool: 'ramp', label: 'Draw a ramp', icon: <TrendingDown className="w-4 h-4" /> },
+  { tool: 'container', label: 'Draw a container', icon: <CupSoda className="w-4 h-4" /> }
+];
+
+const ROTATE_STEP = Math.PI / 12;
+// Distance from an obstacle's outline to its rotation handle
+const HANDLE_GAP = 24;
+
+const buttonClass = 'p-2 rounded-full text-white/80 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:pointer-events-none';
+const activeButtonClass = 'p-2 rounded-full text-white bg-white/20';
+
+function dragPreview(drag: Drag | null): ReactNode {
+  if (drag?.kind !== 'draw') return null;
+  const { from, to } = drag;
+  const props = { fill: 'rgba(51, 65, 85, 0.4)', stroke: 'white', strokeWidth: 2, strokeDasharray: '6 4' };
+  switch (drag.tool) {
+    case 'wall':
+      return (
+        <rect
+          x={Math.min(from.x, to.x)}
+          y={Math.min(from.y, to.y)}
+          width={Math.abs(to.x - from.x)}
+          height={Math.abs(to.y - from.y)}
+          {...props}
+        />
+      );
+    case 'ramp':
+      return <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} {...props} />;
+    case 'container':
+      return (
+        <polyline
+          points={`${from.x},${from.y} ${from.x},${to.y} ${to.x},${to.y} ${to.x},${from.y}`}
+          {...props}
+          fill="none"
+        />
+      );
+  }
+}
+
+/**
+ * Edit mode for the level's obstacles. Drawing tools drag out walls, ramps and containers;
+ * the select tool picks an obstacle up to move it, and its handle rotates it. A pinch drags
+ * just like the mouse, at the hand's position on screen.
+ */
+export function EditorOverlay({ editor, world, gestures, onImport, onExport, onClose }: Props) {
+  const [tool, setTool] = useState<EditorTool>('select');
+  const [state, setState] = useState(editor.state);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const handlersRef = useRef<DragHandlers | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => editor.on('change', setState), [editor]);
+
+  const updateDrag = (next: Drag | null) => {
+    dragRef.current = next;
+    setDrag(next);
+  };
+
+  const selected = state.selected === null ? null : state.obstacles[state.selected] ?? null;
+  const center = selected && { x: selected.position.x * world.width, y: selected.position.y * world.height };
+  const outline = state.selected === null ? null : world.getObstacleOutline(state.selected);
+  const handle = center && outline && (() => {
+    const extent = Math.max(...outline.flat().map(point => Math.hypot(point.x - center.x, point.y - center.y)));
+    const angle = (selected?.angle ?? 0) - Math.PI / 2;
+    return {
+      x: center.x + Math.cos(angle) * (extent + HANDLE_GAP),
+      y: center.y + Math.sin(angle) * (extent + HANDLE_GAP)
+    };
+  })();
+
+  // Pointer and pinch drags share these; kept in a ref so the gesture listener sees the latest
+  useEffect(() => {
+    handlersRef.current = {
+      start: point => {
+        if (tool !== 'select') {
+          updateDrag({ kind: 'draw', tool, from: point, to: point });
+          return;
+        }
+
+        editor.select(world.obstacleAt(point));
+        const obstacle = editor.selectedObstacle;
+        if (!obstacle) return;
+        editor.beginChange();
+        updateDrag({
+          kind: 'move',
+          offset: { x: point.x - obstacle.position.x * world.width, y: point.y - obstacle.position.y * world.height }
+        });
+      },
+      move: (point, snap) => {
+        const current = dragRef.current;
+        if (current?.kind === 'draw') {
+          updateDrag({ ...current, to: point });
+        } else if (current?.kind === 'move') {
+          editor.updateSelected({
+            position: {
+              x: (point.x - current.offset.x) / world.width,
+              y: (point.y - current.offset.y) / world.height
+            }
+          });
+        } else if (current?.kind === 'rotate') {
+          const angle = Math.atan2(point.y - current.center.y, point.x - current.center.x) + Math.PI / 2;
+          editor.updateSelected({ angle: snap ? Math.round(angle / ROTATE_STEP) * ROTATE_STEP : angle });
+        }
+      },
+      end: () => {
+        const current = dragRef.current;
+        updateDrag(null);
+        if (current?.kind === 'draw') {
+          const obstacle = obstacleFromDrag(current.tool, current.from, current.to, world.width, world.height);
+          if (obstacle) editor.add(obstacle);
+        } else if (current) {
+          editor.endChange();
+        }
+      }
+    };
+  });
+
+  // A pinch starts a drag at the hand and follows it until the pinch ends
+  useEffect(() => {
+    let pinch: { handId: number; frameId: number } | null = null;
+
+    const follow = () => {
+      if (!pinch) return;
+      const position = world.getHandPosition(pinch.handId);
+      if (position) handlersRef.current?.move(position, false);
+      pinch.frameId = requestAnimationFrame(follow);
+    };
+
+    const unsubscribers = [
+      gestures.on('start', ({ handId, gesture }) => {
+        const position = world.getHandPosition(handId);
+        if (gesture !== 'pinch' || pinch || dragRef.current || !position) return;
+        handlersRef.current?.start(position);
+        pinch = { handId, frameId: requestAnimationFrame(follow) };
+      }),
+      gestures.on('end', ({ handId }) => {
+        if (pinch?.handId !== handId) return;
+        cancelAnimationFrame(pinch.frameId);
+        pinch = null;
+        handlersRef.current?.end();
+      })
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      if (pinch) cancelAnimationFrame(pinch.frameId);
+    };
+  }, [gestures, world]);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) return;
+      const modifier = event.ctrlKey || event.metaKey;
+      const key = event.key.toLowerCase();
+
+      if (modifier && key === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) editor.redo();
+        else editor.undo();
+      } else if (modifier && key === 'y') {
+        event.preventDefault();
+        editor.redo();
+      } else if (key === 'delete' || key === 'backspace') {
+        editor.removeSelected();
+      } else if (key === '[' || key === ']') {
+        const angle = editor.selectedObstacle?.angle ?? 0;
+        editor.updateSelected({ angle: angle + (key === ']' ? ROTATE_STEP : -ROTATE_STEP) });
+      } else if (key === 'escape') {
+        editor.select(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [editor]);
+
+  const pointOf = (event: ReactPointerEvent): Point => ({ x: event.clientX, y: event.clientY });
+
+  const handlePointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    // The rotation handle starts its own drag before the event bubbles up here
+    if (!dragRef.current) handlersRef.current?.start(pointOf(event));
+  };
+
+  const handleRotateStart = (event: ReactPointerEvent) => {
+    if (event.button !== 0 || !center) return;
+    editor.beginChange();
+    updateDrag({ kind: 'rotate', center });
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onImport(parseLevel(await file.text()));
+      setImportError(null);
+    } catch (error) {
+      console.error('[Editor] Failed to import level:', error);
+      setImportError(error instanceof Error ? error.message : 'Invalid level file');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-30 cursor-crosshair"
+      onPointerDown={handlePointerDown}
+      onPointerMove={event => handlersRef.current?.move(pointOf(event), event.shiftKey)}
+      onPointerUp={() => handlersRef.current?.end()}
+      onPointerCancel={() => handlersRef.current?.end()}
+    >
+      <svg className="absolute inset-0 w-full h-full">
+        {outline?.map((part, index) => (
+          <polygon
+            key={index}
+            points={part.map(point => `${point.x},${point.y}`).join(' ')}
+            fill="none"
+            stroke="#38bdf8"
+            strokeWidth={2}
+          />
+        ))}
+        {center && handle && (
+          <>
+            <line x1={center.x} y1={center.y} x2={handle.x} y2={handle.y} stroke="#38bdf8" strokeWidth={1} />
+            <circle
+              cx={handle.x}
+              cy={handle.y}
+              r={8}
+              fill="#38bdf8"
+              className="cursor-grab"
+              onPointerDown={handleRotateStart}
+            />
+          </>
+        )}
+        {dragPreview(drag)}
+      </svg>
+
+      <div
+        className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-1 px-2 py-1 rounded-full bg-black/60 backdrop-blur text-xs text-white/80 cursor-default"
+        onPointerDown={event => event.stopPropagation()}
+      >
+        {TOOLS.map(({ tool: option, label, icon }) => (
+          <button
+            key={option}
+            onClick={() => setTool(option)}
+            className={tool === option ? activeButtonClass : buttonClass}
+            title={label}
+          >
+            {icon}
+          </button>
+        ))}
+        <span className="w-px h-5 mx-1 bg-white/20" />
+        <button onClick={() => editor.undo()} disabled={!state.canUndo} className={buttonClass} title="Undo (Ctrl+Z)">
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button onClick={() => editor.redo()} disabled={!state.canRedo} className={buttonClass} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => editor.removeSelected()}
+          disabled={state.selected === null}
+          className={buttonClass}
+          title="Delete the selected obstacle (Del)"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+        <span className="w-px h-5 mx-1 bg-white/20" />
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass} title="Import a level file">
+          <Upload className="w-4 h-4" />
+        </button>
+        <button onClick={onExport} className={buttonClass} title="Export this level">
+          <Download className="w-4 h-4" />
+        </button>
+        <button onClick={onClose} className={buttonClass} title="Finish editing">
+          <Check className="w-4 h-4" />
+        </button>
+        {importError && <span className="pr-2 text-red-300">{importError}</span>}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+    </div>
+  );
+}
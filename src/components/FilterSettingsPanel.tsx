@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import type { HandRecording } from '../lib/handRecording';
+import { evaluateFilters, FilterEvaluation, FilterSettings, FilterType, LandmarkFilter } from '../lib/landmarkFilters';
+import { Slider } from './Slider';
+
+interface Props {
+  filter: LandmarkFilter;
+  recording: HandRecording | null; // The recording being played back, to compare filters on
+  onClose: () => void;
+}
+
+const FILTER_LABELS: Record<FilterType, string> = {
+  none: 'Raw landmarks',
+  'one-euro': 'One Euro',
+  exponential: 'Exponential',
+  kalman: 'Kalman'
+};
+
+export function FilterSettingsPanel({ filter, recording, onClose }: Props) {
+  // Local copy so the panel re-renders; the filter itself is updated live
+  const [settings, setSettings] = useState<FilterSettings>(() => structuredClone(filter.getSettings()));
+  const [comparison, setComparison] = useState<FilterEvaluation[] | null>(null);
+
+  const update = (changes: Partial<FilterSettings>) => {
+    filter.setSettings(changes);
+    setSettings(structuredClone(filter.getSettings()));
+    setComparison(null);
+  };
+
+  // Every filter type with the current parameters, run over the same recorded frames
+  const compare = () => {
+    if (!recording) return;
+    const types = Object.keys(FILTER_LABELS) as FilterType[];
+    setComparison(evaluateFilters(recording, types.map(type => ({ ...structuredClone(settings), type }))));
+  };
+
+  return (
+    <div className="fixed bottom-16 right-4 w-64 p-4 space-y-3 rounded-xl bg-black/70 backdrop-blur text-xs text-white shadow-lg">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium">Landmark smoothing</h2>
+        <button onClick={onClose} className="text-white/60 hover:text-white transition-colors" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <select
+        value={settings.type}
+        onChange={(e) => update({ type: e.target.value as FilterType })}
+        className="w-full px-2 py-1 rounded bg-white/10 text-white"
+      >
+        {(Object.keys(FILTER_LABELS) as FilterType[]).map(type => (
+          <option key={type} value={type} className="text-black">{FILTER_LABELS[type]}</option>
+        ))}
+      </select>
+
+      {settings.type === 'one-euro' && (
+        <>
+          <Slider
+            label="Min cutoff (Hz)"
+            value={settings.oneEuro.minCutoff}
+            min={0.1}
+            max={10}
+            step={0.1}
+            onChange={(minCutoff) => update({ oneEuro: { ...settings.oneEuro, minCutoff } })}
+          />
+          <Slider
+            label="Speed coefficient"
+            value={settings.oneEuro.beta}
+            min={0}
+            max={50}
+            step={0.5}
+            onChange={(beta) => update({ oneEuro: { ...settings.oneEuro, beta } })}
+          />
+        </>
+      )}
+      {settings.type === 'exponential' && (
+        <Slider
+          label="Alpha"
+          value={settings.exponential.alpha}
+          min={0.05}
+          max={1}
+          step={0.05}
+          onChange={(alpha) => update({ exponential: { alpha } })}
+        />
+      )}
+      {settings.type === 'kalman' && (
+        <>
+          <Slider
+            label="Process noise"
+            value={settings.kalman.processNoise}
+            min={1}
+            max={200}
+            step={1}
+            onChange={(processNoise) => update({ kalman: { ...settings.kalman, processNoise } })}
+          />
+          <Slider
+            label="Measurement noise (x1e-5)"
+            value={Math.round(settings.kalman.measurementNoise * 1e5 * 10) / 10}
+            min={0.1}
+            max={20}
+            step={0.1}
+            onChange={(value) => update({ kalman: { ...settings.kalman, measurementNoise: value * 1e-5 } })}
+          />
+        </>
+      )}
+
+      <Slider
+        label="Prediction (ms)"
+        value={settings.predictionMs}
+        min={0}
+        max={100}
+        step={5}
+        onChange={(predictionMs) => update({ predictionMs })}
+      />
+
+      {recording && (
+        <div className="space-y-2 pt-2 border-t border-white/10">
+          <button
+            onClick={compare}
+            className="w-full px-2 py-1 rounded-full bg-white/5 text-white/80 hover:bg-white/15 hover:text-white transition-colors"
+          >
+            Compare on recording
+          </button>
+          {comparison && (
+            <table className="w-full tabular-nums">
+              <thead className="text-white/60">
+                <tr>
+                  <th className="text-left font-normal">Filter</th>
+                  <th className="text-right font-normal">Jitter (x1e-3)</th>
+                  <th className="text-right font-normal">Lag (x1e-3)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.map(({ settings: { type }, jitter, lag }) => (
+                  <tr
+                    key={type}
+                    onClick={() => update({ type })}
+                    className={`cursor-pointer hover:text-white ${type === settings.type ? 'text-white' : 'text-white/70'}`}
+                    title="Use this filter"
+                  >
+                    <td>{FILTER_LABELS[type]}</td>
+                    <td className="text-right">{(jitter * 1000).toFixed(2)}</td>
+                    <td className="text-right">{(lag * 1000).toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
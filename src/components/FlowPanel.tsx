@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import type { LiquidWorld } from '../lib/liquidWorld';
+import type { ParticleStats } from '../lib/particleFlow';
+
+interface Props {
+  world: LiquidWorld;
+  onClose: () => void;
+}
+
+const POLL_MS = 250;
+// Spots new faucets and drains cycle through, as fractions of the screen width
+const SLOTS = [0.2, 0.5, 0.8];
+
+const buttonClass = 'flex-1 px-2 py-1 rounded-full bg-white/5 text-white/80 hover:bg-white/15 hover:text-white transition-colors';
+
+export function FlowPanel({ world, onClose }: Props) {
+  const [stats, setStats] = useState<ParticleStats>(() => world.getParticleStats());
+
+  // Counts change every step; a few updates a second is plenty to read them
+  useEffect(() => {
+    const interval = window.setInterval(() => setStats(world.getParticleStats()), POLL_MS);
+    return () => window.clearInterval(interval);
+  }, [world]);
+
+  const addFaucet = () => {
+    const slot = SLOTS[stats.emitters % SLOTS.length];
+    world.flow.addEmitter({ position: { x: world.width * slot, y: 60 } });
+  };
+
+  const addDrain = () => {
+    const slot = SLOTS[SLOTS.length - 1 - (stats.drains % SLOTS.length)];
+    world.flow.addDrain({ position: { x: world.width * slot, y: world.height - 30 }, width: 160, height: 60 });
+  };
+
+  const fill = stats.budget > 0 ? Math.min(1, stats.live / stats.budget) : 1;
+
+  return (
+    <div className="fixed bottom-16 right-4 w-64 p-4 space-y-3 rounded-xl bg-black/70 backdrop-blur text-xs text-white shadow-lg">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium">Emitters and drains</h2>
+        <button onClick={onClose} className="text-white/60 hover:text-white transition-colors" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-white/70">
+          <span>Particles</span>
+          <span className="tabular-nums">{stats.live} / {stats.budget}</span>
+        </div>
+        <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+          <div
+            className={`h-full ${fill >= 1 ? 'bg-amber-400' : 'bg-cyan-400'}`}
+            style={{ width: `${fill * 100}%` }}
+          />
+        </div>
+        <div className="flex justify-between text-white/50 tabular-nums">
+          <span>{stats.emitters} emitters · {stats.drains} drains</span>
+          <span>+{stats.emitted} / −{stats.drained}</span>
+        </div>
+      </div>
+
+      <div className="flex gap-1">
+        <button onClick={addFaucet} className={buttonClass}>Add faucet</button>
+        <button onClick={addDrain} className={buttonClass}>Add drain</button>
+        <button onClick={() => world.flow.clear()} className={buttonClass}>Clear</button>
+      </div>
+
+      <p className="text-white/50">
+        Pinch and hold to pour from your hand; hold two fingers up to drain. Emitters stop at the budget.
+      </p>
+    </div>
+  );
+}
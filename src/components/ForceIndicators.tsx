@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import type { HandForces, HandForceState } from '../lib/handForces';
+
+interface Props {
+  forces: HandForces;
+}
+
+const GAUGE_RADIUS = 28;
+const ATTRACT_COLOR = '#4ade80';
+const REPEL_COLOR = '#f87171';
+
+// Shows what the hand forces are doing: a gravity gauge, the span between scaling hands, and fields
+export function ForceIndicators({ forces }: Props) {
+  const [state, setState] = useState<HandForceState>(() => forces.state);
+
+  useEffect(() => forces.on('change', setState), [forces]);
+
+  const { modes, gravity, scale, span, fields } = state;
+  const showGauge = modes.tilt || modes.scale;
+  const magnitude = Math.hypot(gravity.x, gravity.y);
+  // The arrow grows with gravity's strength but stays inside the gauge
+  const reach = magnitude > 1e-6 ? Math.min(1, 0.5 * scale) * GAUGE_RADIUS : 0;
+  const arrow = magnitude > 1e-6 ? { x: (gravity.x / magnitude) * reach, y: (gravity.y / magnitude) * reach } : { x: 0, y: 0 };
+
+  return (
+    <svg className="fixed inset-0 w-full h-full pointer-events-none z-10">
+      {fields.map(({ handId, center, radius, acceleration }) => {
+        const color = acceleration > 0 ? ATTRACT_COLOR : REPEL_COLOR;
+        return (
+          <g key={handId}>
+            <circle cx={center.x} cy={center.y} r={radius} fill={color} fillOpacity={0.08} stroke={color} strokeWidth={2} strokeDasharray="8 6" />
+            <circle cx={center.x} cy={center.y} r={radius * 0.5} fill="none" stroke={color} strokeOpacity={0.5} strokeDasharray="4 6" />
+          </g>
+        );
+      })}
+
+      {span && (
+        <g>
+          <line x1={span[0].x} y1={span[0].y} x2={span[1].x} y2={span[1].y} stroke="white" strokeOpacity={0.6} strokeWidth={2} strokeDasharray="6 6" />
+          <text
+            x={(span[0].x + span[1].x) / 2}
+            y={(span[0].y + span[1].y) / 2 - 10}
+            fill="white"
+            fontSize={14}
+            textAnchor="middle"
+          >
+            {`gravity ×${scale.toFixed(1)}`}
+          </text>
+        </g>
+      )}
+
+      {showGauge && (
+        <g transform={`translate(${window.innerWidth / 2}, ${GAUGE_RADIUS + 24})`}>
+          <circle r={GAUGE_RADIUS} fill="rgba(0, 0, 0, 0.45)" stroke="white" strokeOpacity={0.4} />
+          <line x1={0} y1={0} x2={arrow.x} y2={arrow.y} stroke="white" strokeWidth={3} strokeLinecap="round" />
+          <circle cx={arrow.x} cy={arrow.y} r={4} fill="white" />
+          <text y={GAUGE_RADIUS + 16} fill="white" fillOpacity={0.8} fontSize={12} textAnchor="middle">
+            gravity
+          </text>
+        </g>
+      )}
+    </svg>
+  );
+}
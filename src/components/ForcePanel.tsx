@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { FieldPolarity, FORCE_MODES, ForceMode, HandForces } from '../lib/handForces';
+
+interface Props {
+  forces: HandForces;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<ForceMode, { label: string; description: string }> = {
+  tilt: { label: 'Tilt', description: 'Roll your palm to tip gravity sideways' },
+  scale: { label: 'Strength', description: 'Move two hands apart for stronger gravity' },
+  field: { label: 'Field', description: 'Hold a palm open to pull or push the liquid' }
+};
+
+const toggleClass = (active: boolean) => `px-2 py-1 rounded-full transition-colors ${
+  active ? 'bg-white/25 text-white' : 'bg-white/5 text-white/60 hover:text-white'
+}`;
+
+export function ForcePanel({ forces, onClose }: Props) {
+  const [modes, setModes] = useState(() => forces.state.modes);
+  const [polarity, setPolarity] = useState<FieldPolarity>(() => forces.state.polarity);
+
+  // The forces change every step; only the switches matter here
+  useEffect(() => forces.on('change', state => {
+    setModes(current => (FORCE_MODES.some(mode => current[mode] !== state.modes[mode]) ? state.modes : current));
+    setPolarity(state.polarity);
+  }), [forces]);
+
+  return (
+    <div className="fixed bottom-16 right-4 w-64 p-4 space-y-3 rounded-xl bg-black/70 backdrop-blur text-xs text-white shadow-lg">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium">Hand forces</h2>
+        <button onClick={onClose} className="text-white/60 hover:text-white transition-colors" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {FORCE_MODES.map(mode => (
+        <div key={mode} className="flex items-center justify-between gap-2">
+          <span className="text-white/70">{MODE_LABELS[mode].description}</span>
+          <button onClick={() => forces.setMode(mode, !modes[mode])} className={toggleClass(modes[mode])}>
+            {MODE_LABELS[mode].label}
+          </button>
+        </div>
+      ))}
+
+      {modes.field && (
+        <div className="flex items-center justify-end gap-1">
+          {(['attract', 'repel'] as FieldPolarity[]).map(option => (
+            <button key={option} onClick={() => forces.setPolarity(option)} className={toggleClass(polarity === option)}>
+              {option === 'attract' ? 'Attract' : 'Repel'}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,255 +1,253 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Hands, Results } from '@mediapipe/hands';
+import type { NormalizedLandmark } from '@mediapipe/hands';
+import type { GestureRecognizer, GestureType } from '../lib/gestures';
+import type { DepthZone, HandDepth, HandDepthEstimator } from '../lib/handDepth';
+import type { HandPresenceState, HandPresenceTracker } from '../lib/handPresence';
+import { applyCalibration, CalibrationMapping, DEFAULT_CALIBRATION } from '../lib/calibration';
+import { DeviceProfile, getDeviceProfile } from '../lib/deviceProfile';
+import { clamp, Point } from '../lib/geometry';
+import { HandFrame, HandInputSource, handIdAt } from '../lib/handInput';
+import type { LoadProgress } from '../lib/mediapipeLoader';
+import { TrackingError } from '../lib/trackingError';
 import { useResizable } from '../hooks/useResizable';
 
-// Constants
-const CANVAS_DIMENSIONS = {
-  width: window.innerWidth < 768 ? 320 : 640,
-  height: window.innerWidth < 768 ? 480 : 480
-};
-
-const HANDS_CONFIG = {
-  maxNumHands: window.innerWidth < 768 ? 1 : 2,
-  modelComplexity: 1,
-  minDetectionConfidence: 0.5,
-  minTrackingConfidence: 0.5
-};
-
-declare global {
-  interface Window {
-    Hands?: typeof Hands;
-  }
+interface Props {
+  source: HandInputSource;
+  gestures?: GestureRecognizer;
+  presence?: HandPresenceTracker;
+  depth?: HandDepthEstimator;
+  calibration?: CalibrationMapping;
+  profile?: DeviceProfile;
+  // Hands are keyed by their persistent ID once identity tracking runs upstream
+  onHandUpdate: (handId: number, x: number, y: number, timestamp: number) => void;
+  onHandLandmarks?: (handId: number, points: Point[]) => void;
 }
 
-interface Props {
-  onHandUpdate: (handIndex: number, x: number, y: number) => void;
+// Map a normalized camera landmark to viewport coordinates through the active calibration
+function mapToViewport(point: NormalizedLandmark, calibration: CalibrationMapping): Point {
+  const mapped = applyCalibration(calibration, point);
+  
+  return {
+    x: clamp(mapped.x * window.innerWidth, 0, window.innerWidth),
+    y: clamp(mapped.y * window.innerHeight, 0, window.innerHeight)
+  };
 }
 
-const MEDIAPIPE_URLS = {
-  base: 'https://cdn.jsdelivr.net/npm/@mediapipe/hands@0.4.1675469240',
-  fallback: 'https://unpkg.com/@mediapipe/hands@0.4.1675469240'
+// Preview sphere colour per depth zone
+const ZONE_STYLES: Record<DepthZone, { fill: string; stroke: string }> = {
+  hover: { fill: 'rgba(148, 163, 184, 0.2)', stroke: '#94A3B8' },
+  touch: { fill: 'rgba(0, 255, 0, 0.3)', stroke: '#00FF00' },
+  press: { fill: 'rgba(251, 146, 60, 0.4)', stroke: '#FB923C' }
 };
+const PREVIEW_RADIUS = 35;
 
-async function loadMediaPipeScript(): Promise<void> {
-  return new Promise<void>((resolve, reject) => {
-    const script = document.createElement('script');
-    script.src = `${MEDIAPIPE_URLS.base}/hands.js`;
-    script.crossOrigin = 'anonymous';
-    
-    const checkHandsAvailability = () => {
-      setTimeout(() => {
-        if (window.Hands) {
-          resolve();
-        } else {
-          reject(new Error('Hands object not found after script load'));
-        }
-      }, 500);
-    };
-
-    script.onload = checkHandsAvailability;
-    script.onerror = () => {
-      script.src = `${MEDIAPIPE_URLS.fallback}/hands.js`;
-      script.onload = checkHandsAvailability;
-      script.onerror = reject;
-    };
-    
-    document.head.appendChild(script);
-  });
-}
-
-async function setupCamera(videoRef: React.RefObject<HTMLVideoElement>): Promise<MediaStream> {
-  const stream = await navigator.mediaDevices.getUserMedia({
-    video: {
-      width: { min: window.innerWidth < 768 ? 320 : 640 },
-      height: { min: window.innerWidth < 768 ? 480 : 480 },
-      aspectRatio: window.innerWidth < 768 ? 3/4 : 4/3,
-      facingMode: 'user'
-    }
-  });
-  
-  if (!videoRef.current) throw new Error('Video element not found');
-  
-  videoRef.current.srcObject = stream;
-  
-  return new Promise((resolve) => {
-    if (!videoRef.current) throw new Error('Video element not found');
-    videoRef.current.onloadeddata = () => resolve(stream);
-  });
+function loadingMessage(isCameraReady: boolean, progress: LoadProgress | null) {
+  if (isCameraReady) return 'Loading hand tracking model...';
+  if (progress?.stage === 'script' && progress.loaded < progress.total) return 'Loading hand tracking library...';
+  return 'Initializing camera...';
 }
 
-export function HandTracking({ onHandUpdate }: Props) {
-  const videoRef = useRef<HTMLVideoElement>(null);
+export function HandTracking({
+  source,
+  gestures,
+  presence,
+  depth,
+  calibration = DEFAULT_CALIBRATION,
+  profile = getDeviceProfile(),
+  onHandUpdate,
+  onHandLandmarks
+}: Props) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const handsRef = useRef<Hands | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const [error, setError] = React.useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isCameraReady, setIsCameraReady] = useState(false);
+  const onHandUpdateRef = useRef(onHandUpdate);
+  const onHandLandmarksRef = useRef(onHandLandmarks);
+  const calibrationRef = useRef(calibration);
+  const trackingLandmarkRef = useRef(profile.trackingLandmark);
+  const [error, setError] = React.useState<Error | null>(null);
+  const [status, setStatus] = useState(source.status);
+  const [progress, setProgress] = useState<LoadProgress | null>(null);
+  const [activeGestures, setActiveGestures] = useState<Record<number, GestureType>>({});
+  const [handStates, setHandStates] = useState<Record<number, HandPresenceState>>({});
+  const [handZones, setHandZones] = useState<Record<number, DepthZone>>({});
+  const depthsRef = useRef(new Map<number, HandDepth>());
   const { ref: resizableRef, width, height } = useResizable({
-    minWidth: window.innerWidth < 768 ? 120 : 240,
-    maxWidth: window.innerWidth < 768 ? 240 : 480,
-    aspectRatio: window.innerWidth < 768 ? 3/4 : 4/3
+    minWidth: profile.isMobile ? 120 : 240,
+    maxWidth: profile.isMobile ? 240 : 480,
+    aspectRatio: profile.camera.aspectRatio
   });
+
+  const isLoading = status === 'loading' || status === 'camera-ready';
+  const isCameraReady = status === 'camera-ready';
+
+  useEffect(() => {
+    onHandUpdateRef.current = onHandUpdate;
+    onHandLandmarksRef.current = onHandLandmarks;
+    calibrationRef.current = calibration;
+    trackingLandmarkRef.current = profile.trackingLandmark;
+  }, [onHandUpdate, onHandLandmarks, calibration, profile]);
   
   useEffect(() => {
-    let mounted = true;
-    
-    async function initializeTracking() {
-      console.log('[Tracking] Initializing:', new Date().toISOString());
-      setIsLoading(true);
+    if (!gestures) return;
 
-      try {
-        await loadMediaPipeScript();
-      } catch (error) {
-        console.error('[MediaPipe] Failed to load script:', error);
-        setError('Failed to load hand tracking library. Please check your connection and try again.');
-        setIsLoading(false);
-        return;
-      }
+    const unsubscribers = [
+      gestures.on('start', ({ handId, gesture }) => {
+        setActiveGestures(current => ({ ...current, [handId]: gesture }));
+      }),
+      gestures.on('end', ({ handId }) => {
+        setActiveGestures(current => {
+          const next = { ...current };
+          delete next[handId];
+          return next;
+        });
+      })
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [gestures]);
+
+  useEffect(() => {
+    if (!depth) return;
+
+    const depths = depthsRef.current;
+    const unsubscribe = depth.on('update', ({ handId, depth: next }) => {
+      depths.set(handId, next);
+      setHandZones(current => (current[handId] === next.zone ? current : { ...current, [handId]: next.zone }));
+    });
+
+    return () => {
+      unsubscribe();
+      depths.clear();
+    };
+  }, [depth]);
+
+  useEffect(() => {
+    if (!presence) return;
 
-      try {
-        const stream = await setupCamera(videoRef);
-        if (!mounted) return;
-        streamRef.current = stream;
-        setIsCameraReady(true);
-      } catch (error) {
-        console.error('[Camera] Error:', error);
-        setError(`Camera access failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        setIsLoading(false);
-        return;
+    return presence.on('change', ({ id, state }) => {
+      if (state === 'gone') {
+        depthsRef.current.delete(id);
+        setHandZones(current => {
+          const next = { ...current };
+          delete next[id];
+          return next;
+        });
       }
+      setHandStates(current => {
+        const next = { ...current };
+        if (state === 'gone') {
+          delete next[id];
+        } else {
+          next[id] = state;
+        }
+        return next;
+      });
+    });
+  }, [presence]);
+  
+  useEffect(() => {
+    const handleFrame = (frame: HandFrame) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
       
-      try {
-        // Use the global Hands constructor
-        const HandsConstructor = window.Hands || Hands;
-        const hands = new HandsConstructor({
-          locateFile: (file) => {
-            return `${MEDIAPIPE_URLS.base}/${file}`;
-          }
-        });
-        
-        hands.setOptions(HANDS_CONFIG);
-        
-        await hands.initialize();
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      
+      // Clear canvas
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      
+      // Draw video frame, or a backdrop when replaying landmarks only
+      if (frame.image) {
+        ctx.drawImage(frame.image, 0, 0, canvas.width, canvas.height);
+      } else {
+        ctx.fillStyle = '#111827';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      }
+      
+      // Set shadow properties for glow effect
+      ctx.shadowColor = 'rgba(0, 255, 0, 0.5)';
+      ctx.shadowBlur = 15;
+      ctx.shadowOffsetX = 0;
+      ctx.shadowOffsetY = 0;
+      
+      frame.multiHandLandmarks.forEach((landmarks, index) => {
+        const handPoint = landmarks[trackingLandmarkRef.current];
+        if (handPoint) {
+          const handId = handIdAt(frame, index);
+          // The sphere shrinks and greys out while hovering, and swells as the hand presses in
+          const handDepth = depthsRef.current.get(handId);
+          const zone = ZONE_STYLES[handDepth?.zone ?? 'touch'];
+          const radius = handDepth?.zone === 'hover' ? PREVIEW_RADIUS * 0.7 : PREVIEW_RADIUS * (1 + 0.5 * (handDepth?.press ?? 0));
 
-        hands.onResults((results: Results) => {
-          if (!mounted) return;
-          
-          const canvas = canvasRef.current;
-          if (!canvas) return;
-          
-          const ctx = canvas.getContext('2d');
-          if (!ctx) return;
-          
-          // Clear canvas
-          ctx.clearRect(0, 0, canvas.width, canvas.height);
+          // Draw large hand sphere first
+          ctx.beginPath();
+          ctx.fillStyle = zone.fill;
+          ctx.strokeStyle = zone.stroke;
+          ctx.lineWidth = 2;
+          ctx.setLineDash(handDepth?.zone === 'hover' ? [6, 4] : []);
+          ctx.arc(
+            handPoint.x * canvas.width,
+            handPoint.y * canvas.height,
+            radius, // Smaller visual indicator while keeping larger collision area
+            0,
+            2 * Math.PI
+          );
+          ctx.fill();
+          ctx.stroke();
+          ctx.setLineDash([]);
           
-          // Draw video frame
-          ctx.drawImage(results.image, 0, 0, canvas.width, canvas.height);
+          // Reset shadow for landmarks
+          ctx.shadowBlur = 0;
           
-          // Set shadow properties for glow effect
-          ctx.shadowColor = 'rgba(0, 255, 0, 0.5)';
-          ctx.shadowBlur = 15;
-          ctx.shadowOffsetX = 0;
-          ctx.shadowOffsetY = 0;
+          // Map coordinates
+          const { x, y } = mapToViewport(handPoint, calibrationRef.current);
+          onHandUpdateRef.current(handId, x, y, frame.timestamp);
+          onHandLandmarksRef.current?.(
+            handId,
+            landmarks.map(point => mapToViewport(point, calibrationRef.current))
+          );
           
-          if (results.multiHandLandmarks) {
-            results.multiHandLandmarks.forEach((landmarks, index) => {
-              // Use index fingertip (8) for desktop, palm (9) for mobile
-              const handPoint = window.innerWidth < 768 ? landmarks[9] : landmarks[8];
-              if (handPoint) {
-                // Draw large hand sphere first
-                ctx.beginPath();
-                ctx.fillStyle = 'rgba(0, 255, 0, 0.3)';
-                ctx.strokeStyle = '#00FF00';
-                ctx.lineWidth = 2;
-                ctx.arc(
-                  handPoint.x * canvas.width,
-                  handPoint.y * canvas.height,
-                  35, // Smaller visual indicator while keeping larger collision area
-                  0,
-                  2 * Math.PI
-                );
-                ctx.fill();
-                ctx.stroke();
-                
-                // Reset shadow for landmarks
-                ctx.shadowBlur = 0;
-                
-                // Map coordinates
-                // Further increase scale factors for wider range of motion
-                const scaleX = (window.innerWidth * 2.0) / canvas.width;
-                const scaleY = (window.innerHeight * 2.0) / canvas.height;
-                
-                // Center the interaction area by adjusting the offset
-                const offsetX = window.innerWidth * 0.5;
-                const offsetY = window.innerHeight * 0.5;
-                
-                // Mirror the x coordinate since the video is flipped
-                const mirroredX = window.innerWidth - (handPoint.x * canvas.width * scaleX - offsetX);
-                
-                const x = Math.max(0, Math.min(window.innerWidth, 
-                  mirroredX));
-                const y = Math.max(0, Math.min(window.innerHeight,
-                  handPoint.y * canvas.height * scaleY - offsetY));
-                
-                onHandUpdate(index, x, y);
-                
-                // Draw landmarks
-                ctx.fillStyle = 'rgba(0, 255, 0, 0.8)';
-                landmarks.forEach(point => {
-                  ctx.beginPath();
-                  ctx.arc(point.x * canvas.width, point.y * canvas.height, 3, 0, 2 * Math.PI);
-                  ctx.fill();
-                });
-              }
-            });
-          }
-        });
-        
-        handsRef.current = hands;
-        
-        if (!videoRef.current) return;
-        
-        // Start processing frames
-        const processFrame = async () => {
-          if (!mounted || !videoRef.current || !handsRef.current) return;
-          
-          await handsRef.current.send({ image: videoRef.current });
-          requestAnimationFrame(processFrame);
-        };
-        
-        requestAnimationFrame(processFrame);
-        setIsLoading(false);
-        
-      } catch (error) {
-        console.error('[Tracking] Error:', error);
-        setError(`Hand tracking failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        setIsLoading(false);
-      }
-    }
+          // Draw landmarks
+          ctx.fillStyle = 'rgba(0, 255, 0, 0.8)';
+          landmarks.forEach(point => {
+            ctx.beginPath();
+            ctx.arc(point.x * canvas.width, point.y * canvas.height, 3, 0, 2 * Math.PI);
+            ctx.fill();
+          });
+        }
+      });
+    };
 
-    // Delay initialization slightly to ensure DOM is ready
-    const initTimeout = setTimeout(() => {
-      initializeTracking();
-    }, 1000);
+    setError(null);
+    setStatus(source.status);
+    setProgress(null);
+
+    const unsubscribers = [
+      source.on('frame', handleFrame),
+      source.on('status', next => {
+        setStatus(next);
+        // A retry, or picking another camera, starts loading again
+        if (next === 'loading') setError(null);
+      }),
+      source.on('error', setError),
+      source.on('progress', setProgress)
+    ];
+    
+    source.start();
     
     return () => {
-      mounted = false;
-      clearTimeout(initTimeout);
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
-      }
-      if (handsRef.current) {
-        handsRef.current.close();
-      }
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      source.stop();
     };
-  }, [onHandUpdate]);
+  }, [source]);
+
+  // Restarts the same source in place, keeping the page and simulation state
+  const retry = () => {
+    setError(null);
+    source.stop();
+    source.start();
+  };
   
   return (
-    <div className={`fixed rounded-lg overflow-hidden shadow-lg ${
-      window.innerWidth < 768 ? 'top-4 left-4' : 'top-4 left-4'
-    }`}
+    <div className="fixed top-4 left-4 rounded-lg overflow-hidden shadow-lg"
       ref={resizableRef}
       style={{ 
         width: width,
@@ -258,47 +256,60 @@ export function HandTracking({ onHandUpdate }: Props) {
       }}
     >
       {isLoading && (
-        <div className="absolute inset-0 bg-green-100 flex items-center justify-center p-4">
+        <div className="absolute inset-0 bg-green-100 flex flex-col items-center justify-center gap-2 p-4">
           <p className="text-green-600 text-sm text-center">
-            {isCameraReady ? 'Loading hand tracking...' : 'Initializing camera...'}
+            {loadingMessage(isCameraReady, progress)}
           </p>
+          {isCameraReady && progress?.stage === 'model' && (
+            <div className="w-3/4 h-1.5 rounded-full bg-green-200 overflow-hidden" title={progress.source}>
+              <div
+                className="h-full bg-green-500 transition-all"
+                style={{ width: `${(progress.loaded / progress.total) * 100}%` }}
+              />
+            </div>
+          )}
         </div>
       )}
       {error && (
         <div className="absolute inset-0 bg-red-100 flex items-center justify-center p-4">
           <div className="text-center">
-            <p className="text-red-600 text-sm mb-3">{error}</p>
+            <p className="text-red-600 text-sm">{error.message}</p>
+            {error instanceof TrackingError && error.detail && (
+              <p className="text-red-400 text-xs mt-1">{error.detail}</p>
+            )}
             <button 
-              onClick={() => window.location.reload()} 
-              className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
+              onClick={retry} 
+              className="mt-3 px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
             >
               Retry
             </button>
           </div>
         </div>
       )}
-      <video
-        ref={videoRef}
-        className={`w-full h-full object-cover ${isCameraReady ? 'block' : 'hidden'}`}
-        width={CANVAS_DIMENSIONS.width}
-        height={CANVAS_DIMENSIONS.height}
-        playsInline
-        autoPlay
-        muted
-        style={{ 
-          transform: 'scaleX(-1)',
-          WebkitTransform: 'scaleX(-1)',
-          objectFit: 'contain'
-        }}
-      />
+      {Object.keys(handStates).length > 0 && (
+        <div className="absolute top-2 right-2 z-10 flex flex-col items-end gap-1 pointer-events-none">
+          {Object.entries(handStates).map(([handId, state]) => (
+            <span
+              key={handId}
+              className={`px-2 py-0.5 rounded-full bg-black/60 text-xs font-medium transition-opacity ${
+                state === 'tracked' ? 'text-green-300' : 'text-yellow-300 opacity-60'
+              }`}
+            >
+              Hand {handId} · {state}
+              {state === 'tracked' && handZones[Number(handId)] && handZones[Number(handId)] !== 'touch' && ` · ${handZones[Number(handId)]}`}
+              {activeGestures[Number(handId)] && ` · ${activeGestures[Number(handId)].replace('-', ' ')}`}
+            </span>
+          ))}
+        </div>
+      )}
       <div 
         className="absolute bottom-0 right-0 w-4 h-4 cursor-se-resize bg-green-500/20 hover:bg-green-500/40 transition-colors rounded-bl"
         onMouseDown={(e) => e.stopPropagation()}
       />
       <canvas
         ref={canvasRef}
-        width={CANVAS_DIMENSIONS.width}
-        height={CANVAS_DIMENSIONS.height}
+        width={Math.round(profile.camera.height * profile.camera.aspectRatio)}
+        height={profile.camera.height}
         className="absolute inset-0 w-full h-full pointer-events-none"
         style={{ 
           transform: 'scaleX(-1)',
@@ -0,0 +1,118 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import { Camera, Circle, FolderOpen, Pause, Play, SkipForward, Square } from 'lucide-react';
+import { CameraHandSource } from '../lib/cameraHandSource';
+import type { HandInputSource } from '../lib/handInput';
+import {
+  HandRecorder,
+  HandRecording,
+  PlaybackHandSource,
+  downloadRecording,
+  parseRecording
+} from '../lib/handRecording';
+import { CameraPicker } from './CameraPicker';
+
+interface Props {
+  source: HandInputSource;
+  onLoadRecording: (recording: HandRecording) => void;
+  onUseCamera: () => void;
+}
+
+const buttonClass = 'p-2 rounded-full text-white/80 hover:text-white hover:bg-white/10 transition-colors';
+
+export function InputSourceControls({ source, onLoadRecording, onUseCamera }: Props) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const toggleRecording = () => {
+    if (!(source instanceof HandRecorder)) return;
+
+    if (source.isRecording) {
+      downloadRecording(source.stopRecording());
+      setIsRecording(false);
+    } else {
+      source.startRecording();
+      setIsRecording(true);
+    }
+  };
+
+  const togglePlayback = () => {
+    if (!(source instanceof PlaybackHandSource)) return;
+
+    if (source.isPaused) {
+      source.resume();
+    } else {
+      source.pause();
+    }
+    setIsPaused(source.isPaused);
+  };
+
+  const stepPlayback = () => {
+    if (!(source instanceof PlaybackHandSource)) return;
+    source.step();
+    setIsPaused(true);
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onLoadRecording(parseRecording(await file.text()));
+      setIsPaused(false);
+      setLoadError(null);
+    } catch (error) {
+      console.error('[Recording] Failed to load:', error);
+      setLoadError(error instanceof Error ? error.message : 'Invalid recording');
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 left-4 flex items-center gap-1 px-2 py-1 rounded-full bg-black/50 backdrop-blur text-xs text-white/80">
+      {source instanceof HandRecorder && (
+        <button
+          onClick={toggleRecording}
+          className={buttonClass}
+          title={isRecording ? 'Stop and save recording' : 'Record landmarks'}
+        >
+          {isRecording
+            ? <Square className="w-4 h-4 text-red-400" fill="currentColor" />
+            : <Circle className="w-4 h-4 text-red-400" />}
+        </button>
+      )}
+      {source instanceof PlaybackHandSource && (
+        <>
+          <button onClick={togglePlayback} className={buttonClass} title={isPaused ? 'Play' : 'Pause'}>
+            {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+          </button>
+          <button onClick={stepPlayback} className={buttonClass} title="Step one frame">
+            <SkipForward className="w-4 h-4" />
+          </button>
+          <button onClick={onUseCamera} className={buttonClass} title="Back to live camera">
+            <Camera className="w-4 h-4" />
+          </button>
+        </>
+      )}
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className={buttonClass}
+        title="Replay a recording"
+      >
+        <FolderOpen className="w-4 h-4" />
+      </button>
+      {source instanceof HandRecorder && source.source instanceof CameraHandSource && (
+        <CameraPicker camera={source.source} />
+      )}
+      {loadError && <span className="pr-2 text-red-300">{loadError}</span>}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleFile}
+      />
+    </div>
+  );
+}
@@ -1,28 +1,454 @@
-import React, { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Circle,
+  Crosshair,
+  Droplets,
+  Gauge,
+  Hand,
+  Hexagon,
+  Layers,
+  Magnet,
+  PencilRuler,
+  Pointer,
+  PointerOff,
+  RotateCcw,
+  Settings,
+  ShowerHead,
+  SlidersHorizontal,
+  Waves
+} from 'lucide-react';
 import { LiquidSimulation } from '../lib/liquidSimulation';
+import {
+  CalibrationMapping,
+  DEFAULT_CALIBRATION,
+  clearCalibration,
+  loadCalibration,
+  saveCalibration
+} from '../lib/calibration';
+import { CameraHandSource } from '../lib/cameraHandSource';
+import { DeviceProfile, getDeviceProfile } from '../lib/deviceProfile';
+import { GestureFlow } from '../lib/gestureFlow';
+import { GestureRecognizer } from '../lib/gestures';
+import type { Point } from '../lib/geometry';
+import type { HandColliderMode } from '../lib/handColliders';
+import {
+  DepthCalibration,
+  HandDepthEstimator,
+  loadDepthCalibration,
+  saveDepthCalibration
+} from '../lib/handDepth';
+import { HandForces } from '../lib/handForces';
+import { HandIdentityTracker } from '../lib/handIdentity';
+import { HandPresenceTracker } from '../lib/handPresence';
+import { HandInputSource, ProcessedHandSource } from '../lib/handInput';
+import { HandRecorder, HandRecording, PlaybackHandSource } from '../lib/handRecording';
+import { LandmarkFilter } from '../lib/landmarkFilters';
+import { LevelEditor } from '../lib/levelEditor';
+import { downloadLevel } from '../lib/levelFile';
+import type { RendererOptions } from '../lib/liquidRenderer';
+import { PerformanceGovernor } from '../lib/performanceGovernor';
+import { PointerHandSource } from '../lib/pointerHandSource';
+import type { SceneDefinition } from '../lib/scene';
+import { CLASSIC_SCENE, sceneRegistry } from '../lib/sceneRegistry';
+import {
+  applyQualityTier,
+  ConfigValidation,
+  configFromSnapshot,
+  decodeConfig,
+  defaultConfig,
+  encodeConfig,
+  isSameConfig,
+  SimulationConfig
+} from '../lib/simulationConfig';
+import { WorldSnapshot, downloadSnapshot } from '../lib/worldSnapshot';
+import { CalibrationOverlay } from './CalibrationOverlay';
+import { DepthCalibrationOverlay } from './DepthCalibrationOverlay';
+import { EditorOverlay } from './EditorOverlay';
+import { FilterSettingsPanel } from './FilterSettingsPanel';
+import { FlowPanel } from './FlowPanel';
+import { ForceIndicators } from './ForceIndicators';
+import { ForcePanel } from './ForcePanel';
 import { HandTracking } from './HandTracking';
+import { InputSourceControls } from './InputSourceControls';
+import { OnboardingOverlay } from './OnboardingOverlay';
+import { PerformanceHud } from './PerformanceHud';
+import { ScenePicker } from './ScenePicker';
+import { SettingsPanel } from './SettingsPanel';
+import { SnapshotControls } from './SnapshotControls';
+import { useDeviceProfile } from '../hooks/useDeviceProfile';
+
+const toolbarButtonClass = 'flex items-center gap-2 px-3 py-2 rounded-full bg-black/50 backdrop-blur text-xs text-white/80 hover:text-white transition-colors';
+
+type LiquidView = 'particles' | 'surface' | 'outlines';
+
+const LIQUID_VIEWS: Record<LiquidView, { label: string; options: Partial<RendererOptions> }> = {
+  particles: { label: 'Particles', options: { mode: 'particles', debugOutlines: false } },
+  surface: { label: 'Surface', options: { mode: 'surface', debugOutlines: false } },
+  outlines: { label: 'Outlines', options: { mode: 'surface', debugOutlines: true } }
+};
+
+// `?seed=123` pins the simulation's random choices so a scene can be reproduced
+function seedFromUrl(): number | undefined {
+  const seed = Number.parseInt(new URLSearchParams(window.location.search).get('seed') ?? '', 10);
+  return Number.isFinite(seed) ? seed : undefined;
+}
+
+// `?scene=cups` opens a registered scene; unknown IDs fall back to the classic box
+function sceneIdFromUrl(): string {
+  const id = new URLSearchParams(window.location.search).get('scene');
+  return id && sceneRegistry.get(id) ? id : CLASSIC_SCENE.id;
+}
+
+function replaceUrlSearch(params: URLSearchParams) {
+  const query = params.toString();
+  window.history.replaceState(
+    null,
+    '',
+    `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`
+  );
+}
+
+// Settings shared through the URL win over the device defaults
+function configFromUrl(): ConfigValidation {
+  return decodeConfig(new URLSearchParams(window.location.search))
+    ?? { config: defaultConfig(getDeviceProfile().isMobile), errors: [] };
+}
+
+// Full-hand colliders by default; the single circle stays for low-end (mobile) devices
+function defaultHandMode(profile: DeviceProfile): HandColliderMode {
+  return profile.isMobile ? 'circle' : 'articulated';
+}
+
+function createCameraSource(): HandInputSource {
+  return new HandRecorder(new CameraHandSource());
+}
+
+// The live camera behind the recorder, if the current source has one
+function cameraOf(source: HandInputSource): CameraHandSource | null {
+  return source instanceof HandRecorder && source.source instanceof CameraHandSource ? source.source : null;
+}
 
 export function LiquidCanvas() {
   const containerRef = useRef<HTMLDivElement>(null);
   const simulationRef = useRef<LiquidSimulation | null>(null);
+  const pointerRef = useRef<PointerHandSource | null>(null);
+  const [inputSource, setInputSource] = useState<HandInputSource>(createCameraSource);
+  // Presence decides when a hand is gone, so identity never drops IDs on its own
+  const [handIdentity] = useState(() => new HandIdentityTracker({ dropAfterMs: Infinity }));
+  const [handPresence] = useState(() => new HandPresenceTracker());
+  const [landmarkFilter] = useState(() => new LandmarkFilter());
+  // Recordings keep raw landmarks; everything downstream sees identified, filtered hands
+  const source = useMemo(
+    () => new ProcessedHandSource(inputSource, [handIdentity, handPresence, landmarkFilter]),
+    [inputSource, handIdentity, handPresence, landmarkFilter]
+  );
+  const [gestures] = useState(() => new GestureRecognizer());
+  const profile = useDeviceProfile();
+  const [handDepth] = useState(() => new HandDepthEstimator(profile.camera.aspectRatio));
+  const profileRef = useRef(profile);
+  const [handMode, setHandMode] = useState<HandColliderMode>(() => defaultHandMode(profile));
+  const [pointerHands, setPointerHands] = useState(true);
+  const [initialConfig] = useState(configFromUrl);
+  const [config, setConfig] = useState<SimulationConfig>(initialConfig.config);
+  const [configErrors, setConfigErrors] = useState<string[]>(initialConfig.errors);
+  const [showSettings, setShowSettings] = useState(false);
+  const [governor] = useState(() => new PerformanceGovernor());
+  const [qualityTier, setQualityTier] = useState(governor.tier);
+  const [showPerformance, setShowPerformance] = useState(false);
+  const [liquidView, setLiquidView] = useState<LiquidView>('particles');
+  const [calibration, setCalibration] = useState<CalibrationMapping>(DEFAULT_CALIBRATION);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [isCalibratingDepth, setIsCalibratingDepth] = useState(false);
+  const [showFilterSettings, setShowFilterSettings] = useState(false);
+  const [seed, setSeed] = useState<number | null>(null);
+  const [sceneId, setSceneId] = useState(sceneIdFromUrl);
+  const [editor, setEditor] = useState<LevelEditor | null>(null);
+  const [forces, setForces] = useState<HandForces | null>(null);
+  const [showForces, setShowForces] = useState(false);
+  const [showFlow, setShowFlow] = useState(false);
+  const gestureFlowRef = useRef<GestureFlow | null>(null);
+  // What a new simulation starts with; later changes reach a running one through their own effects
+  const startupRef = useRef({ handMode, config, qualityTier, sceneId, liquidView });
+  
+  const handleHandUpdate = useCallback((handId: number, x: number, y: number, timestamp?: number) => {
+    simulationRef.current?.world.updateHandPosition(handId, x, y, timestamp);
+  }, []);
+
+  const handleHandLandmarks = useCallback((handId: number, points: Point[]) => {
+    simulationRef.current?.world.updateHandLandmarks(handId, points);
+    forces?.updateHand(handId, points, gestures.getActiveGesture(handId));
+  }, [forces, gestures]);
+
+  const toggleHandMode = () => {
+    setHandMode(current => (current === 'circle' ? 'articulated' : 'circle'));
+  };
+
+  const toggleSolver = () => {
+    setConfig(current => ({ ...current, solver: current.solver === 'rigid' ? 'fluid' : 'rigid' }));
+  };
+
+  const handleConfigChange = useCallback((next: SimulationConfig) => {
+    setConfig(next);
+    setConfigErrors([]);
+  }, []);
+
+  const resetConfig = useCallback(() => {
+    handleConfigChange(defaultConfig(profile.isMobile));
+  }, [handleConfigChange, profile]);
+
+  const cycleLiquidView = () => {
+    const views = Object.keys(LIQUID_VIEWS) as LiquidView[];
+    const next = views[(views.indexOf(liquidView) + 1) % views.length];
+    simulationRef.current?.renderer.setOptions(LIQUID_VIEWS[next].options);
+    setLiquidView(next);
+  };
+
+  const handleCalibrated = useCallback((mapping: CalibrationMapping) => {
+    saveCalibration(source.deviceId, mapping);
+    setCalibration(mapping);
+    setIsCalibrating(false);
+  }, [source]);
+
+  const handleCancelCalibration = useCallback(() => setIsCalibrating(false), []);
+
+  const handleDepthCalibrated = useCallback((depthCalibration: DepthCalibration) => {
+    saveDepthCalibration(source.deviceId, depthCalibration);
+    handDepth.setCalibration(depthCalibration);
+    setIsCalibratingDepth(false);
+  }, [source, handDepth]);
+
+  const handleCancelDepthCalibration = useCallback(() => setIsCalibratingDepth(false), []);
+
+  const resetCalibration = () => {
+    clearCalibration(source.deviceId);
+    setCalibration(DEFAULT_CALIBRATION);
+  };
+
+  const handleLoadRecording = useCallback((recording: HandRecording) => {
+    setInputSource(new PlaybackHandSource(recording));
+  }, []);
+
+  const handleUseCamera = useCallback(() => {
+    setInputSource(createCameraSource());
+  }, []);
+
+  const handleSaveSnapshot = useCallback(() => {
+    const simulation = simulationRef.current;
+    if (simulation) downloadSnapshot(simulation.saveSnapshot());
+  }, []);
+
+  const handleLoadSnapshot = useCallback((snapshot: WorldSnapshot) => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+
+    simulation.loadSnapshot(snapshot);
+    // Saved hands that aren't being tracked now would never receive a 'gone' and linger
+    snapshot.hands
+      .filter(hand => handPresence.getState(hand.id) === 'gone')
+      .forEach(hand => simulation.world.removeHand(hand.id));
+    setHandMode(snapshot.handMode);
+    setConfig(current => configFromSnapshot(snapshot, current));
+    setSeed(snapshot.seed);
+    setSceneId(simulation.world.getScene().id);
+  }, [handPresence]);
   
-  const handleHandUpdate = (handIndex: number, x: number, y: number) => {
-    simulationRef.current?.updateHandPosition(handIndex, x, y);
+  const startEditing = () => {
+    const simulation = simulationRef.current;
+    if (simulation) setEditor(new LevelEditor(simulation.world.getScene()));
   };
+
+  // An edited layout becomes the 'custom' scene, so it shows in the picker and in snapshots
+  const finishEditing = useCallback(() => {
+    const simulation = simulationRef.current;
+    if (simulation && editor?.changed) {
+      const scene = simulation.world.getScene();
+      sceneRegistry.register(scene, { replace: true });
+      setSceneId(scene.id);
+    }
+    setEditor(null);
+  }, [editor]);
+
+  const handleExportLevel = useCallback(() => {
+    const simulation = simulationRef.current;
+    if (simulation) downloadLevel(editor?.scene ?? simulation.world.getScene());
+  }, [editor]);
+
+  // Imported levels replace any scene registered under the same ID and are played straight away.
+  // The built-in classic scene can't be replaced, so a level claiming its ID is turned down.
+  const handleImportLevel = useCallback((scene: SceneDefinition) => {
+    if (scene.id === CLASSIC_SCENE.id) {
+      throw new Error(`The id "${CLASSIC_SCENE.id}" belongs to the built-in scene; give the level another id`);
+    }
+    sceneRegistry.register(scene, { replace: true });
+    simulationRef.current?.setScene(scene);
+    setSceneId(scene.id);
+    setEditor(null);
+  }, []);
+
+  // Pinches draw in the editor, so they don't pour while it is open
+  useEffect(() => {
+    gestureFlowRef.current?.setEnabled(editor === null);
+  }, [editor]);
+
+  // Every edit is rebuilt into the world at once, with the liquid left in place
+  useEffect(() => editor?.on('change', () => {
+    simulationRef.current?.world.editScene(editor.scene);
+  }), [editor]);
+  
+  useEffect(() => {
+    startupRef.current = { handMode, config, qualityTier, sceneId, liquidView };
+  }, [handMode, config, qualityTier, sceneId, liquidView]);
   
   useEffect(() => {
     const container = containerRef.current;
     if (!container) return;
     
     // Create simulation
-    const simulation = new LiquidSimulation(container);
+    const { handMode, config, qualityTier, sceneId, liquidView } = startupRef.current;
+    const simulation = new LiquidSimulation(container, {
+      handMode,
+      config: applyQualityTier(config, qualityTier),
+      scene: sceneRegistry.get(sceneId),
+      seed: seedFromUrl(),
+      renderer: LIQUID_VIEWS[liquidView].options,
+      governor
+    });
     simulationRef.current = simulation;
+    setSeed(simulation.world.getSeed());
+    const handForces = new HandForces(simulation.world);
+    setForces(handForces);
+    const gestureFlow = new GestureFlow(simulation.world, gestures);
+    gestureFlowRef.current = gestureFlow;
+    
+    // Pointers take the same path into the world as camera hands, so both can be used at once
+    const pointer = new PointerHandSource(container);
+    pointerRef.current = pointer;
+    
+    const unsubscribers = [
+      pointer.on('update', ({ handId, x, y, timestamp }) => {
+        handleHandUpdate(handId, x, y, timestamp);
+        // Pointers have no landmarks, so they keep the circle collider in full-hand mode
+        simulation.world.setHandColliderMode(handId, 'circle');
+      }),
+      pointer.on('change', ({ id, state }) => {
+        simulation.world.setHandPresence(id, state);
+        // Pressing on a draggable object picks it up, like the mouse does with pointer hands off
+        if (state === 'tracked') simulation.world.setHandGrab(id, true, 'pointer');
+      }),
+      gestures.on('start', ({ handId, gesture }) => simulation.world.setHandGesture(handId, gesture)),
+      gestures.on('end', ({ handId }) => simulation.world.setHandGesture(handId, null)),
+      handPresence.on('change', ({ id, state }) => {
+        simulation.world.setHandPresence(id, state);
+        // A hand that drops out shouldn't keep tilting gravity or holding a field open
+        if (state !== 'tracked') {
+          handForces.removeHand(id);
+          gestureFlow.removeHand(id);
+        }
+      }),
+      handPresence.on('gone', ({ id }) => handIdentity.release(id)),
+      handDepth.on('update', ({ handId, depth }) => simulation.world.setHandDepth(handId, depth))
+    ];
     
     // Cleanup
     return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      handForces.destroy();
+      gestureFlow.destroy();
+      pointer.destroy();
+      handPresence.destroy();
       simulation.destroy();
     };
-  }, []);
+  }, [gestures, handIdentity, handPresence, handDepth, governor, handleHandUpdate]);
+
+  useEffect(() => governor.on('tier', setQualityTier), [governor]);
+
+  // The quality tier scales the settings down without touching what the panel and URL show
+  useEffect(() => {
+    simulationRef.current?.applyConfig(applyQualityTier(config, qualityTier));
+  }, [config, qualityTier]);
+
+  // Settings are mirrored into the URL so the current setup can be shared
+  useEffect(() => {
+    replaceUrlSearch(encodeConfig(config, new URLSearchParams(window.location.search)));
+  }, [config]);
+
+  useEffect(() => {
+    simulationRef.current?.setScene(sceneRegistry.get(sceneId) ?? CLASSIC_SCENE);
+
+    const params = new URLSearchParams(window.location.search);
+    if (sceneId === CLASSIC_SCENE.id) {
+      params.delete('scene');
+    } else {
+      params.set('scene', sceneId);
+    }
+    replaceUrlSearch(params);
+  }, [sceneId]);
+
+  // Choices still at the previous device's defaults follow the new one; user edits are kept
+  useEffect(() => {
+    const previous = profileRef.current;
+    profileRef.current = profile;
+    if (previous === profile) return;
+
+    cameraOf(inputSource)?.setDeviceProfile(profile);
+    setConfig(current => (
+      isSameConfig(current, defaultConfig(previous.isMobile)) ? defaultConfig(profile.isMobile) : current
+    ));
+    setHandMode(current => (current === defaultHandMode(previous) ? defaultHandMode(profile) : current));
+  }, [profile, inputSource]);
+
+  useEffect(() => {
+    simulationRef.current?.world.setHandMode(handMode);
+  }, [handMode]);
+
+  // With pointer hands off, the mouse drags bodies as before
+  useEffect(() => {
+    pointerRef.current?.setEnabled(pointerHands);
+    simulationRef.current?.setMouseDrag(!pointerHands);
+  }, [pointerHands]);
+
+  // Slow devices track fewer hands with the lite model
+  useEffect(() => {
+    cameraOf(inputSource)?.setOptions({
+      maxNumHands: Math.min(profile.maxHands, qualityTier.maxHands),
+      modelComplexity: qualityTier.modelComplexity
+    });
+  }, [inputSource, profile, qualityTier]);
+
+  useEffect(() => source.on('frame', ({ inferenceMs }) => {
+    if (inferenceMs !== undefined) governor.recordTracking(inferenceMs);
+  }), [source, governor]);
+
+  // Every source feeds the same gesture recognizer
+  useEffect(() => {
+    gestures.reset();
+    return source.on('frame', frame => gestures.update(frame));
+  }, [source, gestures]);
+
+  // Calibration is stored per camera, and the device is only known once the stream is up
+  useEffect(() => {
+    setCalibration(loadCalibration(source.deviceId));
+    return source.on('status', status => {
+      if (status === 'running') setCalibration(loadCalibration(source.deviceId));
+    });
+  }, [source]);
+
+  // Depth thresholds are stored per camera too, since its field of view sets how big a hand looks
+  useEffect(() => {
+    handDepth.setCalibration(loadDepthCalibration(source.deviceId));
+    return source.on('status', status => {
+      if (status === 'running') handDepth.setCalibration(loadDepthCalibration(source.deviceId));
+    });
+  }, [source, handDepth]);
+
+  useEffect(() => {
+    handDepth.reset();
+    return source.on('frame', frame => handDepth.update(frame));
+  }, [source, handDepth]);
+
+  useEffect(() => {
+    handDepth.setAspectRatio(profile.camera.aspectRatio);
+  }, [profile, handDepth]);
   
   return (
     <>
@@ -30,7 +456,175 @@ export function LiquidCanvas() {
         ref={containerRef}
         className="fixed inset-0 bg-gradient-to-b from-blue-50 to-blue-100"
       />
-      <HandTracking onHandUpdate={handleHandUpdate} />
+      <HandTracking
+        source={source}
+        gestures={gestures}
+        presence={handPresence}
+        depth={handDepth}
+        calibration={calibration}
+        profile={profile}
+        onHandUpdate={handleHandUpdate}
+        onHandLandmarks={handleHandLandmarks}
+      />
+      <OnboardingOverlay source={source} presence={handPresence} gestures={gestures} maxHands={profile.maxHands} />
+      <InputSourceControls
+        key={inputSource.kind}
+        source={inputSource}
+        onLoadRecording={handleLoadRecording}
+        onUseCamera={handleUseCamera}
+      />
+      <SnapshotControls seed={seed} onSave={handleSaveSnapshot} onLoad={handleLoadSnapshot} />
+      <div className="fixed bottom-4 right-4 flex items-center gap-2">
+        <ScenePicker sceneId={sceneId} onChange={setSceneId} className={toolbarButtonClass} />
+        {calibration.kind !== 'default' && (
+          <button onClick={resetCalibration} className={toolbarButtonClass} title="Reset calibration">
+            <RotateCcw className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={() => setShowPerformance(visible => !visible)}
+          className={toolbarButtonClass}
+          title="Frame rate, latency and quality tier"
+        >
+          <Gauge className="w-4 h-4" />
+          {qualityTier.name}
+        </button>
+        <button
+          onClick={() => setShowSettings(visible => !visible)}
+          className={toolbarButtonClass}
+          title="Particle, hand and physics settings"
+        >
+          <Settings className="w-4 h-4" />
+          Settings
+        </button>
+        <button
+          onClick={() => setShowFilterSettings(visible => !visible)}
+          className={toolbarButtonClass}
+          title="Landmark smoothing and prediction"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          Smoothing
+        </button>
+        <button
+          onClick={() => setIsCalibrating(true)}
+          className={toolbarButtonClass}
+          title="Map camera space to the screen corners"
+        >
+          <Crosshair className="w-4 h-4" />
+          Calibrate
+        </button>
+        <button
+          onClick={() => setIsCalibratingDepth(true)}
+          className={toolbarButtonClass}
+          title="Set how far back your hand hovers and how close it presses"
+        >
+          <Layers className="w-4 h-4" />
+          Depth
+        </button>
+        <button
+          onClick={cycleLiquidView}
+          className={toolbarButtonClass}
+          title="Cycle between particles, liquid surface and surface with particle outlines"
+        >
+          <Waves className="w-4 h-4" />
+          {LIQUID_VIEWS[liquidView].label}
+        </button>
+        <button
+          onClick={toggleSolver}
+          className={toolbarButtonClass}
+          title="Switch between rigid hexagons and the fluid solver"
+        >
+          {config.solver === 'fluid' ? <Droplets className="w-4 h-4" /> : <Hexagon className="w-4 h-4" />}
+          {config.solver === 'fluid' ? 'Fluid' : 'Rigid'}
+        </button>
+        <button
+          onClick={() => setPointerHands(enabled => !enabled)}
+          className={toolbarButtonClass}
+          title="Let mouse, pen and touch act as hands, or drag bodies with the mouse instead"
+        >
+          {pointerHands ? <Pointer className="w-4 h-4" /> : <PointerOff className="w-4 h-4" />}
+          {pointerHands ? 'Pointer' : 'Drag'}
+        </button>
+        <button
+          onClick={() => setShowForces(visible => !visible)}
+          className={toolbarButtonClass}
+          title="Tilt and scale gravity, or pull the liquid, with your hands"
+        >
+          <Magnet className="w-4 h-4" />
+          Forces
+        </button>
+        <button
+          onClick={() => setShowFlow(visible => !visible)}
+          className={toolbarButtonClass}
+          title="Add faucets and drains, and watch the particle count against its budget"
+        >
+          <ShowerHead className="w-4 h-4" />
+          Flow
+        </button>
+        <button
+          onClick={startEditing}
+          className={toolbarButtonClass}
+          title="Draw walls, ramps and containers, or import and export a level"
+        >
+          <PencilRuler className="w-4 h-4" />
+          Edit
+        </button>
+        <button
+          onClick={toggleHandMode}
+          className={toolbarButtonClass}
+          title="Switch between full-hand and single-circle colliders"
+        >
+          {handMode === 'articulated' ? <Hand className="w-4 h-4" /> : <Circle className="w-4 h-4" />}
+          {handMode === 'articulated' ? 'Full hand' : 'Simple'}
+        </button>
+      </div>
+      {showPerformance && <PerformanceHud governor={governor} onClose={() => setShowPerformance(false)} />}
+      {showSettings && (
+        <SettingsPanel
+          config={config}
+          errors={configErrors}
+          onChange={handleConfigChange}
+          onReset={resetConfig}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+      {showFilterSettings && (
+        <FilterSettingsPanel
+          filter={landmarkFilter}
+          recording={inputSource instanceof PlaybackHandSource ? inputSource.recording : null}
+          onClose={() => setShowFilterSettings(false)}
+        />
+      )}
+      {forces && <ForceIndicators forces={forces} />}
+      {showForces && forces && <ForcePanel forces={forces} onClose={() => setShowForces(false)} />}
+      {showFlow && simulationRef.current && (
+        <FlowPanel world={simulationRef.current.world} onClose={() => setShowFlow(false)} />
+      )}
+      {editor && simulationRef.current && (
+        <EditorOverlay
+          editor={editor}
+          world={simulationRef.current.world}
+          gestures={gestures}
+          onImport={handleImportLevel}
+          onExport={handleExportLevel}
+          onClose={finishEditing}
+        />
+      )}
+      {isCalibrating && (
+        <CalibrationOverlay
+          source={source}
+          onComplete={handleCalibrated}
+          onCancel={handleCancelCalibration}
+        />
+      )}
+      {isCalibratingDepth && (
+        <DepthCalibrationOverlay
+          source={source}
+          aspectRatio={profile.camera.aspectRatio}
+          onComplete={handleDepthCalibrated}
+          onCancel={handleCancelDepthCalibration}
+        />
+      )}
     </>
   );
-}
\ No newline at end of file
+}
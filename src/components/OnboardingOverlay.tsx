@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { Hand } from 'lucide-react';
+import type { GestureRecognizer } from '../lib/gestures';
+import type { HandInputSource } from '../lib/handInput';
+import type { HandPresenceTracker } from '../lib/handPresence';
+import { hasCompletedOnboarding, Onboarding } from '../lib/onboarding';
+
+interface Props {
+  source: HandInputSource;
+  presence: HandPresenceTracker;
+  gestures: GestureRecognizer;
+  maxHands: number;
+}
+
+// How long the closing message stays up after the last step
+const DONE_MS = 2500;
+
+// `?tour` shows the tour again for visitors who have already finished it
+function shouldShowTour() {
+  return new URLSearchParams(window.location.search).has('tour') || !hasCompletedOnboarding();
+}
+
+export function OnboardingOverlay({ source, presence, gestures, maxHands }: Props) {
+  const [onboarding] = useState(() => (shouldShowTour() ? new Onboarding({ maxHands }) : null));
+  const [state, setState] = useState(() => onboarding?.state ?? null);
+  const [visible, setVisible] = useState(onboarding !== null);
+
+  useEffect(() => {
+    if (!onboarding) return;
+
+    let doneTimeout: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribers = [
+      onboarding.on('change', setState),
+      onboarding.on('complete', ({ skipped }) => {
+        if (skipped) {
+          setVisible(false);
+        } else {
+          doneTimeout = setTimeout(() => setVisible(false), DONE_MS);
+        }
+      })
+    ];
+    onboarding.start();
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      if (doneTimeout) clearTimeout(doneTimeout);
+      onboarding.destroy();
+    };
+  }, [onboarding]);
+
+  // The tour follows whichever source is active, e.g. a recording played back instead of the camera
+  useEffect(() => onboarding?.connect(source, presence, gestures), [onboarding, source, presence, gestures]);
+
+  if (!onboarding || !state) return null;
+
+  const { step, index, total, hint } = state;
+
+  return (
+    <div
+      className={`fixed inset-0 z-20 pointer-events-none flex items-center justify-center -mt-32 transition-opacity duration-1000 ${
+        visible ? 'opacity-100' : 'opacity-0'
+      }`}
+    >
+      <div className="text-center text-white px-6">
+        <div className="flex justify-center space-x-8 mb-4">
+          <Hand className="w-12 h-12 scale-x-[-1]" strokeWidth={1.5} />
+          {(step?.id === 'second-hand' || !step) && <Hand className="w-12 h-12" strokeWidth={1.5} />}
+        </div>
+        <p className="text-xl font-light tracking-wide">
+          {step ? step.prompt : 'You’re all set. Have fun!'}
+        </p>
+        <p className={`mt-2 h-5 text-sm text-white/70 transition-opacity duration-500 ${hint ? 'opacity-100' : 'opacity-0'}`}>
+          {hint}
+        </p>
+        {step && (
+          <div className="mt-6 flex flex-col items-center gap-3">
+            <div className="flex gap-2">
+              {Array.from({ length: total }, (_, dot) => (
+                <span
+                  key={dot}
+                  className={`w-2 h-2 rounded-full ${dot < index ? 'bg-white' : dot === index ? 'bg-white/70' : 'bg-white/25'}`}
+                />
+              ))}
+            </div>
+            <div className="flex gap-2 pointer-events-auto text-xs">
+              <button
+                onClick={() => onboarding.skipStep()}
+                className="px-3 py-1 rounded-full bg-black/40 text-white/80 hover:text-white transition-colors"
+              >
+                {step.optional ? 'Maybe later' : 'Skip step'}
+              </button>
+              <button
+                onClick={() => onboarding.skipAll()}
+                className="px-3 py-1 rounded-full text-white/60 hover:text-white transition-colors"
+              >
+                Skip tour
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
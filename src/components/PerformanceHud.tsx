@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { PerformanceGovernor, PerformanceMetrics, QUALITY_TIERS } from '../lib/performanceGovernor';
+
+interface Props {
+  governor: PerformanceGovernor;
+  onClose: () => void;
+}
+
+function formatMs(value: number | null) {
+  return value === null ? '–' : `${value.toFixed(1)} ms`;
+}
+
+export function PerformanceHud({ governor, onClose }: Props) {
+  const [metrics, setMetrics] = useState<PerformanceMetrics | null>(() => governor.getMetrics());
+  const [tierLevel, setTierLevel] = useState(governor.tierLevel);
+  const [auto, setAuto] = useState(governor.auto);
+
+  useEffect(() => {
+    const unsubscribers = [
+      governor.on('metrics', setMetrics),
+      governor.on('tier', () => setTierLevel(governor.tierLevel))
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [governor]);
+
+  const toggleAuto = () => {
+    governor.auto = !governor.auto;
+    setAuto(governor.auto);
+  };
+
+  // Picking a tier by hand turns the governor off so it doesn't undo the choice
+  const selectTier = (level: number) => {
+    governor.auto = false;
+    setAuto(false);
+    governor.setTier(level);
+  };
+
+  const rows: [string, string][] = [
+    ['FPS', metrics ? metrics.fps.toFixed(0) : '–'],
+    ['Frame', formatMs(metrics?.frameMs ?? null)],
+    ['Physics', formatMs(metrics?.stepMs ?? null)],
+    ['Render', formatMs(metrics?.renderMs ?? null)],
+    ['Tracking', formatMs(metrics?.trackingMs ?? null)]
+  ];
+
+  return (
+    <div className="fixed top-4 right-4 w-48 p-3 space-y-2 rounded-xl bg-black/70 backdrop-blur text-xs text-white shadow-lg">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium">Performance</h2>
+        <button onClick={onClose} className="text-white/60 hover:text-white transition-colors" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-2 gap-y-0.5">
+        {rows.map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="text-white/60">{label}</dt>
+            <dd className="text-right tabular-nums text-white/80">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={tierLevel}
+          onChange={(e) => selectTier(Number(e.target.value))}
+          className="flex-1 px-2 py-1 rounded bg-white/10 text-white"
+          title="Quality tier"
+        >
+          {QUALITY_TIERS.map((tier, level) => (
+            <option key={tier.name} value={level} className="text-black">{tier.name}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-white/60">
+          <input type="checkbox" checked={auto} onChange={toggleAuto} className="accent-green-400" />
+          Auto
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { Shapes } from 'lucide-react';
+import type { SceneDefinition } from '../lib/scene';
+import { sceneRegistry } from '../lib/sceneRegistry';
+
+interface Props {
+  sceneId: string;
+  onChange: (sceneId: string) => void;
+  className?: string;
+}
+
+export function ScenePicker({ sceneId, onChange, className }: Props) {
+  const [scenes, setScenes] = useState<SceneDefinition[]>(() => sceneRegistry.list());
+
+  // Scenes registered after startup show up straight away
+  useEffect(() => sceneRegistry.on('change', setScenes), []);
+
+  const current = scenes.find(scene => scene.id === sceneId);
+
+  return (
+    <label className={className} title={current?.description ?? 'Scene'}>
+      <Shapes className="w-4 h-4" />
+      <select
+        value={sceneId}
+        onChange={(e) => onChange(e.target.value)}
+        className="max-w-[8rem] bg-transparent text-white/80 hover:text-white"
+      >
+        {scenes.map(scene => (
+          <option key={scene.id} value={scene.id} className="text-black">{scene.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Link, RotateCcw, X } from 'lucide-react';
+import { SOLVER_KINDS, SolverKind } from '../lib/particleSolver';
+import {
+  applyPreset,
+  CONFIG_FIELDS,
+  CONFIG_GROUPS,
+  CONFIG_PRESETS,
+  NumericConfigKey,
+  SimulationConfig
+} from '../lib/simulationConfig';
+import { Slider } from './Slider';
+
+interface Props {
+  config: SimulationConfig;
+  errors: string[];
+  onChange: (config: SimulationConfig) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const NUMERIC_KEYS = Object.keys(CONFIG_FIELDS) as NumericConfigKey[];
+
+const buttonClass = 'text-white/60 hover:text-white transition-colors';
+
+export function SettingsPanel({ config, errors, onChange, onReset, onClose }: Props) {
+  const [copied, setCopied] = useState(false);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('[Settings] Failed to copy link:', error);
+    }
+  };
+
+  return (
+    <div className="fixed top-16 left-4 w-64 max-h-[calc(100vh-8rem)] overflow-y-auto p-4 space-y-3 rounded-xl bg-black/70 backdrop-blur text-xs text-white shadow-lg">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium">Simulation settings</h2>
+        <div className="flex items-center gap-2">
+          <button onClick={copyLink} className={buttonClass} title={copied ? 'Link copied' : 'Copy link to these settings'}>
+            <Link className="w-4 h-4" />
+          </button>
+          <button onClick={onReset} className={buttonClass} title="Reset to defaults">
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <button onClick={onClose} className={buttonClass} title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <select
+          value=""
+          onChange={(e) => e.target.value && onChange(applyPreset(e.target.value))}
+          className="flex-1 px-2 py-1 rounded bg-white/10 text-white"
+        >
+          <option value="" className="text-black">Preset…</option>
+          {Object.keys(CONFIG_PRESETS).map(name => (
+            <option key={name} value={name} className="text-black">{name}</option>
+          ))}
+        </select>
+        <select
+          value={config.solver}
+          onChange={(e) => onChange({ ...config, solver: e.target.value as SolverKind })}
+          className="flex-1 px-2 py-1 rounded bg-white/10 text-white"
+        >
+          {SOLVER_KINDS.map(kind => (
+            <option key={kind} value={kind} className="text-black">{kind === 'rigid' ? 'Rigid' : 'Fluid'}</option>
+          ))}
+        </select>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="space-y-1 text-red-300">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      {CONFIG_GROUPS.map(group => (
+        <details key={group} open={group !== 'Physics'} className="space-y-2">
+          <summary className="cursor-pointer text-white/80">{group}</summary>
+          {NUMERIC_KEYS.filter(key => CONFIG_FIELDS[key].group === group).map(key => {
+            const field = CONFIG_FIELDS[key];
+            return (
+              <Slider
+                key={key}
+                label={field.respawn ? `${field.label} ↻` : field.label}
+                value={config[key]}
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                onChange={(value) => onChange({ ...config, [key]: value })}
+              />
+            );
+          })}
+        </details>
+      ))}
+      <p className="text-white/40">↻ respawns the liquid</p>
+    </div>
+  );
+}
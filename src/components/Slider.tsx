@@ -0,0 +1,28 @@
+interface Props {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+export function Slider({ label, value, min, max, step, onChange }: Props) {
+  return (
+    <label className="block">
+      <span className="flex justify-between text-white/60">
+        <span>{label}</span>
+        <span className="tabular-nums text-white/80">{value}</span>
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full accent-green-400"
+      />
+    </label>
+  );
+}
@@ -0,0 +1,54 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { WorldSnapshot, parseSnapshot } from '../lib/worldSnapshot';
+
+interface Props {
+  seed: number | null;
+  onSave: () => void;
+  onLoad: (snapshot: WorldSnapshot) => void;
+}
+
+const buttonClass = 'p-2 rounded-full text-white/80 hover:text-white hover:bg-white/10 transition-colors';
+
+export function SnapshotControls({ seed, onSave, onLoad }: Props) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onLoad(parseSnapshot(await file.text()));
+      setLoadError(null);
+    } catch (error) {
+      console.error('[Snapshot] Failed to load:', error);
+      setLoadError(error instanceof Error ? error.message : 'Invalid scene snapshot');
+    }
+  };
+
+  return (
+    <div className="fixed top-4 left-4 flex items-center gap-1 px-2 py-1 rounded-full bg-black/50 backdrop-blur text-xs text-white/80">
+      <button onClick={onSave} className={buttonClass} title="Save scene snapshot">
+        <Download className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className={buttonClass}
+        title="Restore scene snapshot"
+      >
+        <Upload className="w-4 h-4" />
+      </button>
+      {seed !== null && <span className="pr-2 tabular-nums text-white/60">seed {seed}</span>}
+      {loadError && <span className="pr-2 text-red-300">{loadError}</span>}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleFile}
+      />
+    </div>
+  );
+}
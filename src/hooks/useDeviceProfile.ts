@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { DeviceProfile, getDeviceProfile, isSameProfile } from '../lib/deviceProfile';
+
+// Tracks the device profile across window resizes and orientation changes
+export function useDeviceProfile(): DeviceProfile {
+  const [profile, setProfile] = useState(getDeviceProfile);
+
+  useEffect(() => {
+    let frameId: number | null = null;
+
+    // Some browsers report the old viewport size during `orientationchange`, so read it a frame later
+    const update = () => {
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      frameId = requestAnimationFrame(() => {
+        frameId = null;
+        const next = getDeviceProfile();
+        setProfile(current => (isSameProfile(current, next) ? current : next));
+      });
+    };
+
+    window.addEventListener('resize', update);
+    window.addEventListener('orientationchange', update);
+    return () => {
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      window.removeEventListener('resize', update);
+      window.removeEventListener('orientationchange', update);
+    };
+  }, []);
+
+  return profile;
+}
@@ -17,7 +17,12 @@ export function useResizable({
   const startX = useRef(0);
 
   const [width, setWidth] = useState(window.innerWidth < 768 ? 160 : 380);
-  const [height, setHeight] = useState(width / aspectRatio);
+  const height = width / aspectRatio;
+
+  // Refit when the bounds change, e.g. after the device rotates
+  useEffect(() => {
+    setWidth(current => Math.min(Math.max(current, minWidth), maxWidth));
+  }, [minWidth, maxWidth]);
 
   const startResize = useCallback((e: MouseEvent) => {
     if (!ref.current) return;
@@ -38,8 +43,7 @@ export function useResizable({
     );
     
     setWidth(newWidth);
-    setHeight(newWidth / aspectRatio);
-  }, [minWidth, maxWidth, aspectRatio]);
+  }, [minWidth, maxWidth]);
 
   const stopResize = useCallback(() => {
     isResizing.current = false;
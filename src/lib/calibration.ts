@@ -0,0 +1,154 @@
+import type { Point } from './geometry';
+
+export type CalibrationKind = 'default' | 'affine' | 'homography';
+
+// Maps normalized camera coordinates to normalized viewport coordinates (0..1 on both axes)
+export interface CalibrationMapping {
+  kind: CalibrationKind;
+  matrix: number[]; // 3x3, row-major
+  createdAt: string;
+}
+
+export interface CalibrationSample {
+  camera: Point;
+  viewport: Point;
+}
+
+const STORAGE_PREFIX = 'hand-lab:calibration:';
+
+/**
+ * The original hard-coded mapping: a 2x scale around the camera centre, mirrored horizontally
+ * (x' = 1.5 - 2x, y' = 2y - 0.5).
+ */
+export const DEFAULT_CALIBRATION: CalibrationMapping = {
+  kind: 'default',
+  matrix: [
+    -2, 0, 1.5,
+    0, 2, -0.5,
+    0, 0, 1
+  ],
+  createdAt: ''
+};
+
+// Viewport targets the user points at, inset so they are reachable at the frame edge
+export const CALIBRATION_TARGETS: Point[] = [
+  { x: 0.1, y: 0.1 },
+  { x: 0.9, y: 0.1 },
+  { x: 0.9, y: 0.9 },
+  { x: 0.1, y: 0.9 }
+];
+
+export function applyCalibration(mapping: CalibrationMapping, point: Point): Point {
+  const [a, b, c, d, e, f, g, h, i] = mapping.matrix;
+  const w = g * point.x + h * point.y + i || 1e-9;
+
+  return {
+    x: (a * point.x + b * point.y + c) / w,
+    y: (d * point.x + e * point.y + f) / w
+  };
+}
+
+// Gaussian elimination with partial pivoting; throws on a singular system
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] {
+  const n = vector.length;
+  const rows = matrix.map((row, index) => [...row, vector[index]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) {
+      throw new Error('Calibration points are degenerate');
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k <= n; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+
+  const result = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rows[row][n];
+    for (let k = row + 1; k < n; k++) sum -= rows[row][k] * result[k];
+    result[row] = sum / rows[row][row];
+  }
+  return result;
+}
+
+// Least-squares solution of an overdetermined system via the normal equations
+function leastSquares(a: number[][], b: number[]): number[] {
+  const n = a[0].length;
+  const ata = Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => a.reduce((sum, row) => sum + row[i] * row[j], 0))
+  );
+  const atb = Array.from({ length: n }, (_, i) => a.reduce((sum, row, k) => sum + row[i] * b[k], 0));
+  return solveLinearSystem(ata, atb);
+}
+
+export function solveAffine(samples: CalibrationSample[]): CalibrationMapping {
+  if (samples.length < 3) throw new Error('Affine calibration needs at least 3 points');
+
+  const a: number[][] = [];
+  const b: number[] = [];
+  samples.forEach(({ camera, viewport }) => {
+    a.push([camera.x, camera.y, 1, 0, 0, 0]);
+    b.push(viewport.x);
+    a.push([0, 0, 0, camera.x, camera.y, 1]);
+    b.push(viewport.y);
+  });
+
+  const [m0, m1, m2, m3, m4, m5] = leastSquares(a, b);
+  return {
+    kind: 'affine',
+    matrix: [m0, m1, m2, m3, m4, m5, 0, 0, 1],
+    createdAt: new Date().toISOString()
+  };
+}
+
+export function solveHomography(samples: CalibrationSample[]): CalibrationMapping {
+  if (samples.length < 4) throw new Error('Homography calibration needs at least 4 points');
+
+  const a: number[][] = [];
+  const b: number[] = [];
+  samples.forEach(({ camera: { x, y }, viewport: { x: u, y: v } }) => {
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  });
+
+  return {
+    kind: 'homography',
+    matrix: [...leastSquares(a, b), 1],
+    createdAt: new Date().toISOString()
+  };
+}
+
+function storageKey(deviceId: string | null) {
+  return `${STORAGE_PREFIX}${deviceId || 'default'}`;
+}
+
+export function loadCalibration(deviceId: string | null): CalibrationMapping {
+  try {
+    const stored = localStorage.getItem(storageKey(deviceId));
+    if (!stored) return DEFAULT_CALIBRATION;
+
+    const mapping = JSON.parse(stored) as CalibrationMapping;
+    if (!Array.isArray(mapping.matrix) || mapping.matrix.length !== 9) return DEFAULT_CALIBRATION;
+    return mapping;
+  } catch (error) {
+    console.warn('[Calibration] Ignoring unreadable calibration:', error);
+    return DEFAULT_CALIBRATION;
+  }
+}
+
+export function saveCalibration(deviceId: string | null, mapping: CalibrationMapping) {
+  localStorage.setItem(storageKey(deviceId), JSON.stringify(mapping));
+}
+
+export function clearCalibration(deviceId: string | null) {
+  localStorage.removeItem(storageKey(deviceId));
+}
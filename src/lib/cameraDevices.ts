@@ -0,0 +1,95 @@
+import type { CameraProfile } from './deviceProfile';
+import { trackingErrorFrom } from './trackingError';
+
+const STORAGE_KEY = 'hand-lab:camera-device';
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+// Labels stay empty until the page has been granted camera access once
+export async function listCameras(): Promise<CameraDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'videoinput' && device.deviceId)
+    .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Camera ${index + 1}` }));
+}
+
+export function loadPreferredCamera(): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function savePreferredCamera(deviceId: string | null) {
+  if (deviceId) {
+    localStorage.setItem(STORAGE_KEY, deviceId);
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+/**
+ * Constraint sets from strictest to loosest: the profile's minimum resolution, the same values as
+ * mere preferences, then anything the device offers. A chosen device that has disappeared falls
+ * back to the default camera last.
+ */
+function constraintLadder({ width, height, aspectRatio }: CameraProfile, deviceId: string | null): MediaTrackConstraints[] {
+  const device: MediaTrackConstraints = deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'user' };
+  const ladder: MediaTrackConstraints[] = [
+    { ...device, width: { min: width }, height: { min: height }, aspectRatio },
+    { ...device, width: { ideal: width }, height: { ideal: height }, aspectRatio: { ideal: aspectRatio } },
+    device
+  ];
+  if (deviceId) ladder.push({ facingMode: 'user' });
+  return ladder;
+}
+
+// Only overconstrained requests move down the ladder; a denied or busy camera fails straight away
+async function negotiateStream(camera: CameraProfile, deviceId: string | null): Promise<MediaStream> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw trackingErrorFrom({ name: 'NotFoundError', message: 'getUserMedia is not available' });
+  }
+
+  let lastError: unknown = null;
+  for (const video of constraintLadder(camera, deviceId)) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ video });
+    } catch (error) {
+      const typed = trackingErrorFrom(error);
+      if (typed.kind !== 'overconstrained') throw typed;
+      console.warn('[Camera] Constraints not satisfied, relaxing:', video);
+      lastError = error;
+    }
+  }
+  throw trackingErrorFrom(lastError);
+}
+
+export async function openCamera(
+  video: HTMLVideoElement,
+  camera: CameraProfile,
+  deviceId: string | null
+): Promise<MediaStream> {
+  const stream = await negotiateStream(camera, deviceId);
+  video.srcObject = stream;
+
+  return new Promise((resolve) => {
+    video.onloadeddata = () => resolve(stream);
+    video.play().catch(() => {
+      // Autoplay is allowed for muted inline video; loadeddata still fires
+    });
+  });
+}
+
+export function cameraConstraints({ width, height, aspectRatio }: CameraProfile): MediaTrackConstraints {
+  return {
+    width: { ideal: width },
+    height: { ideal: height },
+    aspectRatio: { ideal: aspectRatio }
+  };
+}
@@ -0,0 +1,240 @@
+import type { Options } from '@mediapipe/hands';
+import { cameraConstraints, loadPreferredCamera, openCamera, savePreferredCamera } from './cameraDevices';
+import { DeviceProfile, getDeviceProfile } from './deviceProfile';
+import { Emitter } from './emitter';
+import type { HandInputSource, HandSourceEvents, HandSourceStatus } from './handInput';
+import { createHandTracker, HandTracker, TrackedHands } from './handTracker';
+import { AssetSource, configuredAssetSources, LoadProgress } from './mediapipeLoader';
+import { TrackingError, trackingErrorFrom } from './trackingError';
+
+const HANDS_CONFIG: Options = {
+  modelComplexity: 1,
+  minDetectionConfidence: 0.5,
+  minTrackingConfidence: 0.5
+};
+
+/**
+ * Live MediaPipe hand tracking from the chosen webcam, the user-facing one by default. Frames
+ * follow a latest-frame-wins policy: while the tracker is busy, new video frames are skipped, and
+ * the next one captured is always the newest.
+ */
+export class CameraHandSource extends Emitter<HandSourceEvents> implements HandInputSource {
+  public readonly kind = 'camera' as const;
+  public status: HandSourceStatus = 'idle';
+  public deviceId: string | null = null;
+  private video: HTMLVideoElement;
+  private tracker: HandTracker | null = null;
+  private tracking = false;
+  private lastFrameTime = -1;
+  private stream: MediaStream | null = null;
+  private session = 0;
+  private options: Options;
+  private profile: DeviceProfile;
+  private assetSources: AssetSource[];
+  private preferredDevice: string | null = loadPreferredCamera();
+  private switchingCamera = false;
+
+  constructor(
+    options: Options = {},
+    profile: DeviceProfile = getDeviceProfile(),
+    assetSources: AssetSource[] = configuredAssetSources()
+  ) {
+    super();
+    this.profile = profile;
+    this.assetSources = assetSources;
+    this.options = { ...HANDS_CONFIG, maxNumHands: profile.maxHands, ...options };
+
+    // The preview draws this element directly, so it never has to enter the DOM
+    this.video = document.createElement('video');
+    this.video.playsInline = true;
+    this.video.autoplay = true;
+    this.video.muted = true;
+  }
+
+  // Tracker options such as hand count and model complexity apply to a running tracker too
+  public setOptions(options: Options) {
+    this.options = { ...this.options, ...options };
+    this.tracker?.setOptions(this.options);
+  }
+
+  // Reframes the running camera for a new screen profile without restarting it
+  public setDeviceProfile(profile: DeviceProfile) {
+    const cameraChanged = profile.camera.aspectRatio !== this.profile.camera.aspectRatio
+      || profile.camera.width !== this.profile.camera.width;
+    this.profile = profile;
+
+    const track = this.stream?.getVideoTracks()[0];
+    if (cameraChanged && track) {
+      track.applyConstraints(cameraConstraints(profile.camera)).catch(error => {
+        // The current stream keeps working; only its framing is off
+        console.warn('[Camera] Could not apply new constraints:', error);
+      });
+    }
+  }
+
+  private setStatus(status: HandSourceStatus) {
+    this.status = status;
+    this.emit('status', status);
+  }
+
+  private fail(error: TrackingError) {
+    this.setStatus('error');
+    this.emit('error', error);
+  }
+
+  public get preferredDeviceId() {
+    return this.preferredDevice;
+  }
+
+  /**
+   * Switches to another camera and remembers it for later sessions. A running tracker keeps its
+   * model and only swaps the video stream; after an error the whole source is retried.
+   */
+  public async setCamera(deviceId: string | null) {
+    this.preferredDevice = deviceId;
+    savePreferredCamera(deviceId);
+
+    if (this.status === 'error') {
+      await this.start();
+      return;
+    }
+    if (this.status !== 'running' || deviceId === this.deviceId) return;
+
+    const session = this.session;
+    this.switchingCamera = true;
+    // Phones often can't open a second camera while the first one is still streaming
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+
+    try {
+      const stream = await openCamera(this.video, this.profile.camera, deviceId);
+      if (session !== this.session) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      this.useStream(stream);
+      this.setStatus('running');
+    } catch (error) {
+      console.error('[Camera] Error:', error);
+      if (session === this.session) this.fail(trackingErrorFrom(error));
+    } finally {
+      this.switchingCamera = false;
+    }
+  }
+
+  private useStream(stream: MediaStream) {
+    this.stream = stream;
+    this.deviceId = stream.getVideoTracks()[0]?.getSettings().deviceId ?? null;
+  }
+
+  public async start() {
+    this.release();
+    const session = ++this.session;
+    const isCurrent = () => session === this.session;
+
+    this.setStatus('loading');
+
+    try {
+      const stream = await openCamera(this.video, this.profile.camera, this.preferredDevice);
+      if (!isCurrent()) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      this.useStream(stream);
+      this.setStatus('camera-ready');
+    } catch (error) {
+      console.error('[Camera] Error:', error);
+      if (isCurrent()) this.fail(trackingErrorFrom(error));
+      return;
+    }
+
+    try {
+      const tracker = await createHandTracker(this.assetSources, this.options, {
+        onProgress: (progress: LoadProgress) => {
+          if (isCurrent()) this.emit('progress', progress);
+        }
+      });
+      if (!isCurrent()) {
+        tracker.close();
+        return;
+      }
+
+      // Options may have changed while the model loaded
+      tracker.setOptions(this.options);
+      this.tracker = tracker;
+
+      const processFrame = () => {
+        if (!isCurrent() || !this.tracker) return;
+        this.captureFrame(this.tracker, isCurrent);
+        requestAnimationFrame(processFrame);
+      };
+
+      requestAnimationFrame(processFrame);
+      this.setStatus('running');
+
+    } catch (error) {
+      console.error('[Tracking] Error:', error);
+      if (isCurrent()) this.fail(trackingErrorFrom(error, 'library-load'));
+    }
+  }
+
+  // Hands the newest video frame to the tracker, unless it is still busy with an earlier one
+  private captureFrame(tracker: HandTracker, isCurrent: () => boolean) {
+    // The video has no frames while the camera is being swapped
+    if (this.tracking || this.switchingCamera || this.video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+    if (this.video.currentTime === this.lastFrameTime) return;
+
+    this.lastFrameTime = this.video.currentTime;
+    this.tracking = true;
+    tracker.track(this.video)
+      .then(hands => {
+        if (isCurrent()) this.emitFrame(hands);
+      })
+      .catch(error => {
+        if (!isCurrent()) return;
+        // A tracker that stopped answering won't recover, so the session ends and a retry starts afresh
+        if (error instanceof TrackingError) {
+          this.session++;
+          this.release();
+          this.fail(error);
+          return;
+        }
+        // One bad frame is not worth stopping for; the next one gets a fresh try
+        console.warn('[Tracking] Frame failed:', error);
+      })
+      .finally(() => {
+        if (isCurrent()) this.tracking = false;
+      });
+  }
+
+  private emitFrame({ timestamp, multiHandLandmarks, multiHandedness }: TrackedHands) {
+    this.emit('frame', {
+      timestamp,
+      inferenceMs: performance.now() - timestamp,
+      multiHandLandmarks,
+      multiHandedness,
+      image: this.video
+    });
+  }
+
+  public stop() {
+    this.session++;
+    this.release();
+    this.setStatus('idle');
+  }
+
+  // Frees the stream and tracker left over from an earlier or failed start
+  private release() {
+    if (this.stream) {
+      this.stream.getTracks().forEach(track => track.stop());
+      this.stream = null;
+    }
+    if (this.tracker) {
+      this.tracker.close();
+      this.tracker = null;
+    }
+    this.tracking = false;
+    this.lastFrameTime = -1;
+    this.video.srcObject = null;
+  }
+}
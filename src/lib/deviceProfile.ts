@@ -0,0 +1,40 @@
+export type Orientation = 'portrait' | 'landscape';
+
+export interface CameraProfile {
+  width: number;
+  height: number;
+  aspectRatio: number;
+}
+
+// Choices that depend on the screen; re-evaluated whenever the viewport changes
+export interface DeviceProfile {
+  isMobile: boolean;
+  orientation: Orientation;
+  maxHands: number;
+  camera: CameraProfile;
+  trackingLandmark: number; // Index fingertip (8) on desktop, palm (9) on mobile
+}
+
+export const MOBILE_BREAKPOINT = 768;
+
+export function getDeviceProfile(width = window.innerWidth, height = window.innerHeight): DeviceProfile {
+  const isMobile = width < MOBILE_BREAKPOINT;
+  const orientation = height > width ? 'portrait' : 'landscape';
+
+  return {
+    isMobile,
+    orientation,
+    maxHands: isMobile ? 1 : 2,
+    camera: {
+      width: isMobile ? 320 : 640,
+      height: 480,
+      // Match the camera to the screen so a rotated phone still fills the preview
+      aspectRatio: orientation === 'portrait' ? 3 / 4 : 4 / 3
+    },
+    trackingLandmark: isMobile ? 9 : 8
+  };
+}
+
+export function isSameProfile(a: DeviceProfile, b: DeviceProfile) {
+  return a.isMobile === b.isMobile && a.orientation === b.orientation;
+}
@@ -0,0 +1,11 @@
+// Saves a value as a JSON file through a temporary object URL
+export function downloadJson(data: unknown, filename: string) {
+  const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking straight away can cancel the download in Firefox and Safari
+  setTimeout(() => URL.revokeObjectURL(url));
+}
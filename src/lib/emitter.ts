@@ -0,0 +1,31 @@
+type Listener<T> = (payload: T) => void;
+
+// Minimal typed event emitter shared by the input, tracking and simulation layers
+export class Emitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  public on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    set.add(listener as Listener<never>);
+    
+    return () => this.off(type, listener);
+  }
+
+  public off<K extends keyof Events>(type: K, listener: Listener<Events[K]>) {
+    this.listeners.get(type)?.delete(listener as Listener<never>);
+  }
+
+  public emit<K extends keyof Events>(type: K, payload: Events[K]) {
+    this.listeners.get(type)?.forEach(listener => {
+      (listener as Listener<Events[K]>)(payload);
+    });
+  }
+
+  public removeAllListeners() {
+    this.listeners.clear();
+  }
+}
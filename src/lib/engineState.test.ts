@@ -0,0 +1,77 @@
+import Matter from 'matter-js';
+import { describe, expect, it } from 'vitest';
+import { captureEngineState, restoreEngineState } from './engineState';
+
+const STEP = 1000 / 60;
+
+// A box resting on the floor, so the engine holds a pair with live contacts
+function restingBox(steps = 30) {
+  const engine = Matter.Engine.create();
+  const floor = Matter.Bodies.rectangle(200, 410, 400, 20, { isStatic: true });
+  const box = Matter.Bodies.rectangle(200, 380, 40, 40);
+  const link = Matter.Constraint.create({ bodyA: box, bodyB: floor, pointB: { x: 0, y: -30 }, stiffness: 0.01 });
+  Matter.Composite.add(engine.world, [floor, box, link]);
+  for (let i = 0; i < steps; i++) Matter.Engine.update(engine, STEP);
+  return { engine, bodies: [floor, box], constraints: [link] };
+}
+
+const isPoint = (value: unknown) => expect(value).toEqual({ x: expect.any(Number), y: expect.any(Number) });
+
+// engineState reads and writes Matter internals its typings leave out; an upgrade that moves them fails here
+describe('Matter internals engineState relies on', () => {
+  it('hands out body IDs from a shared counter', () => {
+    const { _nextId } = Matter.Common as unknown as { _nextId: number };
+    expect(typeof _nextId).toBe('number');
+    expect(Matter.Bodies.circle(0, 0, 5).id).toBe(_nextId);
+  });
+
+  it('keeps step state on bodies and constraints', () => {
+    const { bodies: [, box], constraints: [link] } = restingBox();
+    const body = box as Matter.Body & Record<string, unknown>;
+    isPoint(body.positionPrev);
+    isPoint(body.positionImpulse);
+    expect(body.constraintImpulse).toEqual({ x: expect.any(Number), y: expect.any(Number), angle: expect.any(Number) });
+    expect(typeof body.anglePrev).toBe('number');
+    expect(typeof body.deltaTime).toBe('number');
+    expect(link).toHaveProperty('angleA', expect.any(Number));
+    expect(link).toHaveProperty('angleB', expect.any(Number));
+  });
+
+  it('keeps the broadphase list and contact pairs on the engine', () => {
+    const { engine } = restingBox();
+    const pairs = engine.pairs as unknown as { table: Record<string, Matter.Pair>; list: Matter.Pair[] };
+    expect(Array.isArray(engine.detector.bodies)).toBe(true);
+    expect(pairs.list).toHaveLength(1);
+
+    const [pair] = pairs.list;
+    expect(pairs.table[pair.id]).toBe(pair);
+    const contact = pair.contacts.find(Boolean) as Matter.Contact;
+    expect(contact.vertex.body.vertices[contact.vertex.index]).toBe(contact.vertex);
+    expect(typeof contact.normalImpulse).toBe('number');
+    expect(typeof contact.tangentImpulse).toBe('number');
+  });
+
+  it('builds pairs from collision records and marks composites modified', () => {
+    const { bodies: [floor, box] } = restingBox();
+    const pair = Matter.Pair.create(Matter.Collision.create(floor, box), 0);
+    expect(pair.id).toBe(Matter.Pair.id(floor, box));
+    expect(pair.contacts).toEqual([]);
+    expect(typeof (Matter.Composite as unknown as Record<string, unknown>).setModified).toBe('function');
+  });
+});
+
+describe('engine state', () => {
+  it('resumes a restored engine exactly where the captured one left off', () => {
+    const original = restingBox();
+    const state = JSON.parse(JSON.stringify(captureEngineState(original.engine, original.bodies, original.constraints)));
+
+    const copy = restingBox(5);
+    restoreEngineState(copy.engine, copy.bodies, copy.constraints, state);
+    for (let i = 0; i < 30; i++) {
+      Matter.Engine.update(original.engine, STEP);
+      Matter.Engine.update(copy.engine, STEP);
+    }
+    expect(copy.bodies[1].position).toEqual(original.bodies[1].position);
+    expect(copy.bodies[1].angle).toBe(original.bodies[1].angle);
+  });
+});
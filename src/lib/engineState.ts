@@ -0,0 +1,324 @@
+import Matter from 'matter-js';
+import type { Point } from './geometry';
+
+// One convex part of a body; the first part is the body itself
+interface PartState {
+  id: number;
+  position: Point;
+  vertices: number[]; // x, y pairs
+  axes: number[];
+  bounds: [number, number, number, number]; // min x, min y, max x, max y
+}
+
+export interface BodyState {
+  positionPrev: Point;
+  angle: number;
+  anglePrev: number;
+  velocity: Point;
+  angularVelocity: number;
+  speed: number;
+  angularSpeed: number;
+  deltaTime: number;
+  positionImpulse: Point;
+  constraintImpulse: Point & { angle: number };
+  circleRadius: number | null;
+  parts: PartState[];
+}
+
+// A body by its index in the world's ordered list, and one of its parts
+interface PartRef {
+  body: number;
+  part: number;
+}
+
+// A contact keeps the vertex it started on, which a reshaped body may since have replaced
+interface ContactState {
+  id: number;
+  side: 'A' | 'B';
+  index: number;
+  live: boolean; // Still one of the part's current vertices, rather than a copy left behind
+  x: number;
+  y: number;
+  normalImpulse: number;
+  tangentImpulse: number;
+}
+
+interface PairState {
+  partA: PartRef;
+  partB: PartRef;
+  isActive: boolean;
+  timeCreated: number;
+  timeUpdated: number;
+  contacts: ContactState[];
+}
+
+interface ConstraintState {
+  pointA: Point;
+  pointB: Point;
+  angleA: number;
+  angleB: number;
+}
+
+/**
+ * What Matter carries from one step to the next beyond positions and velocities: previous
+ * positions, warm-starting impulses, geometry it moves incrementally, the broadphase order and
+ * the contact pairs with their accumulated impulses. Restoring all of it resumes a world bit
+ * for bit. Bodies and constraints are referred to by their index in lists the world orders the
+ * same way however it was built.
+ */
+export interface EngineState {
+  bodies: BodyState[];
+  worldOrder: number[]; // The world's top-level bodies, as indices into `bodies`
+  detectorOrder: number[] | null; // Null when the broadphase is rebuilt on the next step anyway
+  pairs: PairState[];
+  constraints: ConstraintState[];
+  constraintOrder: number[];
+}
+
+// Matter internals its typings leave out. package.json pins matter-js to the version these were
+// read from, and engineState.test.ts fails if an upgrade changes their shape.
+interface BodyInternals {
+  positionPrev: Point;
+  anglePrev: number;
+  angularVelocity: number;
+  speed: number;
+  angularSpeed: number;
+  deltaTime: number;
+  positionImpulse: Point;
+  constraintImpulse: Point & { angle: number };
+}
+
+type InternalBody = Matter.Body & BodyInternals;
+type InternalConstraint = Matter.Constraint & { angleA: number; angleB: number };
+
+// Matter hands out body IDs from one counter
+const matterIds = Matter.Common as unknown as { _nextId: number };
+
+const matterComposites = Matter.Composite as unknown as {
+  setModified(composite: Matter.Composite, isModified: boolean, updateParents: boolean, updateChildren: boolean): void;
+};
+
+const copyPoint = ({ x, y }: Point): Point => ({ x, y });
+
+function flatten(points: Point[]): number[] {
+  return points.flatMap(({ x, y }) => [x, y]);
+}
+
+function captureBodyState(body: InternalBody): BodyState {
+  return {
+    positionPrev: copyPoint(body.positionPrev),
+    angle: body.angle,
+    anglePrev: body.anglePrev,
+    velocity: copyPoint(body.velocity),
+    angularVelocity: body.angularVelocity,
+    speed: body.speed,
+    angularSpeed: body.angularSpeed,
+    deltaTime: body.deltaTime,
+    positionImpulse: copyPoint(body.positionImpulse),
+    constraintImpulse: { ...copyPoint(body.constraintImpulse), angle: body.constraintImpulse.angle },
+    circleRadius: body.circleRadius ?? null,
+    parts: body.parts.map((part: Matter.Body) => ({
+      id: part.id,
+      position: copyPoint(part.position),
+      vertices: flatten(part.vertices),
+      axes: flatten(part.axes),
+      bounds: [part.bounds.min.x, part.bounds.min.y, part.bounds.max.x, part.bounds.max.y]
+    }))
+  };
+}
+
+// Same shapes part for part, vertex for vertex, so the saved geometry can be written over it
+function fitsBody(body: Matter.Body, state: BodyState) {
+  return body.parts.length === state.parts.length && state.parts.every((part, index) =>
+    body.parts[index].vertices.length * 2 === part.vertices.length
+    && body.parts[index].axes.length * 2 === part.axes.length
+  );
+}
+
+function writePoints(points: Point[], values: number[]) {
+  points.forEach((point, index) => {
+    point.x = values[index * 2];
+    point.y = values[index * 2 + 1];
+  });
+}
+
+function restoreBodyState(body: InternalBody, state: BodyState) {
+  Object.assign(body.positionPrev, state.positionPrev);
+  Object.assign(body.velocity, state.velocity);
+  Object.assign(body.positionImpulse, state.positionImpulse);
+  Object.assign(body.constraintImpulse, state.constraintImpulse);
+  body.angle = state.angle;
+  body.anglePrev = state.anglePrev;
+  body.angularVelocity = state.angularVelocity;
+  body.speed = state.speed;
+  body.angularSpeed = state.angularSpeed;
+  body.deltaTime = state.deltaTime;
+  if (state.circleRadius !== null) body.circleRadius = state.circleRadius;
+
+  state.parts.forEach((saved, index) => {
+    const part = body.parts[index];
+    part.id = saved.id;
+    Object.assign(part.position, saved.position);
+    writePoints(part.vertices, saved.vertices);
+    writePoints(part.axes, saved.axes);
+    const [minX, minY, maxX, maxY] = saved.bounds;
+    part.bounds.min = { x: minX, y: minY };
+    part.bounds.max = { x: maxX, y: maxY };
+  });
+}
+
+function partIndex(bodies: Matter.Body[]) {
+  const index = new Map<Matter.Body, PartRef>();
+  bodies.forEach((body, bodyIndex) => {
+    body.parts.forEach((part: Matter.Body, partIndex: number) => index.set(part, { body: bodyIndex, part: partIndex }));
+  });
+  return index;
+}
+
+function capturePair(pair: Matter.Pair, parts: Map<Matter.Body, PartRef>): PairState | null {
+  const { bodyA, bodyB } = pair.collision;
+  const partA = parts.get(bodyA);
+  const partB = parts.get(bodyB);
+  // A pair with a body that already left the world is dropped on the next step
+  if (!partA || !partB) return null;
+
+  const contacts: ContactState[] = [];
+  pair.contacts.forEach((contact: Matter.Contact, id: number) => {
+    if (!contact) return;
+    const { vertex } = contact;
+    contacts.push({
+      id,
+      side: vertex.body === bodyA ? 'A' : 'B',
+      index: vertex.index,
+      live: vertex.body.vertices[vertex.index] === vertex,
+      x: vertex.x,
+      y: vertex.y,
+      normalImpulse: contact.normalImpulse,
+      tangentImpulse: contact.tangentImpulse
+    });
+  });
+
+  return {
+    partA,
+    partB,
+    isActive: pair.isActive,
+    timeCreated: pair.timeCreated,
+    timeUpdated: pair.timeUpdated,
+    contacts
+  };
+}
+
+function restorePair(saved: PairState, bodies: Matter.Body[], timestamp: number): Matter.Pair {
+  const partA = bodies[saved.partA.body].parts[saved.partA.part];
+  const partB = bodies[saved.partB.body].parts[saved.partB.part];
+  const collision = Matter.Collision.create(partA, partB);
+  const pair = Matter.Pair.create(collision, timestamp);
+
+  pair.isActive = saved.isActive;
+  pair.timeCreated = saved.timeCreated;
+  pair.timeUpdated = saved.timeUpdated;
+  saved.contacts.forEach(contact => {
+    const part = contact.side === 'A' ? partA : partB;
+    const vertex = contact.live
+      ? part.vertices[contact.index] as Matter.Vertex
+      : { x: contact.x, y: contact.y, index: contact.index, body: part, isInternal: false };
+    pair.contacts[contact.id] = {
+      vertex,
+      normalImpulse: contact.normalImpulse,
+      tangentImpulse: contact.tangentImpulse
+    };
+  });
+  return pair;
+}
+
+function indicesOf<T>(items: T[], list: T[]): number[] | null {
+  const index = new Map(list.map((item, i) => [item, i]));
+  const indices = items.map(item => index.get(item) ?? -1);
+  return indices.includes(-1) ? null : indices;
+}
+
+// Indices into `list` of the items it holds, in their order in `items`; others are skipped
+function orderOf<T>(items: T[], list: T[]): number[] {
+  const index = new Map(list.map((item, i) => [item, i]));
+  return items.filter(item => index.has(item)).map(item => index.get(item) as number);
+}
+
+// Puts the listed items back in their saved order, leaving others, like the mouse's, in place
+function reorder<T>(items: T[], list: T[], order: number[]): T[] {
+  const listed = new Set(list);
+  let next = 0;
+  return items.map(item => (listed.has(item) ? list[order[next++]] : item));
+}
+
+function countListed<T>(items: T[], list: T[]) {
+  const listed = new Set(list);
+  return items.filter(item => listed.has(item)).length;
+}
+
+/**
+ * Reads the engine's state for `bodies` and `constraints`, listed in the order the world would
+ * list them again when restoring. Bodies must include every one in the world; constraints the
+ * world doesn't own, like the mouse's, are left alone.
+ */
+export function captureEngineState(engine: Matter.Engine, bodies: Matter.Body[], constraints: Matter.Constraint[]): EngineState {
+  const { world, detector, pairs } = engine;
+  const parts = partIndex(bodies);
+
+  return {
+    bodies: (bodies as InternalBody[]).map(captureBodyState),
+    worldOrder: orderOf(world.bodies, bodies),
+    detectorOrder: world.isModified ? null : indicesOf(detector.bodies, bodies),
+    pairs: pairs.list
+      .map((pair: Matter.Pair) => capturePair(pair, parts))
+      .filter((pair: PairState | null): pair is PairState => pair !== null),
+    constraints: (constraints as InternalConstraint[]).map(constraint => ({
+      pointA: copyPoint(constraint.pointA),
+      pointB: copyPoint(constraint.pointB),
+      angleA: constraint.angleA,
+      angleB: constraint.angleB
+    })),
+    constraintOrder: orderOf(world.constraints, constraints)
+  };
+}
+
+/**
+ * Writes a captured state over a world rebuilt with the same bodies and constraints. Leaves the
+ * world as it is when they don't line up, e.g. when the snapshot's scene is no longer registered.
+ */
+export function restoreEngineState(
+  engine: Matter.Engine,
+  bodies: Matter.Body[],
+  constraints: Matter.Constraint[],
+  state: EngineState
+) {
+  const { world, detector, pairs } = engine;
+  const fits = bodies.length === state.bodies.length
+    && constraints.length === state.constraints.length
+    && state.worldOrder.length === countListed(world.bodies, bodies)
+    && state.constraintOrder.length === countListed(world.constraints, constraints)
+    && bodies.every((body, index) => fitsBody(body, state.bodies[index]));
+  if (!fits) return;
+
+  (bodies as InternalBody[]).forEach((body, index) => restoreBodyState(body, state.bodies[index]));
+  // New bodies must still get higher IDs than every restored one, as they would have originally
+  const maxId = Math.max(0, ...state.bodies.flatMap(body => body.parts.map(part => part.id)));
+  matterIds._nextId = Math.max(matterIds._nextId, maxId + 1);
+
+  constraints.forEach((constraint, index) => Object.assign(constraint, state.constraints[index]));
+  world.bodies = reorder(world.bodies, bodies, state.worldOrder);
+  world.constraints = reorder(world.constraints, constraints, state.constraintOrder);
+
+  if (state.detectorOrder) {
+    detector.bodies = state.detectorOrder.map(index => bodies[index]);
+    matterComposites.setModified(world, false, false, true);
+  } else {
+    matterComposites.setModified(world, true, false, false);
+  }
+
+  Matter.Pairs.clear(pairs);
+  state.pairs.forEach(saved => {
+    const pair = restorePair(saved, bodies, engine.timing.timestamp);
+    pairs.table[pair.id] = pair;
+    pairs.list.push(pair);
+  });
+}
@@ -0,0 +1,508 @@
+import Matter from 'matter-js';
+import type { Point } from './geometry';
+import type { SeededRandom } from './random';
+import { DEFAULT_BOUNDARIES, SceneBoundaries } from './scene';
+import {
+  DEFAULT_PARTICLE_GROUPS,
+  ParticleGroup,
+  ParticleLayout,
+  ParticleSolver,
+  ParticleVisitor,
+  SPAWN_TOP,
+  splitByShare
+} from './particleSolver';
+import { SpatialHash } from './spatialHash';
+import type { BodySnapshot } from './worldSnapshot';
+
+export interface FluidSettings {
+  particleRadius: number; // Pixels; neighbours interact within four radii
+  maxParticles: number;
+  iterations: number; // Density constraint passes per step
+  relaxation: number; // Softens the density constraint; higher is squishier but more stable
+  viscosity: number; // XSPH velocity blending between neighbours, 0 to 1
+  surfaceTension: number; // Peak cohesion acceleration between neighbours, px/s²
+  maxSpeed: number; // Pixels per second
+}
+
+export const DEFAULT_FLUID_SETTINGS: FluidSettings = {
+  particleRadius: 7,
+  maxParticles: 2500,
+  iterations: 3,
+  relaxation: 0.5,
+  viscosity: 0.3,
+  surfaceTension: 600,
+  maxSpeed: 1500
+};
+
+// Matter velocities are pixels per step at 60 Hz; the fluid keeps its velocities in the same
+// units, so snapshots carry them without a lossy conversion
+const STEP_SECONDS = 1 / 60;
+
+// Matter gravity is in px/ms² once scaled; the fluid integrates in seconds
+const GRAVITY_TO_PX_PER_S2 = 1e6;
+
+// Largest density correction per pass, as a fraction of the particle radius
+const MAX_CORRECTION = 0.25;
+
+/**
+ * Position-based fluid (Macklin & Müller 2013) in 2D. The density constraint is unilateral, so
+ * it only pushes particles apart; cohesion between neighbours supplies the surface tension and
+ * XSPH smoothing the viscosity. Colliders are treated as immovable: hands, walls and objects push the
+ * fluid, but the fluid never pushes back.
+ */
+export class FluidSolver implements ParticleSolver {
+  public readonly kind = 'fluid';
+  public readonly particleShape = 'circle';
+  public readonly bodies: readonly Matter.Body[] = [];
+  public count = 0;
+  private x = new Float64Array(0);
+  private y = new Float64Array(0);
+  private px = new Float64Array(0);
+  private py = new Float64Array(0);
+  private vx = new Float64Array(0);
+  private vy = new Float64Array(0);
+  private lambda = new Float64Array(0);
+  private scratchX = new Float64Array(0);
+  private scratchY = new Float64Array(0);
+  private neighborStart = new Int32Array(1);
+  private neighbors = new Int32Array(0);
+  private hash: SpatialHash;
+  private h: number;
+  private poly6: number;
+  private spikyGradient: number;
+  private restDensity: number;
+  private boundaries = DEFAULT_BOUNDARIES;
+
+  constructor(
+    private engine: Matter.Engine,
+    private width: number,
+    private height: number,
+    layout: ParticleLayout,
+    private random: SeededRandom,
+    private settings: FluidSettings = DEFAULT_FLUID_SETTINGS,
+    groups: readonly ParticleGroup[] = DEFAULT_PARTICLE_GROUPS
+  ) {
+    this.h = settings.particleRadius * 4;
+    this.poly6 = 4 / (Math.PI * this.h ** 8);
+    this.spikyGradient = -30 / (Math.PI * this.h ** 5);
+    this.restDensity = this.latticeDensity(settings.particleRadius * 2);
+    this.hash = new SpatialHash(this.h, settings.maxParticles);
+    this.spawn(layout, groups);
+  }
+
+  private kernel(distanceSq: number) {
+    const d = this.h * this.h - distanceSq;
+    return d > 0 ? this.poly6 * d * d * d : 0;
+  }
+
+  // Density of a square lattice at the spawn spacing, so the fluid starts at rest
+  private latticeDensity(spacing: number) {
+    const reach = Math.ceil(this.h / spacing);
+    let density = 0;
+    for (let i = -reach; i <= reach; i++) {
+      for (let j = -reach; j <= reach; j++) {
+        density += this.kernel((i * spacing) ** 2 + (j * spacing) ** 2);
+      }
+    }
+    return density;
+  }
+
+  // Arrays only ever grow, so particles drained away leave room for emitters to refill
+  private allocate(count: number) {
+    this.count = count;
+    if (this.x.length >= count) return;
+
+    // Grows by half again at least, so a steady trickle of new particles rarely reallocates
+    const capacity = Math.max(count, Math.ceil(this.x.length * 1.5));
+    const grow = (array: Float64Array) => {
+      const next = new Float64Array(capacity);
+      next.set(array);
+      return next;
+    };
+    this.x = grow(this.x);
+    this.y = grow(this.y);
+    this.px = grow(this.px);
+    this.py = grow(this.py);
+    this.vx = grow(this.vx);
+    this.vy = grow(this.vy);
+    this.lambda = new Float64Array(capacity);
+    this.scratchX = new Float64Array(capacity);
+    this.scratchY = new Float64Array(capacity);
+    this.neighborStart = new Int32Array(capacity + 1);
+  }
+
+  // Fills the same volume as the rigid hexagons would, as one block per particle group
+  private spawn({ rows, cols, spacing, hexagonRadius, extraParticles }: ParticleLayout, groups: readonly ParticleGroup[]) {
+    const diameter = this.settings.particleRadius * 2;
+    const hexagonArea = 1.5 * Math.sqrt(3) * hexagonRadius * hexagonRadius;
+    const volume = (rows * cols + extraParticles) * hexagonArea;
+    const count = Math.min(this.settings.maxParticles, Math.round(volume / (diameter * diameter)));
+    const counts = splitByShare(count, groups);
+
+    this.allocate(count);
+    let i = 0;
+    groups.forEach((group, index) => {
+      const groupWidth = group.width === undefined ? Infinity : group.width * this.width;
+      const maxPerRow = Math.max(1, Math.floor(Math.min(groupWidth, this.width - diameter * 2) / diameter));
+      const top = SPAWN_TOP + group.y * this.height;
+
+      // Like the rigid grid, a block taller than the room above the floor widens as far as the
+      // group allows, then packs its rows closer, rather than spawning rows under the floor
+      const room = Math.max(0, this.height - top - diameter);
+      const fittingRows = Math.floor(room / diameter) + 1;
+      const perRow = Math.min(maxPerRow, Math.max(
+        Math.min(Math.floor((cols * spacing) / diameter), maxPerRow),
+        Math.ceil(counts[index] / fittingRows)
+      ));
+      const rows = Math.ceil(counts[index] / perRow);
+      const rowSpacing = rows > 1 ? Math.min(diameter, room / (rows - 1)) : diameter;
+      const left = group.x * this.width - (perRow * diameter) / 2 + diameter / 2;
+
+      for (let n = 0; n < counts[index]; n++, i++) {
+        const jitter = diameter * 0.05;
+        this.x[i] = left + (n % perRow) * diameter + this.random.range(-jitter, jitter);
+        this.y[i] = top + Math.floor(n / perRow) * rowSpacing + this.random.range(-jitter, jitter);
+        this.vx[i] = 0;
+        this.vy[i] = 0;
+      }
+    });
+  }
+
+  public get particleRadius() {
+    return this.settings.particleRadius;
+  }
+
+  public step(delta: number, colliders: readonly Matter.Body[]) {
+    const dt = (delta / 1000) * this.engine.timing.timeScale;
+    if (dt <= 0 || this.count === 0) return;
+
+    const { x, y, px, py, vx, vy, count } = this;
+    const { gravity } = this.engine;
+    // Velocity change per step from gravity, and how many 60 Hz steps this update spans
+    const gx = gravity.x * gravity.scale * GRAVITY_TO_PX_PER_S2 * dt * STEP_SECONDS;
+    const gy = gravity.y * gravity.scale * GRAVITY_TO_PX_PER_S2 * dt * STEP_SECONDS;
+    const steps = dt / STEP_SECONDS;
+    const maxSpeed = this.settings.maxSpeed * STEP_SECONDS;
+
+    // Predict positions from external forces
+    for (let i = 0; i < count; i++) {
+      vx[i] += gx;
+      vy[i] += gy;
+      const speed = Math.sqrt(vx[i] * vx[i] + vy[i] * vy[i]);
+      if (speed > maxSpeed) {
+        vx[i] *= maxSpeed / speed;
+        vy[i] *= maxSpeed / speed;
+      }
+      px[i] = x[i] + vx[i] * steps;
+      py[i] = y[i] + vy[i] * steps;
+    }
+
+    this.findNeighbors();
+
+    for (let iteration = 0; iteration < this.settings.iterations; iteration++) {
+      this.solveDensity();
+      for (let i = 0; i < count; i++) this.collide(i, colliders);
+    }
+
+    for (let i = 0; i < count; i++) {
+      vx[i] = (px[i] - x[i]) / steps;
+      vy[i] = (py[i] - y[i]) / steps;
+      x[i] = px[i];
+      y[i] = py[i];
+    }
+
+    this.applyViscosityAndCohesion(dt);
+  }
+
+  private findNeighbors() {
+    const { px, py, count, h } = this;
+    const hSq = h * h;
+    this.hash.build(px, py, count);
+
+    let total = 0;
+    for (let i = 0; i < count; i++) {
+      this.neighborStart[i] = total;
+      this.hash.query(px[i], py[i], j => {
+        if (j === i) return;
+        const dx = px[i] - px[j];
+        const dy = py[i] - py[j];
+        if (dx * dx + dy * dy >= hSq) return;
+
+        if (total >= this.neighbors.length) {
+          const grown = new Int32Array(Math.max(1024, this.neighbors.length * 2));
+          grown.set(this.neighbors);
+          this.neighbors = grown;
+        }
+        this.neighbors[total++] = j;
+      });
+    }
+    this.neighborStart[count] = total;
+  }
+
+  private solveDensity() {
+    const { px, py, lambda, neighbors, neighborStart, count, h, restDensity } = this;
+    const selfDensity = this.kernel(0);
+    const epsilon = this.settings.relaxation / (h * h);
+    const maxCorrection = this.settings.particleRadius * MAX_CORRECTION;
+
+    for (let i = 0; i < count; i++) {
+      let density = selfDensity;
+      let gradX = 0;
+      let gradY = 0;
+      let gradSq = 0;
+
+      for (let n = neighborStart[i]; n < neighborStart[i + 1]; n++) {
+        const j = neighbors[n];
+        const dx = px[i] - px[j];
+        const dy = py[i] - py[j];
+        const distanceSq = dx * dx + dy * dy;
+        if (distanceSq >= h * h) continue;
+
+        density += this.kernel(distanceSq);
+        const distance = Math.sqrt(distanceSq);
+        if (distance < 1e-6) continue;
+
+        const falloff = h - distance;
+        const scale = (this.spikyGradient * falloff * falloff) / (distance * restDensity);
+        gradX += dx * scale;
+        gradY += dy * scale;
+        gradSq += (dx * dx + dy * dy) * scale * scale;
+      }
+
+      // Unilateral: sparse regions are left to cohesion instead of being pulled together
+      const constraint = density / restDensity - 1;
+      lambda[i] = constraint > 0 ? -constraint / (gradSq + gradX * gradX + gradY * gradY + epsilon) : 0;
+    }
+
+    const { scratchX: deltaX, scratchY: deltaY } = this;
+    for (let i = 0; i < count; i++) {
+      let dxSum = 0;
+      let dySum = 0;
+
+      for (let n = neighborStart[i]; n < neighborStart[i + 1]; n++) {
+        const j = neighbors[n];
+        const dx = px[i] - px[j];
+        const dy = py[i] - py[j];
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance >= h || distance < 1e-6) continue;
+
+        const falloff = h - distance;
+        const scale = ((lambda[i] + lambda[j]) * this.spikyGradient * falloff * falloff) / (distance * restDensity);
+        dxSum += dx * scale;
+        dySum += dy * scale;
+      }
+
+      // Impacts compress the fluid far past rest density; unbounded corrections turn into jets
+      const correction = Math.sqrt(dxSum * dxSum + dySum * dySum);
+      const limit = correction > maxCorrection ? maxCorrection / correction : 1;
+      deltaX[i] = dxSum * limit;
+      deltaY[i] = dySum * limit;
+    }
+
+    for (let i = 0; i < count; i++) {
+      px[i] += deltaX[i];
+      py[i] += deltaY[i];
+    }
+  }
+
+  // Pushes a predicted position out of every collider it overlaps, then keeps it inside the walled edges
+  private collide(i: number, colliders: readonly Matter.Body[]) {
+    const radius = this.settings.particleRadius;
+    const point = { x: this.px[i], y: this.py[i] };
+
+    colliders.forEach(body => {
+      const { min, max } = body.bounds;
+      if (point.x < min.x - radius || point.x > max.x + radius || point.y < min.y - radius || point.y > max.y + radius) {
+        return;
+      }
+
+      if (body.circleRadius) {
+        const dx = point.x - body.position.x;
+        const dy = point.y - body.position.y;
+        const distance = Math.hypot(dx, dy);
+        const reach = body.circleRadius + radius;
+        if (distance >= reach) return;
+
+        const nx = distance > 1e-6 ? dx / distance : 0;
+        const ny = distance > 1e-6 ? dy / distance : -1;
+        point.x = body.position.x + nx * reach;
+        point.y = body.position.y + ny * reach;
+        return;
+      }
+
+      const parts = body.parts.length > 1 ? body.parts.slice(1) : body.parts;
+      parts.forEach((part: Matter.Body) => pushOutOfPolygon(point, part.vertices, radius));
+    });
+
+    // The walls are colliders too; this only stops a fast particle from tunnelling through one.
+    // Each wall spans its edge of the screen and only holds back liquid that started the step
+    // inside it, so liquid that left through an open side falls free instead of snapping back.
+    const { floor, left, right, ceiling } = this.boundaries;
+    const { width, height } = this;
+    const insideX = this.x[i] >= 0 && this.x[i] <= width;
+    const insideY = this.y[i] >= 0 && this.y[i] <= height;
+    if (insideX && insideY) {
+      if (left) point.x = Math.max(point.x, radius);
+      if (right) point.x = Math.min(point.x, width - radius);
+      if (ceiling) point.y = Math.max(point.y, radius);
+      if (floor) point.y = Math.min(point.y, height - radius);
+    }
+    this.px[i] = point.x;
+    this.py[i] = point.y;
+  }
+
+  private applyViscosityAndCohesion(dt: number) {
+    const { x, y, vx, vy, neighbors, neighborStart, count, h, restDensity } = this;
+    const { viscosity, surfaceTension } = this.settings;
+    const { scratchX: nextVx, scratchY: nextVy } = this;
+
+    for (let i = 0; i < count; i++) {
+      let blendX = 0;
+      let blendY = 0;
+      let pullX = 0;
+      let pullY = 0;
+
+      for (let n = neighborStart[i]; n < neighborStart[i + 1]; n++) {
+        const j = neighbors[n];
+        const dx = x[j] - x[i];
+        const dy = y[j] - y[i];
+        const distanceSq = dx * dx + dy * dy;
+        if (distanceSq >= h * h) continue;
+
+        const weight = this.kernel(distanceSq) / restDensity;
+        blendX += (vx[j] - vx[i]) * weight;
+        blendY += (vy[j] - vy[i]) * weight;
+
+        const distance = Math.sqrt(distanceSq);
+        if (distance < 1e-6) continue;
+        const cohesion = cohesionWeight(distance / h);
+        pullX += (dx / distance) * cohesion;
+        pullY += (dy / distance) * cohesion;
+      }
+
+      nextVx[i] = vx[i] + viscosity * blendX + surfaceTension * pullX * dt * STEP_SECONDS;
+      nextVy[i] = vy[i] + viscosity * blendY + surfaceTension * pullY * dt * STEP_SECONDS;
+    }
+
+    vx.set(nextVx.subarray(0, count));
+    vy.set(nextVy.subarray(0, count));
+  }
+
+  public forEachParticle(visit: ParticleVisitor) {
+    for (let i = 0; i < this.count; i++) {
+      visit(this.x[i], this.y[i], this.vx[i], this.vy[i], 0);
+    }
+  }
+
+  public applyRadialField(center: Point, radius: number, acceleration: number, delta: number) {
+    const dt = (delta / 1000) * this.engine.timing.timeScale;
+    for (let i = 0; i < this.count; i++) {
+      const dx = center.x - this.x[i];
+      const dy = center.y - this.y[i];
+      const distance = Math.hypot(dx, dy);
+      if (distance >= radius || distance < 1e-6) continue;
+
+      const impulse = (acceleration * (1 - distance / radius) * dt * STEP_SECONDS) / distance;
+      this.vx[i] += dx * impulse;
+      this.vy[i] += dy * impulse;
+    }
+  }
+
+  public getParticles(): BodySnapshot[] {
+    const particles: BodySnapshot[] = [];
+    this.forEachParticle((x, y, vx, vy) => particles.push({ x, y, angle: 0, vx, vy, angularVelocity: 0 }));
+    return particles;
+  }
+
+  public setParticles(particles: BodySnapshot[]) {
+    this.allocate(particles.length);
+    particles.forEach((particle, i) => {
+      this.x[i] = particle.x;
+      this.y[i] = particle.y;
+      this.vx[i] = particle.vx;
+      this.vy[i] = particle.vy;
+    });
+  }
+
+  public addParticles(particles: BodySnapshot[]) {
+    const start = this.count;
+    this.allocate(start + particles.length);
+    particles.forEach((particle, n) => {
+      const i = start + n;
+      this.x[i] = particle.x;
+      this.y[i] = particle.y;
+      this.vx[i] = particle.vx;
+      this.vy[i] = particle.vy;
+    });
+  }
+
+  // Survivors are packed to the front in order; the space behind them is kept for reuse
+  public removeParticles(test: (x: number, y: number) => boolean): number {
+    const { x, y, vx, vy, count } = this;
+    let kept = 0;
+    for (let i = 0; i < count; i++) {
+      if (test(x[i], y[i])) continue;
+      x[kept] = x[i];
+      y[kept] = y[i];
+      vx[kept] = vx[i];
+      vy[kept] = vy[i];
+      kept++;
+    }
+    this.count = kept;
+    return count - kept;
+  }
+
+  public resize(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+
+  public setBoundaries(boundaries: SceneBoundaries) {
+    this.boundaries = { ...boundaries };
+  }
+
+  public destroy() {
+    this.count = 0;
+  }
+}
+
+// Akinci et al. 2013 cohesion spline over q = r / h: repels up close, attracts further out, peaks at 1
+function cohesionWeight(q: number) {
+  if (q >= 1) return 0;
+  const s = (1 - q) * q;
+  const shape = s * s * s;
+  return 64 * (q > 0.5 ? shape : 2 * shape - 1 / 64);
+}
+
+function pushOutOfPolygon(point: Matter.Vector, vertices: Matter.Vector[], radius: number) {
+  let closestX = 0;
+  let closestY = 0;
+  let closestSq = Infinity;
+
+  vertices.forEach((a, index) => {
+    const b = vertices[(index + 1) % vertices.length];
+    const edgeX = b.x - a.x;
+    const edgeY = b.y - a.y;
+    const lengthSq = edgeX * edgeX + edgeY * edgeY || 1;
+    const t = Math.min(1, Math.max(0, ((point.x - a.x) * edgeX + (point.y - a.y) * edgeY) / lengthSq));
+    const cx = a.x + edgeX * t;
+    const cy = a.y + edgeY * t;
+    const distanceSq = (point.x - cx) ** 2 + (point.y - cy) ** 2;
+    if (distanceSq < closestSq) {
+      closestSq = distanceSq;
+      closestX = cx;
+      closestY = cy;
+    }
+  });
+
+  const distance = Math.sqrt(closestSq);
+  const inside = Matter.Vertices.contains(vertices, point);
+  if (!inside && distance >= radius) return;
+
+  // Inside, the way out is towards the nearest edge; outside, it is away from it
+  const direction = inside ? 1 : -1;
+  const nx = distance > 1e-6 ? ((closestX - point.x) / distance) * direction : 0;
+  const ny = distance > 1e-6 ? ((closestY - point.y) / distance) * direction : -1;
+  point.x = closestX + nx * radius;
+  point.y = closestY + ny * radius;
+}
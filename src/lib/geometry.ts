@@ -0,0 +1,8 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, value));
+}
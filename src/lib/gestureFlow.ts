@@ -0,0 +1,108 @@
+import type { GestureEvent, GestureRecognizer, GestureType } from './gestures';
+import type { Point } from './geometry';
+import type { LiquidWorld } from './liquidWorld';
+
+export interface GestureFlowOptions {
+  holdMs: number; // How long a gesture is held before the hand starts pouring or draining
+  rate: number; // Particles per second a pouring hand lets out
+  speed: number; // px/s
+  drainReach: number; // A draining hand's square reaches this many hand radii from its centre
+}
+
+export const DEFAULT_GESTURE_FLOW_OPTIONS: GestureFlowOptions = {
+  holdMs: 600,
+  rate: 60,
+  speed: 200,
+  drainReach: 1.5
+};
+
+const POUR_GESTURE: GestureType = 'pinch';
+const DRAIN_GESTURE: GestureType = 'two-finger';
+
+interface HandFlow {
+  kind: 'emitter' | 'drain';
+  id: number;
+}
+
+/**
+ * Pours and drains by hand. Holding a pinch turns the hand into a faucet pouring from just below
+ * it, and holding two fingers up turns it into a drain, for as long as the gesture lasts. Both
+ * follow the hand and are temporary, so they never end up in snapshots. A pinch that picked up
+ * an object grabs rather than pours.
+ */
+export class GestureFlow {
+  private options: GestureFlowOptions;
+  private hands = new Map<number, HandFlow>();
+  private enabled = true;
+  private unsubscribers: (() => void)[];
+
+  constructor(private world: LiquidWorld, gestures: GestureRecognizer, options: Partial<GestureFlowOptions> = {}) {
+    this.options = { ...DEFAULT_GESTURE_FLOW_OPTIONS, ...options };
+    this.unsubscribers = [
+      gestures.on('hold', this.handleHold),
+      gestures.on('end', ({ handId }) => this.removeHand(handId))
+    ];
+  }
+
+  // Off while pinches mean something else, e.g. drawing in the level editor
+  public setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    if (!enabled) [...this.hands.keys()].forEach(handId => this.removeHand(handId));
+  }
+
+  public removeHand(handId: number) {
+    const flow = this.hands.get(handId);
+    if (!flow) return;
+
+    if (flow.kind === 'emitter') {
+      this.world.flow.removeEmitter(flow.id);
+    } else {
+      this.world.flow.removeDrain(flow.id);
+    }
+    this.hands.delete(handId);
+  }
+
+  private handleHold = ({ handId, gesture, duration }: GestureEvent) => {
+    const position = this.world.getHandPosition(handId);
+    if (!this.enabled || !position) return;
+
+    const flow = this.hands.get(handId);
+    if (flow?.kind === 'emitter') {
+      this.world.flow.updateEmitter(flow.id, { position: this.nozzle(position) });
+    } else if (flow?.kind === 'drain') {
+      this.world.flow.updateDrain(flow.id, { position });
+    } else if (duration >= this.options.holdMs) {
+      this.start(handId, gesture, position);
+    }
+  };
+
+  private start(handId: number, gesture: GestureType, position: Point) {
+    const { flow } = this.world;
+
+    if (gesture === POUR_GESTURE && !this.world.isHandGrabbing(handId)) {
+      const id = flow.addEmitter({
+        position: this.nozzle(position),
+        direction: Math.PI / 2,
+        rate: this.options.rate,
+        speed: this.options.speed,
+        temporary: true
+      });
+      this.hands.set(handId, { kind: 'emitter', id });
+    } else if (gesture === DRAIN_GESTURE) {
+      const size = this.world.getHandRadius() * this.options.drainReach * 2;
+      const id = flow.addDrain({ position, width: size, height: size, temporary: true });
+      this.hands.set(handId, { kind: 'drain', id });
+    }
+  }
+
+  // Just clear of the hand's collider, so the stream isn't caught on the hand pouring it
+  private nozzle({ x, y }: Point): Point {
+    const clearance = this.world.getHandRadius() + this.world.getSolver().particleRadius * 2;
+    return { x, y: y + clearance };
+  }
+
+  public destroy() {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.setEnabled(false);
+  }
+}
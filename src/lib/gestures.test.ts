@@ -0,0 +1,85 @@
+import type { NormalizedLandmarkList } from '@mediapipe/hands';
+import { describe, expect, it } from 'vitest';
+import poses from './fixtures/handPoses.json';
+import { classifyHand, GESTURE_TYPES, GestureEvent, GestureRecognizer, GestureType, recognizeRecording } from './gestures';
+import type { HandFrame } from './handInput';
+import type { HandRecording } from './handRecording';
+
+type Pose = keyof typeof poses;
+
+const FRAME_MS = 33;
+
+function shifted(pose: Pose, dx: number): NormalizedLandmarkList {
+  return poses[pose].map(point => ({ ...point, x: point.x + dx }));
+}
+
+function recording(frames: NormalizedLandmarkList[][]): HandRecording {
+  return {
+    version: 1,
+    createdAt: '',
+    duration: (frames.length - 1) * FRAME_MS,
+    frames: frames.map((hands, index) => ({
+      t: index * FRAME_MS,
+      multiHandLandmarks: hands,
+      multiHandedness: hands.map((_, hand) => ({ index: hand, score: 1, label: 'Right' }))
+    }))
+  };
+}
+
+function frame(index: number, hands: NormalizedLandmarkList[]): HandFrame {
+  return { timestamp: index * FRAME_MS, multiHandLandmarks: hands, multiHandedness: [] };
+}
+
+const summary = (events: (GestureEvent & { type: string })[]) => events.map(({ type, gesture }) => `${type} ${gesture}`);
+
+describe('gesture recognition', () => {
+  it.each(GESTURE_TYPES)('scores the %s pose highest', gesture => {
+    const scores = classifyHand(poses[gesture]);
+    const best = GESTURE_TYPES.reduce((a, b) => (scores[b] > scores[a] ? b : a));
+    expect(best).toBe(gesture);
+    expect(scores[gesture]).toBeGreaterThan(0.9);
+  });
+
+  it('starts a pinch above the enter threshold and keeps it above the exit threshold', () => {
+    const halfway = classifyHand(poses['pinch-release']).pinch;
+    expect(halfway).toBeGreaterThan(0.5);
+    expect(halfway).toBeLessThan(0.75);
+
+    const sequence: Pose[] = [
+      'pinch-release', 'pinch-release', 'pinch-release',
+      'pinch', 'pinch', 'pinch',
+      'pinch-release', 'pinch-release', 'pinch-release',
+      'open-palm', 'open-palm', 'open-palm'
+    ];
+    const events = recognizeRecording(recording(sequence.map(pose => [poses[pose]])));
+    expect(summary(events)).toEqual(['start pinch', 'end pinch', 'start open-palm', 'end open-palm']);
+    expect(events[0].timestamp).toBe(4 * FRAME_MS);
+    expect(events[1].timestamp).toBe(9 * FRAME_MS);
+  });
+
+  it('keeps a gesture going through a dropped frame', () => {
+    const recognizer = new GestureRecognizer();
+    const ended: GestureType[] = [];
+    recognizer.on('end', ({ gesture }) => ended.push(gesture));
+
+    [0, 1, 2].forEach(index => recognizer.update(frame(index, [poses.pinch])));
+    recognizer.update(frame(3, []));
+    recognizer.update(frame(4, [poses.pinch]));
+    expect(ended).toEqual([]);
+    expect(recognizer.getActiveGesture(0)).toBe('pinch');
+
+    // Gone for longer than the grace period, it ends
+    [5, 6, 7, 8, 9].forEach(index => recognizer.update(frame(index, [])));
+    expect(ended).toEqual(['pinch']);
+    expect(recognizer.getActiveGesture(0)).toBeNull();
+  });
+
+  it('follows hands that swap places in a recording', () => {
+    const left = shifted('pinch', -0.2);
+    const right = shifted('fist', 0.2);
+    const frames = Array.from({ length: 12 }, (_, index) => (index % 2 ? [left, right] : [right, left]));
+
+    const events = recognizeRecording(recording(frames));
+    expect(summary(events).sort()).toEqual(['end fist', 'end pinch', 'start fist', 'start pinch']);
+  });
+});
@@ -0,0 +1,248 @@
+import type { NormalizedLandmark, NormalizedLandmarkList } from '@mediapipe/hands';
+import { Emitter } from './emitter';
+import { HandIdentityTracker } from './handIdentity';
+import { HandFrame, handIdAt } from './handInput';
+import type { HandRecording } from './handRecording';
+
+export type GestureType = 'pinch' | 'fist' | 'open-palm' | 'point' | 'two-finger';
+
+export const GESTURE_TYPES: GestureType[] = ['pinch', 'fist', 'open-palm', 'point', 'two-finger'];
+
+export type GestureScores = Record<GestureType, number>;
+
+export interface GestureConfig {
+  // Thumb tip to index tip distance, in units of wrist-to-middle-knuckle length
+  pinch: { closed: number; open: number };
+  // Fingertip-to-wrist over knuckle-to-wrist distance for a curled / extended finger
+  extension: { curled: number; extended: number };
+  // Thumb tip to index knuckle distance for a tucked / extended thumb
+  thumb: { tucked: number; extended: number };
+  enterConfidence: number;
+  exitConfidence: number;
+  confirmFrames: number;
+  // How long a hand may go undetected before its gesture ends, so a dropped frame doesn't end it
+  graceMs: number;
+}
+
+export const DEFAULT_GESTURE_CONFIG: GestureConfig = {
+  pinch: { closed: 0.25, open: 0.55 },
+  extension: { curled: 1.1, extended: 1.7 },
+  thumb: { tucked: 0.45, extended: 0.9 },
+  enterConfidence: 0.75,
+  exitConfidence: 0.5,
+  confirmFrames: 2,
+  graceMs: 150
+};
+
+export interface GestureEvent {
+  handId: number;
+  gesture: GestureType;
+  confidence: number;
+  timestamp: number;
+  duration: number; // Milliseconds since the gesture started
+  position: NormalizedLandmark; // Pinch midpoint for pinches, palm centre otherwise
+}
+
+export interface GestureEvents {
+  start: GestureEvent;
+  hold: GestureEvent;
+  end: GestureEvent;
+}
+
+// Landmark indices: fingertip and knuckle (MCP) for index, middle, ring and pinky
+const FINGERS = [
+  { tip: 8, mcp: 5 },
+  { tip: 12, mcp: 9 },
+  { tip: 16, mcp: 13 },
+  { tip: 20, mcp: 17 }
+];
+const WRIST = 0;
+const THUMB_TIP = 4;
+const PALM_CENTRE = 9;
+
+function distance(a: NormalizedLandmark, b: NormalizedLandmark) {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function ramp(value: number, low: number, high: number) {
+  return Math.max(0, Math.min(1, (value - low) / (high - low)));
+}
+
+export function classifyHand(
+  landmarks: NormalizedLandmarkList,
+  config: GestureConfig = DEFAULT_GESTURE_CONFIG
+): GestureScores {
+  const wrist = landmarks[WRIST];
+  const scale = distance(wrist, landmarks[PALM_CENTRE]) || 1e-6;
+
+  // 0 = fully curled, 1 = fully extended
+  const [index, middle, ring, pinky] = FINGERS.map(({ tip, mcp }) => ramp(
+    distance(wrist, landmarks[tip]) / (distance(wrist, landmarks[mcp]) || 1e-6),
+    config.extension.curled,
+    config.extension.extended
+  ));
+  const thumb = ramp(
+    distance(landmarks[THUMB_TIP], landmarks[FINGERS[0].mcp]) / scale,
+    config.thumb.tucked,
+    config.thumb.extended
+  );
+  const pinchDistance = distance(landmarks[THUMB_TIP], landmarks[FINGERS[0].tip]) / scale;
+  const pinch = 1 - ramp(pinchDistance, config.pinch.closed, config.pinch.open);
+
+  return {
+    pinch,
+    fist: (1 - index) * (1 - middle) * (1 - ring) * (1 - pinky) * (1 - pinch * 0.5),
+    'open-palm': Math.min(index, middle, ring, pinky) * thumb * (1 - pinch),
+    point: index * (1 - middle) * (1 - ring) * (1 - pinky) * (1 - pinch),
+    'two-finger': index * middle * (1 - ring) * (1 - pinky) * (1 - pinch)
+  };
+}
+
+function gesturePosition(landmarks: NormalizedLandmarkList, gesture: GestureType): NormalizedLandmark {
+  if (gesture !== 'pinch') return landmarks[PALM_CENTRE];
+
+  const thumb = landmarks[THUMB_TIP];
+  const indexTip = landmarks[FINGERS[0].tip];
+  return {
+    x: (thumb.x + indexTip.x) / 2,
+    y: (thumb.y + indexTip.y) / 2,
+    z: (thumb.z + indexTip.z) / 2
+  };
+}
+
+interface HandGestureState {
+  active: GestureType | null;
+  startedAt: number;
+  lastSeen: number;
+  candidate: GestureType | null;
+  candidateFrames: number;
+  last: GestureEvent | null;
+}
+
+// Per-hand gesture state machine with enter/exit hysteresis and frame debouncing
+export class GestureRecognizer extends Emitter<GestureEvents> {
+  private config: GestureConfig;
+  private hands = new Map<number, HandGestureState>();
+
+  constructor(config: Partial<GestureConfig> = {}) {
+    super();
+    this.config = { ...DEFAULT_GESTURE_CONFIG, ...config };
+  }
+
+  public getConfig(): GestureConfig {
+    return this.config;
+  }
+
+  public setConfig(config: Partial<GestureConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  public getActiveGesture(handId: number): GestureType | null {
+    return this.hands.get(handId)?.active ?? null;
+  }
+
+  public update(frame: HandFrame) {
+    const seen = new Set<number>();
+
+    frame.multiHandLandmarks.forEach((landmarks, index) => {
+      if (landmarks.length < 21) return;
+      const handId = handIdAt(frame, index);
+      seen.add(handId);
+      this.updateHand(handId, landmarks, frame.timestamp);
+    });
+
+    // Hands gone for longer than the grace period end whatever they were doing
+    this.hands.forEach((state, handId) => {
+      if (seen.has(handId) || frame.timestamp - state.lastSeen < this.config.graceMs) return;
+      if (state.active && state.last) {
+        this.emit('end', { ...state.last, timestamp: frame.timestamp, duration: frame.timestamp - state.startedAt });
+      }
+      this.hands.delete(handId);
+    });
+  }
+
+  // Active gestures end as of the last frame they were seen in, so listeners can let go of them
+  public reset() {
+    this.hands.forEach(state => {
+      if (state.active && state.last) this.emit('end', state.last);
+    });
+    this.hands.clear();
+  }
+
+  private updateHand(handId: number, landmarks: NormalizedLandmarkList, timestamp: number) {
+    const state: HandGestureState = this.hands.get(handId)
+      ?? { active: null, startedAt: timestamp, lastSeen: timestamp, candidate: null, candidateFrames: 0, last: null };
+    state.lastSeen = timestamp;
+    this.hands.set(handId, state);
+
+    const scores = classifyHand(landmarks, this.config);
+    const best = GESTURE_TYPES.reduce((a, b) => (scores[b] > scores[a] ? b : a));
+    const makeEvent = (gesture: GestureType): GestureEvent => ({
+      handId,
+      gesture,
+      confidence: scores[gesture],
+      timestamp,
+      duration: timestamp - state.startedAt,
+      position: gesturePosition(landmarks, gesture)
+    });
+
+    // The active gesture sticks until it drops below the exit threshold
+    if (state.active && scores[state.active] >= this.config.exitConfidence) {
+      state.last = makeEvent(state.active);
+      this.emit('hold', state.last);
+      return;
+    }
+
+    if (state.active && state.last) {
+      this.emit('end', makeEvent(state.active));
+      state.active = null;
+      state.last = null;
+    }
+
+    if (scores[best] < this.config.enterConfidence) {
+      state.candidate = null;
+      state.candidateFrames = 0;
+      return;
+    }
+
+    if (state.candidate === best) {
+      state.candidateFrames++;
+    } else {
+      state.candidate = best;
+      state.candidateFrames = 1;
+    }
+
+    if (state.candidateFrames >= this.config.confirmFrames) {
+      state.active = best;
+      state.startedAt = timestamp;
+      state.candidate = null;
+      state.candidateFrames = 0;
+      state.last = makeEvent(best);
+      this.emit('start', state.last);
+    }
+  }
+}
+
+// Runs a recording through a recognizer offline, for tuning thresholds against fixtures
+export function recognizeRecording(
+  recording: HandRecording,
+  config: Partial<GestureConfig> = {}
+): (GestureEvent & { type: keyof GestureEvents })[] {
+  const recognizer = new GestureRecognizer(config);
+  const events: (GestureEvent & { type: keyof GestureEvents })[] = [];
+
+  recognizer.on('start', event => events.push({ ...event, type: 'start' }));
+  recognizer.on('end', event => events.push({ ...event, type: 'end' }));
+
+  // Hands are identified as they are live, so reordered hands don't end and restart gestures
+  const identity = new HandIdentityTracker();
+  recording.frames.forEach(frame => recognizer.update(identity.process({
+    timestamp: frame.t,
+    multiHandLandmarks: frame.multiHandLandmarks,
+    multiHandedness: frame.multiHandedness
+  })));
+  // Whatever is still going ends with the recording
+  recognizer.reset();
+
+  return events;
+}
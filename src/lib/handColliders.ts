@@ -0,0 +1,155 @@
+import Matter from 'matter-js';
+import type { Point } from './geometry';
+
+export type HandColliderMode = 'circle' | 'articulated';
+
+// Circle collider radius in px
+export const DEFAULT_HAND_RADIUS = 50;
+
+// Landmarks outlining the palm: wrist, thumb base and the four knuckles
+const PALM_LANDMARKS = [0, 1, 5, 9, 13, 17];
+
+// Finger bones as landmark pairs, thumb first
+const FINGER_BONES: [number, number][] = [
+  [1, 2], [2, 3], [3, 4],
+  [5, 6], [6, 7], [7, 8],
+  [9, 10], [10, 11], [11, 12],
+  [13, 14], [14, 15], [15, 16],
+  [17, 18], [18, 19], [19, 20]
+];
+
+const CAPSULE_CAP_STEPS = 4;
+const HAND_FILL = 'rgba(0, 255, 0, 0.3)';
+
+function convexHull(points: Point[]): Point[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+  const lower: Point[] = [];
+  const upper: Point[] = [];
+
+  sorted.forEach(point => {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+    lower.push(point);
+  });
+  [...sorted].reverse().forEach(point => {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) upper.pop();
+    upper.push(point);
+  });
+
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+}
+
+function capsuleVertices(a: Point, b: Point, radius: number): Point[] {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  // Degenerate bones still need a valid convex shape
+  const angle = length > 1e-3 ? Math.atan2(b.y - a.y, b.x - a.x) : 0;
+  const vertices: Point[] = [];
+
+  for (let i = 0; i <= CAPSULE_CAP_STEPS; i++) {
+    const theta = angle - Math.PI / 2 + (Math.PI * i) / CAPSULE_CAP_STEPS;
+    vertices.push({ x: b.x + radius * Math.cos(theta), y: b.y + radius * Math.sin(theta) });
+  }
+  for (let i = 0; i <= CAPSULE_CAP_STEPS; i++) {
+    const theta = angle + Math.PI / 2 + (Math.PI * i) / CAPSULE_CAP_STEPS;
+    vertices.push({ x: a.x + radius * Math.cos(theta), y: a.y + radius * Math.sin(theta) });
+  }
+
+  return vertices;
+}
+
+function polygonArea(vertices: Point[]) {
+  let area = 0;
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+// Replaces the shape of a static body and moves it, carrying the displacement times `velocityScale` as velocity
+function reshapeKinematic(body: Matter.Body, points: Point[], velocityScale: number) {
+  const vertices = Matter.Vertices.clockwiseSort(points);
+  const centre = Matter.Vertices.centre(vertices);
+
+  Matter.Body.setVertices(body, vertices);
+  // setVertices recomputes mass and inertia from density, which is infinite for static bodies
+  Matter.Body.setMass(body, Infinity);
+  Matter.Body.setInertia(body, Infinity);
+
+  Matter.Body.setVelocity(body, {
+    x: (centre.x - body.position.x) * velocityScale,
+    y: (centre.y - body.position.y) * velocityScale
+  });
+  Matter.Body.setPosition(body, centre);
+}
+
+/**
+ * A hand built from its landmark skeleton: a palm polygon plus one capsule per finger bone.
+ * The pieces are separate static bodies grouped in a composite rather than a Matter compound
+ * body, because compound parts share their parent's velocity and a flick needs per-bone velocity.
+ */
+export class HandSkeleton {
+  public readonly composite: Matter.Composite;
+  public readonly palm: Matter.Body;
+  public readonly bones: Matter.Body[];
+  private isPosed = false;
+  private lastPoints: Point[] | null = null;
+
+  constructor(collisionFilter: Matter.ICollisionFilter) {
+    const options = {
+      isStatic: true,
+      isSleeping: false,
+      sleepThreshold: Infinity,
+      collisionFilter,
+      render: {
+        fillStyle: HAND_FILL,
+        strokeStyle: '#00FF00',
+        lineWidth: 1
+      }
+    };
+
+    this.palm = Matter.Bodies.polygon(-1000, -1000, 6, 40, options);
+    this.bones = FINGER_BONES.map(() => Matter.Bodies.rectangle(-1000, -1000, 30, 12, options));
+    this.composite = Matter.Composite.create({ bodies: [this.palm, ...this.bones] });
+  }
+
+  public get bodies(): Matter.Body[] {
+    return [this.palm, ...this.bones];
+  }
+
+  // The screen-space landmarks of the current pose, null until first posed
+  public get landmarks(): Point[] | null {
+    return this.lastPoints;
+  }
+
+  /**
+   * Expects all 21 landmarks already mapped to screen space. Each bone's displacement since the
+   * last pose, times `velocityScale`, becomes its velocity in engine units.
+   */
+  public update(points: Point[], velocityScale = 1) {
+    if (points.length < 21) return;
+
+    const palmWidth = Math.hypot(points[5].x - points[17].x, points[5].y - points[17].y);
+    const radius = Math.max(6, Math.min(18, palmWidth * 0.12));
+
+    // The first pose appears in place rather than flying in from off-screen
+    const scale = this.isPosed ? velocityScale : 0;
+    const palmHull = convexHull(PALM_LANDMARKS.map(index => points[index]));
+    if (palmHull.length >= 3 && polygonArea(palmHull) > 1) {
+      reshapeKinematic(this.palm, palmHull, scale);
+    }
+
+    FINGER_BONES.forEach(([from, to], index) => {
+      reshapeKinematic(this.bones[index], capsuleVertices(points[from], points[to], radius), scale);
+    });
+    this.isPosed = true;
+    this.lastPoints = points.map(point => ({ x: point.x, y: point.y }));
+  }
+
+  public setFill(fillStyle: string | null) {
+    this.bodies.forEach(body => {
+      body.render.fillStyle = fillStyle ?? HAND_FILL;
+    });
+  }
+}
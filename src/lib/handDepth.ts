@@ -0,0 +1,142 @@
+import type { NormalizedLandmark, NormalizedLandmarkList } from '@mediapipe/hands';
+import { Emitter } from './emitter';
+import { clamp } from './geometry';
+import { HandFrame, handIdAt } from './handInput';
+
+// Held back the hand hovers without touching anything; pushed towards the camera it presses in
+export type DepthZone = 'hover' | 'touch' | 'press';
+
+export interface HandDepth {
+  zone: DepthZone;
+  depth: number; // 0 at the hover pose, 1 at the press pose, unclamped
+  press: number; // How far into the press zone, 0 to 1
+}
+
+// A user's own reach: hand sizes, in frame heights, at their hover and press poses
+export interface DepthCalibration {
+  hover: number;
+  press: number;
+  createdAt: string;
+}
+
+export const DEFAULT_DEPTH_CALIBRATION: DepthCalibration = {
+  hover: 0.12,
+  press: 0.26,
+  createdAt: ''
+};
+
+export const TOUCH_HAND_DEPTH: HandDepth = { zone: 'touch', depth: 0.5, press: 0 };
+
+export interface HandDepthEvents {
+  update: { handId: number; depth: HandDepth };
+}
+
+// Zone boundaries as fractions of the way from the hover pose to the press pose
+const HOVER_BELOW = 0.25;
+const PRESS_ABOVE = 0.7;
+// Keeps a hand sitting on a boundary from flickering between zones
+const HYSTERESIS = 0.05;
+
+const WRIST = 0;
+const PALM_KNUCKLES = [5, 9, 17];
+
+const STORAGE_PREFIX = 'hand-lab:depth-calibration:';
+
+/**
+ * The hand's apparent size: the mean wrist-to-knuckle length in frame heights. Landmark z
+ * shares x's scale, so measuring in 3D keeps a palm tipped away from reading as a distant one.
+ */
+export function measureHandSize(landmarks: NormalizedLandmarkList, aspectRatio: number): number {
+  const wrist = landmarks[WRIST];
+  const length = (point: NormalizedLandmark) => Math.hypot(
+    (point.x - wrist.x) * aspectRatio,
+    point.y - wrist.y,
+    ((point.z ?? 0) - (wrist.z ?? 0)) * aspectRatio
+  );
+  return PALM_KNUCKLES.reduce((sum, index) => sum + length(landmarks[index]), 0) / PALM_KNUCKLES.length;
+}
+
+export function depthFromSize(size: number, calibration: DepthCalibration, previous: DepthZone | null = null): HandDepth {
+  const depth = (size - calibration.hover) / (calibration.press - calibration.hover || 1e-9);
+  const hoverBelow = HOVER_BELOW + (previous === 'hover' ? HYSTERESIS : previous ? -HYSTERESIS : 0);
+  const pressAbove = PRESS_ABOVE + (previous === 'press' ? -HYSTERESIS : previous ? HYSTERESIS : 0);
+  const zone: DepthZone = depth < hoverBelow ? 'hover' : depth > pressAbove ? 'press' : 'touch';
+
+  return {
+    zone,
+    depth,
+    press: zone === 'press' ? clamp((depth - PRESS_ABOVE) / (1 - PRESS_ABOVE), 0, 1) : 0
+  };
+}
+
+// Per-hand depth from each frame's landmarks, sorted into hover, touch and press zones
+export class HandDepthEstimator extends Emitter<HandDepthEvents> {
+  private calibration: DepthCalibration;
+  private zones = new Map<number, DepthZone>();
+
+  constructor(private aspectRatio: number, calibration: DepthCalibration = DEFAULT_DEPTH_CALIBRATION) {
+    super();
+    this.calibration = calibration;
+  }
+
+  public getCalibration(): DepthCalibration {
+    return this.calibration;
+  }
+
+  public setCalibration(calibration: DepthCalibration) {
+    this.calibration = calibration;
+  }
+
+  // The camera's aspect ratio, as landmarks are normalized to its width and height separately
+  public setAspectRatio(aspectRatio: number) {
+    this.aspectRatio = aspectRatio;
+  }
+
+  public update(frame: HandFrame) {
+    const seen = new Set<number>();
+
+    frame.multiHandLandmarks.forEach((landmarks, index) => {
+      if (landmarks.length < 21) return;
+      const handId = handIdAt(frame, index);
+      seen.add(handId);
+
+      const size = measureHandSize(landmarks, this.aspectRatio);
+      const depth = depthFromSize(size, this.calibration, this.zones.get(handId) ?? null);
+      this.zones.set(handId, depth.zone);
+      this.emit('update', { handId, depth });
+    });
+
+    [...this.zones.keys()].filter(handId => !seen.has(handId)).forEach(handId => this.zones.delete(handId));
+  }
+
+  public reset() {
+    this.zones.clear();
+  }
+}
+
+function storageKey(deviceId: string | null) {
+  return `${STORAGE_PREFIX}${deviceId || 'default'}`;
+}
+
+export function loadDepthCalibration(deviceId: string | null): DepthCalibration {
+  try {
+    const stored = localStorage.getItem(storageKey(deviceId));
+    if (!stored) return DEFAULT_DEPTH_CALIBRATION;
+
+    const calibration = JSON.parse(stored) as DepthCalibration;
+    const valid = Number.isFinite(calibration.hover) && Number.isFinite(calibration.press)
+      && calibration.press > calibration.hover;
+    return valid ? calibration : DEFAULT_DEPTH_CALIBRATION;
+  } catch (error) {
+    console.warn('[DepthCalibration] Ignoring unreadable calibration:', error);
+    return DEFAULT_DEPTH_CALIBRATION;
+  }
+}
+
+export function saveDepthCalibration(deviceId: string | null, calibration: DepthCalibration) {
+  localStorage.setItem(storageKey(deviceId), JSON.stringify(calibration));
+}
+
+export function clearDepthCalibration(deviceId: string | null) {
+  localStorage.removeItem(storageKey(deviceId));
+}
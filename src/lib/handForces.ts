@@ -0,0 +1,180 @@
+import Matter from 'matter-js';
+import { Emitter } from './emitter';
+import type { GestureType } from './gestures';
+import type { Point } from './geometry';
+import type { LiquidWorld } from './liquidWorld';
+
+export type ForceMode = 'tilt' | 'scale' | 'field';
+
+export const FORCE_MODES: ForceMode[] = ['tilt', 'scale', 'field'];
+
+export type FieldPolarity = 'attract' | 'repel';
+
+export interface HandForceOptions {
+  maxTilt: number; // Radians gravity may lean either way
+  minScale: number; // Gravity multiplier with the hands together
+  maxScale: number; // ...and with them a full screen width apart
+  fieldRadius: number; // Pixels around an open palm
+  fieldAcceleration: number; // px/s² at the palm, fading to nothing at the edge
+  smoothing: number; // Fraction of the way gravity moves towards its target each step
+}
+
+export const DEFAULT_HAND_FORCE_OPTIONS: HandForceOptions = {
+  maxTilt: Math.PI / 3,
+  minScale: 0.2,
+  maxScale: 2.5,
+  fieldRadius: 220,
+  fieldAcceleration: 4000,
+  smoothing: 0.15
+};
+
+export interface ForceField {
+  handId: number;
+  center: Point;
+  radius: number;
+  acceleration: number; // Negative pushes particles away
+}
+
+// What the forces did in the last engine update, for on-screen indicators
+export interface HandForceState {
+  modes: Record<ForceMode, boolean>;
+  polarity: FieldPolarity;
+  gravity: Point; // The engine's gravity vector
+  tilt: number; // Radians the hands are rolled, clockwise on screen
+  scale: number;
+  span: [Point, Point] | null; // The two hands scaling gravity
+  fields: ForceField[];
+}
+
+export interface HandForceEvents {
+  change: HandForceState;
+}
+
+interface HandPose {
+  wrist: Point;
+  palm: Point;
+  gesture: GestureType | null;
+}
+
+const WRIST = 0;
+const PALM_CENTRE = 9;
+
+/**
+ * World forces driven by hand poses rather than collisions. Palm roll tilts gravity, the gap
+ * between two hands scales it, and an open palm pulls or pushes the particles around it. All of
+ * it runs in the engine's `beforeUpdate`, so forces apply in step with the physics at any frame
+ * rate, and replays of the same poses push the same way.
+ */
+export class HandForces extends Emitter<HandForceEvents> {
+  private options: HandForceOptions;
+  private modes: Record<ForceMode, boolean> = { tilt: false, scale: false, field: false };
+  private polarity: FieldPolarity = 'attract';
+  private hands = new Map<number, HandPose>();
+  private tilt = 0;
+  private scale = 1;
+
+  constructor(private world: LiquidWorld, options: Partial<HandForceOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_HAND_FORCE_OPTIONS, ...options };
+    Matter.Events.on(world.engine, 'beforeUpdate', this.handleBeforeUpdate);
+  }
+
+  public get state(): HandForceState {
+    const { gravity } = this.world.engine;
+    return {
+      modes: { ...this.modes },
+      polarity: this.polarity,
+      gravity: { x: gravity.x, y: gravity.y },
+      tilt: this.tilt,
+      scale: this.scale,
+      span: this.modes.scale ? this.span() : null,
+      fields: this.modes.field ? this.fields() : []
+    };
+  }
+
+  public setMode(mode: ForceMode, enabled: boolean) {
+    if (this.modes[mode] === enabled) return;
+    this.modes[mode] = enabled;
+    this.emit('change', this.state);
+  }
+
+  public setPolarity(polarity: FieldPolarity) {
+    if (polarity === this.polarity) return;
+    this.polarity = polarity;
+    this.emit('change', this.state);
+  }
+
+  // Landmarks in screen space, as the world receives them
+  public updateHand(handId: number, landmarks: Point[], gesture: GestureType | null) {
+    const wrist = landmarks[WRIST];
+    const palm = landmarks[PALM_CENTRE];
+    if (!wrist || !palm) return;
+    this.hands.set(handId, { wrist, palm, gesture });
+  }
+
+  public removeHand(handId: number) {
+    this.hands.delete(handId);
+  }
+
+  // 0 with the fingers pointing up, positive when the hand rolls clockwise on screen
+  private roll({ wrist, palm }: HandPose) {
+    return Math.atan2(palm.x - wrist.x, wrist.y - palm.y);
+  }
+
+  private span(): [Point, Point] | null {
+    const hands = [...this.hands.values()];
+    return hands.length >= 2 ? [hands[0].palm, hands[1].palm] : null;
+  }
+
+  private fields(): ForceField[] {
+    const { fieldRadius, fieldAcceleration } = this.options;
+    const acceleration = this.polarity === 'attract' ? fieldAcceleration : -fieldAcceleration;
+    return [...this.hands]
+      .filter(([, hand]) => hand.gesture === 'open-palm')
+      .map(([handId, hand]) => ({ handId, center: hand.palm, radius: fieldRadius, acceleration }));
+  }
+
+  private targetTilt() {
+    const hands = [...this.hands.values()];
+    if (!this.modes.tilt || hands.length === 0) return 0;
+    const roll = hands.reduce((sum, hand) => sum + this.roll(hand), 0) / hands.length;
+    return Math.max(-this.options.maxTilt, Math.min(this.options.maxTilt, roll));
+  }
+
+  private targetScale() {
+    const span = this.modes.scale ? this.span() : null;
+    if (!span) return 1;
+    const { minScale, maxScale } = this.options;
+    const gap = Math.min(1, Math.hypot(span[1].x - span[0].x, span[1].y - span[0].y) / this.world.width);
+    return minScale + (maxScale - minScale) * gap;
+  }
+
+  private handleBeforeUpdate = () => {
+    const { engine } = this.world;
+    const { smoothing } = this.options;
+    this.tilt += (this.targetTilt() - this.tilt) * smoothing;
+    this.scale += (this.targetScale() - this.scale) * smoothing;
+
+    // Rolling a hand tips the world like a tray, so the liquid runs the way the fingers lean
+    const base = this.world.getEngineSettings().gravity * this.scale;
+    engine.gravity.x = Math.sin(this.tilt) * base;
+    engine.gravity.y = Math.cos(this.tilt) * base;
+
+    const fields = this.modes.field ? this.fields() : [];
+    if (fields.length > 0) {
+      // The step's delta is already scaled by the engine's time scale; solvers expect it raw
+      const delta = engine.timing.timeScale > 0 ? engine.timing.lastDelta / engine.timing.timeScale : 0;
+      const solver = this.world.getSolver();
+      fields.forEach(({ center, radius, acceleration }) => solver.applyRadialField(center, radius, acceleration, delta));
+    }
+
+    if (this.modes.tilt || this.modes.scale || fields.length > 0) this.emit('change', this.state);
+  };
+
+  public destroy() {
+    Matter.Events.off(this.world.engine, 'beforeUpdate', this.handleBeforeUpdate);
+    this.world.setEngineSettings({ gravity: this.world.getEngineSettings().gravity });
+    this.hands.clear();
+    this.removeAllListeners();
+  }
+}
@@ -0,0 +1,166 @@
+import type { NormalizedLandmarkList } from '@mediapipe/hands';
+import { Emitter } from './emitter';
+import type { Point } from './geometry';
+import type { HandFrame, HandFrameProcessor } from './handInput';
+
+export type HandednessLabel = 'Left' | 'Right';
+
+export interface TrackedHandEvent {
+  id: number;
+  handedness: HandednessLabel | null;
+  timestamp: number;
+}
+
+export interface HandIdentityEvents {
+  added: TrackedHandEvent;
+  removed: TrackedHandEvent;
+}
+
+export interface HandIdentityOptions {
+  // Largest palm movement between frames still treated as the same hand, in normalized units
+  maxDistance: number;
+  // Extra matching cost when MediaPipe's handedness label disagrees with the track
+  handednessPenalty: number;
+  // How long an unmatched track keeps its ID before it is released
+  dropAfterMs: number;
+}
+
+const DEFAULT_OPTIONS: HandIdentityOptions = {
+  maxDistance: 0.25,
+  handednessPenalty: 0.15,
+  dropAfterMs: 300
+};
+
+const PALM_LANDMARKS = [0, 5, 9, 13, 17];
+
+interface Track {
+  id: number;
+  handedness: HandednessLabel | null;
+  handednessScore: number;
+  position: Point;
+  lastSeen: number;
+}
+
+function palmCentre(landmarks: NormalizedLandmarkList): Point {
+  const points = PALM_LANDMARKS.map(index => landmarks[index]).filter(Boolean);
+  return {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+  };
+}
+
+/**
+ * Gives each detected hand a persistent ID across frames. Detections are matched to existing
+ * tracks by palm distance plus a handedness penalty, cheapest pairs first, so IDs survive
+ * MediaPipe reordering `multiHandLandmarks` and brief detection dropouts.
+ */
+export class HandIdentityTracker extends Emitter<HandIdentityEvents> implements HandFrameProcessor {
+  private options: HandIdentityOptions;
+  private tracks: Track[] = [];
+  private nextId = 0;
+
+  constructor(options: Partial<HandIdentityOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  public getHandedness(id: number): HandednessLabel | null {
+    return this.tracks.find(track => track.id === id)?.handedness ?? null;
+  }
+
+  public get activeIds(): number[] {
+    return this.tracks.map(track => track.id);
+  }
+
+  // Frees an ID immediately, e.g. once presence tracking has declared the hand gone
+  public release(id: number) {
+    const track = this.tracks.find(candidate => candidate.id === id);
+    if (!track) return;
+
+    this.tracks = this.tracks.filter(candidate => candidate !== track);
+    this.emit('removed', { id, handedness: track.handedness, timestamp: track.lastSeen });
+  }
+
+  public reset() {
+    this.tracks.forEach(track => {
+      this.emit('removed', { id: track.id, handedness: track.handedness, timestamp: track.lastSeen });
+    });
+    this.tracks = [];
+  }
+
+  public process(frame: HandFrame): HandFrame {
+    const detections = frame.multiHandLandmarks.map((landmarks, index) => ({
+      position: palmCentre(landmarks),
+      handedness: frame.multiHandedness[index]?.label ?? null,
+      score: frame.multiHandedness[index]?.score ?? 0
+    }));
+
+    const pairs: { track: Track; detection: number; cost: number }[] = [];
+    this.tracks.forEach(track => {
+      detections.forEach((detection, index) => {
+        const distance = Math.hypot(
+          detection.position.x - track.position.x,
+          detection.position.y - track.position.y
+        );
+        if (distance > this.options.maxDistance) return;
+
+        const mismatch = track.handedness && detection.handedness && track.handedness !== detection.handedness;
+        pairs.push({
+          track,
+          detection: index,
+          cost: distance + (mismatch ? this.options.handednessPenalty : 0)
+        });
+      });
+    });
+    pairs.sort((a, b) => a.cost - b.cost);
+
+    const handIds: number[] = new Array(detections.length).fill(-1);
+    const matchedTracks = new Set<Track>();
+    pairs.forEach(({ track, detection }) => {
+      if (matchedTracks.has(track) || handIds[detection] !== -1) return;
+      matchedTracks.add(track);
+      handIds[detection] = track.id;
+      this.updateTrack(track, detections[detection], frame.timestamp);
+    });
+
+    detections.forEach((detection, index) => {
+      if (handIds[index] !== -1) return;
+
+      const track: Track = {
+        id: this.nextId++,
+        handedness: detection.handedness,
+        handednessScore: detection.score,
+        position: detection.position,
+        lastSeen: frame.timestamp
+      };
+      this.tracks.push(track);
+      handIds[index] = track.id;
+      this.emit('added', { id: track.id, handedness: track.handedness, timestamp: frame.timestamp });
+    });
+
+    this.tracks = this.tracks.filter(track => {
+      if (frame.timestamp - track.lastSeen <= this.options.dropAfterMs) return true;
+      this.emit('removed', { id: track.id, handedness: track.handedness, timestamp: frame.timestamp });
+      return false;
+    });
+
+    return { ...frame, handIds };
+  }
+
+  private updateTrack(
+    track: Track,
+    detection: { position: Point; handedness: HandednessLabel | null; score: number },
+    timestamp: number
+  ) {
+    track.position = detection.position;
+    track.lastSeen = timestamp;
+
+    // Handedness flickers on edge-on hands, so only a confident label may relabel a track
+    if (detection.handedness && (detection.score >= track.handednessScore || !track.handedness)) {
+      track.handedness = detection.handedness;
+      track.handednessScore = detection.score;
+    } else {
+      track.handednessScore *= 0.95;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import type { Handedness, NormalizedLandmarkList } from '@mediapipe/hands';
+import { Emitter } from './emitter';
+import type { LoadProgress } from './mediapipeLoader';
+
+export type HandSourceKind = 'camera' | 'playback';
+
+export type HandSourceStatus = 'idle' | 'loading' | 'camera-ready' | 'running' | 'error';
+
+// One tracking result, in the same shape MediaPipe hands it to `onResults`
+export interface HandFrame {
+  timestamp: number; // Milliseconds, monotonic within a source
+  multiHandLandmarks: NormalizedLandmarkList[];
+  multiHandedness: Handedness[];
+  image?: CanvasImageSource; // Only present for live sources
+  handIds?: number[]; // Persistent IDs parallel to multiHandLandmarks, once identity tracking has run
+  inferenceMs?: number; // Tracker latency for this frame; only live sources measure it
+}
+
+export interface HandSourceEvents {
+  frame: HandFrame;
+  status: HandSourceStatus;
+  error: Error;
+  progress: LoadProgress; // Asset loading, for sources that download a tracker
+}
+
+export interface HandInputSource {
+  readonly kind: HandSourceKind;
+  readonly status: HandSourceStatus;
+  readonly deviceId: string | null; // Camera device, when the source has one
+  start(): Promise<void>;
+  stop(): void;
+  on<K extends keyof HandSourceEvents>(
+    type: K,
+    listener: (payload: HandSourceEvents[K]) => void
+  ): () => void;
+}
+
+// A stage between a source and its consumers, e.g. identity tracking or smoothing
+export interface HandFrameProcessor {
+  process(frame: HandFrame): HandFrame;
+  reset(): void;
+}
+
+// Stable hand ID for the detection at `index`, falling back to the raw index
+export function handIdAt(frame: HandFrame, index: number): number {
+  return frame.handIds?.[index] ?? index;
+}
+
+// Runs every frame of another source through a chain of processors
+export class ProcessedHandSource extends Emitter<HandSourceEvents> implements HandInputSource {
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(
+    public readonly source: HandInputSource,
+    public readonly processors: HandFrameProcessor[]
+  ) {
+    super();
+  }
+
+  public get kind() {
+    return this.source.kind;
+  }
+
+  public get status(): HandSourceStatus {
+    return this.source.status;
+  }
+
+  public get deviceId() {
+    return this.source.deviceId;
+  }
+
+  public async start() {
+    this.processors.forEach(processor => processor.reset());
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [
+      this.source.on('frame', frame => {
+        this.emit('frame', this.processors.reduce((current, processor) => processor.process(current), frame));
+      }),
+      this.source.on('status', status => this.emit('status', status)),
+      this.source.on('error', error => this.emit('error', error)),
+      this.source.on('progress', progress => this.emit('progress', progress))
+    ];
+    await this.source.start();
+  }
+
+  public stop() {
+    this.source.stop();
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { HandMotion } from './handMotion';
+
+const STEP = 1000 / 60;
+
+describe('HandMotion', () => {
+  it('crosses the segment between samples in the time that separated them', () => {
+    const motion = new HandMotion({ x: 0, y: 0 }, null, 0, 0);
+    motion.addPoint({ x: 100, y: 50 }, 100, 0);
+
+    const halfway = motion.advance(50, 50, Infinity);
+    expect(halfway.position).toEqual({ x: 50, y: 25 });
+    expect(halfway.velocity).toEqual({ x: 1000, y: 500 });
+
+    expect(motion.advance(100, 50, Infinity).position).toEqual({ x: 100, y: 50 });
+    // Past the last sample the hand waits there
+    const after = motion.advance(150, 50, Infinity);
+    expect(after.position).toEqual({ x: 100, y: 50 });
+    expect(after.velocity).toEqual({ x: 0, y: 0 });
+  });
+
+  it('interpolates the skeleton along with the position', () => {
+    const motion = new HandMotion({ x: 0, y: 0 }, [{ x: 0, y: 10 }], 0, 0);
+    motion.addPoint({ x: 100, y: 0 }, 100, 0);
+    motion.addLandmarks([{ x: 100, y: 10 }]);
+
+    expect(motion.advance(25, 25, Infinity).landmarks).toEqual([{ x: 25, y: 10 }]);
+  });
+
+  it('holds the hand to the maximum speed and catches up afterwards', () => {
+    const motion = new HandMotion({ x: 0, y: 0 }, [{ x: 0, y: 0 }], 0, 0);
+    motion.addPoint({ x: 300, y: 400 }, 10, 0);
+    motion.addLandmarks([{ x: 300, y: 400 }]);
+
+    const step = motion.advance(STEP, STEP, 600);
+    expect(Math.hypot(step.velocity.x, step.velocity.y)).toBeCloseTo(600);
+    expect(step.position.x).toBeCloseTo(6);
+    expect(step.position.y).toBeCloseTo(8);
+    // The skeleton is held back by the same amount
+    expect(step.landmarks?.[0].x).toBeCloseTo(6);
+
+    let position = step.position;
+    for (let i = 2; i <= 60; i++) position = motion.advance(i * STEP, STEP, 600).position;
+    expect(position).toEqual({ x: 300, y: 400 });
+  });
+});
@@ -0,0 +1,139 @@
+import type { Point } from './geometry';
+
+// Matter velocities are in px per 1000/60 ms of engine time, whatever the step size
+const ENGINE_VELOCITY_MS = 1000 / 60;
+
+export const DEFAULT_HAND_MAX_SPEED = 6000; // px/s
+
+// A gap in tracking longer than this is crossed in this time rather than crawled over
+const MAX_SAMPLE_INTERVAL_MS = 250;
+
+interface MotionSample {
+  time: number;
+  point: Point;
+  landmarks: Point[] | null;
+}
+
+// Where a motion is along its segment, as snapshots store it
+export interface HandMotionState {
+  start: MotionSample;
+  target: MotionSample;
+  interval: number;
+  startedAt: number;
+  position: Point;
+  landmarks: Point[] | null;
+}
+
+export interface HandMotionStep {
+  position: Point;
+  velocity: Point; // px/s
+  landmarks: Point[] | null;
+}
+
+function lerp(a: Point, b: Point, t: number): Point {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+// Converts px/s into the velocity Matter expects of a body stepped with the given time scale
+export function toEngineVelocity(velocity: Point, timeScale: number): Point {
+  const scale = ENGINE_VELOCITY_MS / 1000 / (timeScale || 1);
+  return { x: velocity.x * scale, y: velocity.y * scale };
+}
+
+// What a displacement over one step of `delta` ms is multiplied by to give an engine velocity
+export function engineVelocityScale(delta: number, timeScale: number): number {
+  return delta > 0 ? ENGINE_VELOCITY_MS / (delta * (timeScale || 1)) : 0;
+}
+
+/**
+ * Moves one hand kinematically through its timestamped tracking samples. Each new sample starts
+ * a segment from wherever the hand is now to the sampled position, crossed in the time that
+ * separated the samples at the source, so the hand runs at its real speed one tracking interval
+ * behind. Sample times only need to be consistent with each other; the segment is played back
+ * on the world's clock, which advances once per physics step.
+ */
+export class HandMotion {
+  private start: MotionSample;
+  private target: MotionSample;
+  private interval = 1; // Source milliseconds between the segment's samples
+  private startedAt = 0; // World clock when the segment began
+  private position: Point;
+  private landmarks: Point[] | null;
+
+  constructor(point: Point, landmarks: Point[] | null, time: number, clock: number) {
+    this.position = { ...point };
+    this.landmarks = landmarks;
+    this.start = { time, point: this.position, landmarks };
+    this.target = this.start;
+    this.startedAt = clock;
+  }
+
+  public get current(): Point {
+    return this.position;
+  }
+
+  public save(): HandMotionState {
+    const { start, target, interval, startedAt, position, landmarks } = this;
+    return structuredClone({ start, target, interval, startedAt, position, landmarks });
+  }
+
+  // Picks a saved motion up mid-segment, so a restored hand carries on exactly where it was
+  public static restore(state: HandMotionState): HandMotion {
+    const motion = new HandMotion(state.position, state.landmarks, state.start.time, state.startedAt);
+    motion.start = state.start;
+    motion.target = state.target;
+    motion.interval = state.interval;
+    return motion;
+  }
+
+  // A tracked position taken at `time` on the source's clock, arriving at `clock` on the world's
+  public addPoint(point: Point, time: number, clock: number) {
+    // A second sample at the same time only corrects where the segment ends
+    if (time === this.target.time) {
+      this.target = { ...this.target, point: { ...point } };
+      return;
+    }
+
+    // A clock that went backwards, e.g. a replay starting over, begins a fresh timeline
+    this.interval = time > this.target.time ? Math.min(MAX_SAMPLE_INTERVAL_MS, time - this.target.time) : 1;
+    this.start = { time: this.target.time, point: this.position, landmarks: this.landmarks };
+    this.target = { time, point: { ...point }, landmarks: this.target.landmarks };
+    this.startedAt = clock;
+  }
+
+  // Landmarks arrive separately from the position; they belong with the latest sample
+  public addLandmarks(landmarks: Point[]) {
+    this.target = { ...this.target, landmarks };
+    if (!this.landmarks) this.landmarks = landmarks;
+  }
+
+  // Moves along the segment to `clock`, no faster than `maxSpeed` px/s
+  public advance(clock: number, delta: number, maxSpeed: number): HandMotionStep {
+    const t = Math.min(1, Math.max(0, (clock - this.startedAt) / this.interval));
+    const wanted = lerp(this.start.point, this.target.point, t);
+
+    const dx = wanted.x - this.position.x;
+    const dy = wanted.y - this.position.y;
+    const distance = Math.hypot(dx, dy);
+    const limit = maxSpeed * (delta / 1000);
+    const next = distance > limit && distance > 0
+      ? { x: this.position.x + (dx / distance) * limit, y: this.position.y + (dy / distance) * limit }
+      : wanted;
+
+    // The skeleton moves with the position, held back by the same amount when over the limit
+    const { landmarks: from } = this.start;
+    const { landmarks: to } = this.target;
+    if (to) {
+      const lag = { x: next.x - wanted.x, y: next.y - wanted.y };
+      this.landmarks = (from && from.length === to.length ? from.map((point, index) => lerp(point, to[index], t)) : to)
+        .map(point => ({ x: point.x + lag.x, y: point.y + lag.y }));
+    }
+
+    const seconds = delta / 1000;
+    const velocity = seconds > 0
+      ? { x: (next.x - this.position.x) / seconds, y: (next.y - this.position.y) / seconds }
+      : { x: 0, y: 0 };
+    this.position = next;
+    return { position: next, velocity, landmarks: this.landmarks };
+  }
+}
@@ -0,0 +1,156 @@
+import { Emitter } from './emitter';
+import { HandFrame, HandFrameProcessor, handIdAt } from './handInput';
+
+export type HandPresenceState = 'entering' | 'tracked' | 'lost' | 'gone';
+
+export interface HandPresenceEvent {
+  id: number;
+  state: HandPresenceState;
+  previous: HandPresenceState | null;
+  timestamp: number;
+}
+
+export type HandPresenceEvents = Record<HandPresenceState, HandPresenceEvent> & {
+  change: HandPresenceEvent;
+};
+
+export interface HandPresenceOptions {
+  // How long a new hand must stay visible before it is trusted
+  enterMs: number;
+  // How long a hand may go undetected before it counts as lost
+  graceMs: number;
+  // How long a lost hand may stay lost before it is gone for good
+  timeoutMs: number;
+}
+
+export const DEFAULT_PRESENCE_OPTIONS: HandPresenceOptions = {
+  enterMs: 100,
+  graceMs: 150,
+  timeoutMs: 1000
+};
+
+interface PresenceRecord {
+  state: HandPresenceState;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+/**
+ * Drives each hand ID through entering -> tracked -> lost -> gone using frame timestamps,
+ * so replays reproduce the same transitions as the live session. A timer moves hands on at
+ * their deadlines when no frame arrives to do it, e.g. after the camera stops.
+ */
+export class HandPresenceTracker extends Emitter<HandPresenceEvents> implements HandFrameProcessor {
+  private options: HandPresenceOptions;
+  private hands = new Map<number, PresenceRecord>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: Partial<HandPresenceOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_PRESENCE_OPTIONS, ...options };
+  }
+
+  public getOptions(): HandPresenceOptions {
+    return this.options;
+  }
+
+  public setOptions(options: Partial<HandPresenceOptions>) {
+    this.options = { ...this.options, ...options };
+  }
+
+  public getState(id: number): HandPresenceState {
+    return this.hands.get(id)?.state ?? 'gone';
+  }
+
+  public reset() {
+    this.clearTimer();
+    this.hands.forEach((record, id) => this.transition(id, record, 'gone', record.lastSeen));
+    this.hands.clear();
+  }
+
+  public process(frame: HandFrame): HandFrame {
+    const { timestamp } = frame;
+    const seen = new Set(frame.multiHandLandmarks.map((_, index) => handIdAt(frame, index)));
+
+    seen.forEach(id => {
+      const record = this.hands.get(id);
+      if (!record) {
+        const created: PresenceRecord = { state: 'entering', firstSeen: timestamp, lastSeen: timestamp };
+        this.hands.set(id, created);
+        this.transition(id, created, 'entering', timestamp, null);
+        return;
+      }
+
+      // A lost hand that comes back has to earn trust again
+      if (record.state === 'lost') {
+        record.firstSeen = timestamp;
+        this.transition(id, record, 'entering', timestamp);
+      }
+      record.lastSeen = timestamp;
+
+      if (record.state === 'entering' && timestamp - record.firstSeen >= this.options.enterMs) {
+        this.transition(id, record, 'tracked', timestamp);
+      }
+    });
+
+    this.expire(timestamp, seen);
+    return frame;
+  }
+
+  public destroy() {
+    this.clearTimer();
+  }
+
+  private lostAt(record: PresenceRecord) {
+    return record.lastSeen + this.options.graceMs;
+  }
+
+  private goneAt(record: PresenceRecord) {
+    return this.lostAt(record) + this.options.timeoutMs;
+  }
+
+  // Moves unseen hands on as of `timestamp`, then waits for the next deadline
+  private expire(timestamp: number, seen: Set<number> = new Set()) {
+    this.hands.forEach((record, id) => {
+      if (seen.has(id)) return;
+
+      if (timestamp >= this.goneAt(record)) {
+        this.transition(id, record, 'gone', timestamp);
+        this.hands.delete(id);
+      } else if (timestamp >= this.lostAt(record) && record.state !== 'lost') {
+        this.transition(id, record, 'lost', timestamp);
+      }
+    });
+
+    this.clearTimer();
+    const deadlines = [...this.hands.values()].map(record => (
+      record.state === 'lost' ? this.goneAt(record) : this.lostAt(record)
+    ));
+    if (deadlines.length === 0) return;
+
+    // Frame timestamps tick in milliseconds, so the wait is the deadline's distance from this frame
+    const deadline = Math.min(...deadlines);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.expire(deadline);
+    }, deadline - timestamp);
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private transition(
+    id: number,
+    record: PresenceRecord,
+    state: HandPresenceState,
+    timestamp: number,
+    previous: HandPresenceState | null = record.state
+  ) {
+    record.state = state;
+    const event = { id, state, previous, timestamp };
+    this.emit(state, event);
+    this.emit('change', event);
+  }
+}
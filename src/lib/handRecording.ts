@@ -0,0 +1,256 @@
+import type { Handedness, NormalizedLandmarkList } from '@mediapipe/hands';
+import { downloadJson } from './download';
+import { Emitter } from './emitter';
+import type {
+  HandFrame,
+  HandInputSource,
+  HandSourceEvents,
+  HandSourceStatus
+} from './handInput';
+
+const RECORDING_VERSION = 1;
+
+export interface RecordedFrame {
+  t: number; // Milliseconds since the first recorded frame
+  multiHandLandmarks: NormalizedLandmarkList[];
+  multiHandedness: Handedness[];
+}
+
+export interface HandRecording {
+  version: number;
+  createdAt: string;
+  duration: number;
+  frames: RecordedFrame[];
+}
+
+export function parseRecording(json: string): HandRecording {
+  const data = JSON.parse(json);
+
+  if (!data || typeof data !== 'object' || !Array.isArray(data.frames)) {
+    throw new Error('Not a hand recording: missing frames');
+  }
+  if (data.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported hand recording version: ${data.version}`);
+  }
+
+  const frames = data.frames as RecordedFrame[];
+  frames.forEach((frame, index) => {
+    if (typeof frame.t !== 'number' || !Array.isArray(frame.multiHandLandmarks)) {
+      throw new Error(`Malformed hand recording frame at index ${index}`);
+    }
+    frame.multiHandedness = frame.multiHandedness ?? [];
+  });
+
+  return {
+    version: data.version,
+    createdAt: String(data.createdAt ?? ''),
+    duration: frames.length ? frames[frames.length - 1].t : 0,
+    frames
+  };
+}
+
+export function downloadRecording(recording: HandRecording, filename = `hands-${Date.now()}.json`) {
+  downloadJson(recording, filename);
+}
+
+// Passes frames from another source through unchanged, capturing them while recording
+export class HandRecorder extends Emitter<HandSourceEvents> implements HandInputSource {
+  private frames: RecordedFrame[] = [];
+  private recordingStart: number | null = null;
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(public readonly source: HandInputSource) {
+    super();
+  }
+
+  public get kind() {
+    return this.source.kind;
+  }
+
+  public get status(): HandSourceStatus {
+    return this.source.status;
+  }
+
+  public get deviceId() {
+    return this.source.deviceId;
+  }
+
+  public get isRecording() {
+    return this.recordingStart !== null;
+  }
+
+  public async start() {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [
+      this.source.on('frame', this.handleFrame),
+      this.source.on('status', status => this.emit('status', status)),
+      this.source.on('error', error => this.emit('error', error)),
+      this.source.on('progress', progress => this.emit('progress', progress))
+    ];
+    await this.source.start();
+  }
+
+  public stop() {
+    this.source.stop();
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  public startRecording() {
+    this.frames = [];
+    this.recordingStart = performance.now();
+  }
+
+  public stopRecording(): HandRecording {
+    this.recordingStart = null;
+    const frames = this.frames;
+    this.frames = [];
+
+    return {
+      version: RECORDING_VERSION,
+      createdAt: new Date().toISOString(),
+      duration: frames.length ? frames[frames.length - 1].t : 0,
+      frames
+    };
+  }
+
+  private handleFrame = (frame: HandFrame) => {
+    if (this.recordingStart !== null) {
+      if (!this.frames.length) this.recordingStart = frame.timestamp;
+
+      this.frames.push({
+        t: frame.timestamp - this.recordingStart,
+        multiHandLandmarks: frame.multiHandLandmarks,
+        multiHandedness: frame.multiHandedness
+      });
+    }
+
+    this.emit('frame', frame);
+  };
+}
+
+interface PlaybackOptions {
+  loop?: boolean;
+}
+
+// Replays a recording at its original timing, or one frame at a time while paused
+export class PlaybackHandSource extends Emitter<HandSourceEvents> implements HandInputSource {
+  public readonly kind = 'playback' as const;
+  public readonly deviceId = null;
+  public status: HandSourceStatus = 'idle';
+  public readonly loop: boolean;
+  private cursor = 0;
+  private loopOffset = 0;
+  private clockStart = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private paused = false;
+
+  constructor(public readonly recording: HandRecording, { loop = true }: PlaybackOptions = {}) {
+    super();
+    this.loop = loop;
+  }
+
+  public get isPaused() {
+    return this.paused;
+  }
+
+  public get position() {
+    return this.cursor;
+  }
+
+  private setStatus(status: HandSourceStatus) {
+    this.status = status;
+    this.emit('status', status);
+  }
+
+  public async start() {
+    this.cursor = 0;
+    this.loopOffset = 0;
+    this.setStatus('running');
+    if (!this.paused) this.schedule();
+  }
+
+  public stop() {
+    this.clearTimer();
+    this.setStatus('idle');
+  }
+
+  public pause() {
+    this.paused = true;
+    this.clearTimer();
+  }
+
+  public resume() {
+    if (!this.paused) return;
+    this.paused = false;
+    if (this.status === 'running') this.schedule();
+  }
+
+  // Emits the next frame immediately and leaves playback paused
+  public step() {
+    this.pause();
+    this.emitNext();
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule() {
+    const { frames } = this.recording;
+    if (!frames.length) return;
+
+    // Re-anchor the wall clock so playback resumes from the current frame
+    this.clockStart = performance.now() - frames[this.cursor].t;
+
+    const tick = () => {
+      const frame = frames[this.cursor];
+      const delay = frame.t - (performance.now() - this.clockStart);
+
+      if (delay > 0) {
+        this.timer = setTimeout(tick, delay);
+        return;
+      }
+
+      const wrapped = this.emitNext();
+      if (this.cursor === 0 && !wrapped) {
+        this.setStatus('idle');
+        return;
+      }
+      if (wrapped) this.clockStart = performance.now();
+
+      this.timer = setTimeout(tick, 0);
+    };
+
+    tick();
+  }
+
+  // Returns true when playback wrapped back to the first frame
+  private emitNext(): boolean {
+    const { frames, duration } = this.recording;
+    if (!frames.length) return false;
+
+    const frame = frames[this.cursor];
+    this.emit('frame', {
+      timestamp: this.loopOffset + frame.t,
+      multiHandLandmarks: frame.multiHandLandmarks,
+      multiHandedness: frame.multiHandedness
+    });
+
+    this.cursor++;
+    if (this.cursor < frames.length) return false;
+
+    this.cursor = 0;
+    if (!this.loop) {
+      this.clearTimer();
+      return false;
+    }
+
+    // Keep timestamps monotonic across loops for timestamp-driven consumers
+    this.loopOffset += duration + 1000 / 30;
+    return true;
+  }
+}
@@ -0,0 +1,266 @@
+import type { Handedness, Hands, NormalizedLandmarkList, Options, Results } from '@mediapipe/hands';
+import {
+  AssetSource,
+  createHands,
+  DEFAULT_LOADER_OPTIONS,
+  HANDS_FILES,
+  LoaderOptions,
+  LoadProgress,
+  loadHandsScript,
+  MODEL_FILE_COUNT
+} from './mediapipeLoader';
+import { TrackingError } from './trackingError';
+
+// Landmarks for one video frame, without the image MediaPipe renders them onto
+export interface TrackedHands {
+  timestamp: number; // When the frame was captured, on the page's clock
+  multiHandLandmarks: NormalizedLandmarkList[];
+  multiHandedness: Handedness[];
+}
+
+/**
+ * Runs MediaPipe Hands on video frames, on a worker where the browser allows it. Only one frame
+ * is tracked at a time; callers wait for `track` to settle before sending the next one, and a
+ * worker rejects a frame still waiting when a newer one arrives.
+ */
+export interface HandTracker {
+  readonly inWorker: boolean;
+  setOptions(options: Options): void;
+  track(video: HTMLVideoElement): Promise<TrackedHands>;
+  close(): void;
+}
+
+// Asset sources cross into the worker as plain file → URL maps, since functions can't be posted
+export interface WorkerAssetSource {
+  name: string;
+  files: Record<string, string>;
+}
+
+export type TrackerRequest =
+  | { type: 'init'; sources: WorkerAssetSource[]; options: Options; modelFiles: number; initTimeoutMs: number }
+  | { type: 'options'; options: Options }
+  | { type: 'frame'; image: ImageBitmap; timestamp: number };
+
+/**
+ * Results leave the worker without the image or world landmarks: `landmarks` packs x, y, z of
+ * every point of every hand back to back, for `hands` hands, with handedness alongside.
+ */
+export type TrackerResponse =
+  | { type: 'progress'; progress: LoadProgress }
+  | { type: 'ready'; source: string }
+  | { type: 'failed'; message: string }
+  | { type: 'results'; timestamp: number; hands: number; landmarks: Float32Array; handedness: Handedness[] }
+  | { type: 'frame-error'; timestamp: number; message: string };
+
+function unpackLandmarks(hands: number, landmarks: Float32Array): NormalizedLandmarkList[] {
+  const perHand = hands > 0 ? landmarks.length / hands : 0;
+  const lists: NormalizedLandmarkList[] = [];
+  for (let hand = 0; hand < hands; hand++) {
+    const list: NormalizedLandmarkList = [];
+    for (let offset = hand * perHand; offset < (hand + 1) * perHand; offset += 3) {
+      list.push({ x: landmarks[offset], y: landmarks[offset + 1], z: landmarks[offset + 2] });
+    }
+    lists.push(list);
+  }
+  return lists;
+}
+
+// MediaPipe on the page itself, for browsers without OffscreenCanvas or ImageBitmap
+class MainThreadHandTracker implements HandTracker {
+  public readonly inWorker = false;
+  private results: Results | null = null;
+
+  constructor(private hands: Hands) {
+    hands.onResults(results => {
+      this.results = results;
+    });
+  }
+
+  public setOptions(options: Options) {
+    this.hands.setOptions(options);
+  }
+
+  public async track(video: HTMLVideoElement): Promise<TrackedHands> {
+    const timestamp = performance.now();
+    // Listeners run before `send` settles
+    await this.hands.send({ image: video });
+    const results = this.takeResults();
+    return {
+      timestamp,
+      multiHandLandmarks: results?.multiHandLandmarks ?? [],
+      multiHandedness: results?.multiHandedness ?? []
+    };
+  }
+
+  private takeResults() {
+    const results = this.results;
+    this.results = null;
+    return results;
+  }
+
+  public close() {
+    this.hands.close();
+  }
+}
+
+// Long enough for the first frame, which also compiles the model's shaders
+const FRAME_TIMEOUT_MS = 5000;
+
+interface PendingFrame {
+  timestamp: number;
+  resolve: (hands: TrackedHands) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Posts one ImageBitmap at a time to the tracking worker and pairs each reply by its timestamp.
+ * A newer frame supersedes one still waiting, and a frame the worker doesn't answer in time
+ * fails with a TrackingError, so a hung worker can't stall the camera loop.
+ */
+class WorkerHandTracker implements HandTracker {
+  public readonly inWorker = true;
+  private pending: PendingFrame | null = null;
+
+  constructor(private worker: Worker) {
+    worker.onmessage = (event: MessageEvent<TrackerResponse>) => this.handleMessage(event.data);
+    // A crashed worker never answers, so the frame waiting on it fails instead of stalling the loop
+    worker.onerror = event => this.settle()?.reject(new Error(event.message || 'Tracking worker crashed'));
+  }
+
+  // Takes the waiting frame off the tracker, so it is settled exactly once
+  private settle(): PendingFrame | null {
+    const pending = this.pending;
+    if (pending) clearTimeout(pending.timer);
+    this.pending = null;
+    return pending;
+  }
+
+  private handleMessage(message: TrackerResponse) {
+    if (message.type !== 'results' && message.type !== 'frame-error') return;
+    const pending = this.pending;
+    if (!pending || pending.timestamp !== message.timestamp) return;
+
+    this.settle();
+    if (message.type === 'results') {
+      pending.resolve({
+        timestamp: message.timestamp,
+        multiHandLandmarks: unpackLandmarks(message.hands, message.landmarks),
+        multiHandedness: message.handedness
+      });
+    } else {
+      pending.reject(new Error(message.message));
+    }
+  }
+
+  public setOptions(options: Options) {
+    this.post({ type: 'options', options });
+  }
+
+  public async track(video: HTMLVideoElement): Promise<TrackedHands> {
+    const timestamp = performance.now();
+    const image = await createImageBitmap(video);
+    this.settle()?.reject(new Error('Superseded by a newer frame'));
+    return new Promise<TrackedHands>((resolve, reject) => {
+      // Settling clears the timer, so when it fires this frame is still the one waiting
+      const timer = setTimeout(() => this.settle()?.reject(
+        new TrackingError('tracking', `The tracking worker did not answer within ${FRAME_TIMEOUT_MS} ms`)
+      ), FRAME_TIMEOUT_MS);
+      this.pending = { timestamp, resolve, reject, timer };
+      this.post({ type: 'frame', image, timestamp }, [image]);
+    });
+  }
+
+  private post(message: TrackerRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(message, transfer);
+  }
+
+  public close() {
+    this.worker.terminate();
+    this.settle()?.reject(new Error('Tracker closed'));
+  }
+}
+
+export function supportsWorkerTracking() {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof createImageBitmap === 'function';
+}
+
+// Resolved to absolute URLs, since the worker resolves relative ones against its own script
+function workerAssetSource(source: AssetSource): WorkerAssetSource {
+  const files: Record<string, string> = {};
+  HANDS_FILES.forEach(file => {
+    files[file] = new URL(source.locate(file), location.href).href;
+  });
+  return { name: source.name, files };
+}
+
+function startWorkerTracker(
+  sources: AssetSource[],
+  handsOptions: Options,
+  { initTimeoutMs, onProgress }: LoaderOptions
+): Promise<HandTracker> {
+  // A classic worker, because MediaPipe pulls its wasm loaders in with importScripts
+  const worker = new Worker(new URL('./handTrackingWorker.ts', import.meta.url));
+
+  return new Promise<HandTracker>((resolve, reject) => {
+    const fail = (message: string) => {
+      worker.terminate();
+      reject(new Error(message));
+    };
+
+    worker.onerror = event => fail(event.message || 'Tracking worker failed to start');
+    worker.onmessage = (event: MessageEvent<TrackerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'ready') {
+        resolve(new WorkerHandTracker(worker));
+      } else if (message.type === 'failed') {
+        fail(message.message);
+      }
+    };
+
+    const init: TrackerRequest = {
+      type: 'init',
+      sources: sources.map(workerAssetSource),
+      options: handsOptions,
+      modelFiles: MODEL_FILE_COUNT,
+      initTimeoutMs
+    };
+    worker.postMessage(init);
+  });
+}
+
+async function startMainThreadTracker(
+  sources: AssetSource[],
+  handsOptions: Options,
+  options: LoaderOptions
+): Promise<HandTracker> {
+  const firstSource = await loadHandsScript(sources, options);
+  const hands = await createHands(sources, handsOptions, { ...options, firstSource });
+  return new MainThreadHandTracker(hands);
+}
+
+/**
+ * Brings up a hand tracker from the first asset source that works, off the main thread when
+ * possible. A worker that can't start, e.g. without WebGL on OffscreenCanvas, falls back to
+ * tracking on the page.
+ */
+export async function createHandTracker(
+  sources: AssetSource[],
+  handsOptions: Options,
+  options: Partial<LoaderOptions> = {}
+): Promise<HandTracker> {
+  const loaderOptions = { ...DEFAULT_LOADER_OPTIONS, ...options };
+
+  if (supportsWorkerTracking()) {
+    try {
+      return await startWorkerTracker(sources, handsOptions, loaderOptions);
+    } catch (error) {
+      console.warn('[Tracking] Worker unavailable, tracking on the main thread:', error);
+    }
+  }
+  return startMainThreadTracker(sources, handsOptions, loaderOptions);
+}
@@ -0,0 +1,136 @@
+import type { Hands, InputMap, Results } from '@mediapipe/hands';
+import type { TrackerRequest, TrackerResponse, WorkerAssetSource } from './handTracker';
+import { withTimeout } from './timeout';
+
+// Runs as a classic worker script; Vite bundles its imports into it
+
+// Only the parts of the worker global this script uses; the app compiles against the DOM lib
+interface TrackingWorkerScope {
+  Hands?: typeof Hands;
+  importScripts(...urls: string[]): void;
+  postMessage(message: TrackerResponse, transfer?: Transferable[]): void;
+  onmessage: ((event: MessageEvent<TrackerRequest>) => void) | null;
+}
+
+type InitRequest = Extract<TrackerRequest, { type: 'init' }>;
+
+const scope = self as unknown as TrackingWorkerScope;
+
+let hands: Hands | null = null;
+let frameTimestamp = 0;
+let answered = false;
+
+function post(message: TrackerResponse, transfer: Transferable[] = []) {
+  scope.postMessage(message, transfer);
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Packs x, y, z of every landmark into one transferable buffer
+function postResults(results: Partial<Results>) {
+  const lists = results.multiHandLandmarks ?? [];
+  const landmarks = new Float32Array(lists.reduce((sum, list) => sum + list.length * 3, 0));
+  let offset = 0;
+  lists.forEach(list => list.forEach(({ x, y, z }) => {
+    landmarks[offset++] = x;
+    landmarks[offset++] = y;
+    landmarks[offset++] = z;
+  }));
+
+  answered = true;
+  post({
+    type: 'results',
+    timestamp: frameTimestamp,
+    hands: lists.length,
+    landmarks,
+    handedness: results.multiHandedness ?? []
+  }, [landmarks.buffer]);
+}
+
+function loadScript(source: WorkerAssetSource) {
+  if (scope.Hands) return scope.Hands;
+
+  post({ type: 'progress', progress: { stage: 'script', source: source.name, loaded: 0, total: 1, file: 'hands.js' } });
+  scope.importScripts(source.files['hands.js']);
+  if (!scope.Hands) throw new Error('Hands object not found after script load');
+  post({ type: 'progress', progress: { stage: 'script', source: source.name, loaded: 1, total: 1, file: 'hands.js' } });
+  return scope.Hands;
+}
+
+// Same source order and fallback as the page loader, with importScripts in place of script tags
+async function initialize({ sources, options, modelFiles, initTimeoutMs }: InitRequest) {
+  const failures: string[] = [];
+
+  for (const source of sources) {
+    let candidate: Hands | null = null;
+    try {
+      const HandsConstructor = loadScript(source);
+      const requested = new Set<string>();
+      candidate = new HandsConstructor({
+        locateFile: file => {
+          requested.add(file);
+          post({
+            type: 'progress',
+            progress: {
+              stage: 'model',
+              source: source.name,
+              loaded: Math.min(requested.size, modelFiles),
+              total: modelFiles,
+              file
+            }
+          });
+          const url = source.files[file];
+          if (!url) throw new Error(`MediaPipe requested an unknown file: ${file}`);
+          return url;
+        }
+      });
+      candidate.setOptions(options);
+      await withTimeout(candidate.initialize(), initTimeoutMs, `Timed out initializing from ${source.name}`);
+
+      candidate.onResults(postResults);
+      hands = candidate;
+      post({ type: 'progress', progress: { stage: 'model', source: source.name, loaded: modelFiles, total: modelFiles } });
+      post({ type: 'ready', source: source.name });
+      return;
+    } catch (error) {
+      failures.push(`${source.name}: ${errorMessage(error)}`);
+      candidate?.close().catch(() => {
+        // Already broken; nothing more to release
+      });
+    }
+  }
+
+  post({ type: 'failed', message: `Could not load hand tracking in the worker (${failures.join('; ')})` });
+}
+
+async function track(image: ImageBitmap, timestamp: number) {
+  frameTimestamp = timestamp;
+  answered = false;
+  try {
+    if (!hands) throw new Error('Hand tracking is not initialized');
+    // The typings stop at DOM elements, but MediaPipe uploads anything with a width and height
+    await hands.send({ image } as unknown as InputMap);
+    // The page waits for an answer to every frame, even one MediaPipe had nothing to say about
+    if (!answered) postResults({});
+  } catch (error) {
+    post({ type: 'frame-error', timestamp, message: errorMessage(error) });
+  } finally {
+    image.close();
+  }
+}
+
+scope.onmessage = ({ data }) => {
+  switch (data.type) {
+    case 'init':
+      initialize(data);
+      break;
+    case 'options':
+      hands?.setOptions(data.options);
+      break;
+    case 'frame':
+      track(data.image, data.timestamp);
+      break;
+  }
+};
@@ -0,0 +1,53 @@
+import type { NormalizedLandmarkList } from '@mediapipe/hands';
+import { describe, expect, it } from 'vitest';
+import type { HandRecording } from './handRecording';
+import { evaluateFilters, FilterType, LandmarkFilter } from './landmarkFilters';
+
+const FRAME_MS = 33;
+
+// A hand drifting slowly across the frame, with tracking noise on every landmark
+function noisyTrack(frames: number): HandRecording {
+  let seed = 7;
+  const noise = () => {
+    seed = (seed * 16807) % 2147483647;
+    return (seed / 2147483647 - 0.5) * 0.01;
+  };
+
+  return {
+    version: 1,
+    createdAt: '',
+    duration: (frames - 1) * FRAME_MS,
+    frames: Array.from({ length: frames }, (_, index) => ({
+      t: index * FRAME_MS,
+      multiHandLandmarks: [Array.from({ length: 21 }, (_, point) => ({
+        x: 0.3 + index * 0.002 + point * 0.01 + noise(),
+        y: 0.5 + noise(),
+        z: 0
+      }))],
+      multiHandedness: [{ index: 0, score: 1, label: 'Right' }]
+    }))
+  };
+}
+
+function frame(timestamp: number, hands: NormalizedLandmarkList[]) {
+  return { timestamp, multiHandLandmarks: hands, multiHandedness: [] };
+}
+
+describe('landmark filters', () => {
+  it.each<FilterType>(['one-euro', 'exponential', 'kalman'])('%s filtering reduces jitter on a noisy track', type => {
+    const [raw, filtered] = evaluateFilters(noisyTrack(120), [{ type: 'none' }, { type }]);
+    expect(raw.lag).toBe(0);
+    expect(filtered.jitter).toBeLessThan(raw.jitter * 0.75);
+  });
+
+  it('keeps filtering a hand through a dropped frame', () => {
+    const filter = new LandmarkFilter({ type: 'exponential', exponential: { alpha: 0.5 } });
+    const at = (x: number) => [[{ x, y: 0.5, z: 0 }]];
+
+    filter.process(frame(0, at(0.2)));
+    filter.process(frame(33, []));
+    const [[point]] = filter.process(frame(66, at(0.4))).multiHandLandmarks;
+    // Still smoothed from where the hand was, rather than starting over at the raw value
+    expect(point.x).toBeCloseTo(0.3);
+  });
+});
@@ -0,0 +1,298 @@
+import type { NormalizedLandmark, NormalizedLandmarkList } from '@mediapipe/hands';
+import { HandIdentityTracker } from './handIdentity';
+import { HandFrame, HandFrameProcessor, handIdAt } from './handInput';
+import type { HandRecording } from './handRecording';
+
+export type FilterType = 'none' | 'one-euro' | 'exponential' | 'kalman';
+
+export interface FilterSettings {
+  type: FilterType;
+  oneEuro: { minCutoff: number; beta: number; derivativeCutoff: number };
+  exponential: { alpha: number };
+  kalman: { processNoise: number; measurementNoise: number };
+  // How far ahead to extrapolate each landmark from its estimated velocity, 0 to disable
+  predictionMs: number;
+}
+
+export const DEFAULT_FILTER_SETTINGS: FilterSettings = {
+  type: 'one-euro',
+  oneEuro: { minCutoff: 1.5, beta: 5, derivativeCutoff: 1 },
+  exponential: { alpha: 0.5 },
+  kalman: { processNoise: 20, measurementNoise: 2e-5 },
+  predictionMs: 0
+};
+
+// Filters a single coordinate; positions in normalized units, velocity in units per second
+interface ScalarFilter {
+  filter(value: number, dt: number): number;
+  readonly velocity: number;
+}
+
+function smoothingFactor(cutoff: number, dt: number) {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+class PassThroughFilter implements ScalarFilter {
+  public velocity = 0;
+  private previous: number | null = null;
+
+  public filter(value: number, dt: number) {
+    if (this.previous !== null) this.velocity = (value - this.previous) / dt;
+    this.previous = value;
+    return value;
+  }
+}
+
+// Casiez et al. 2012: a low-pass filter whose cutoff rises with speed
+class OneEuroFilter implements ScalarFilter {
+  public velocity = 0;
+  private estimate: number | null = null;
+
+  constructor(private params: FilterSettings['oneEuro']) {}
+
+  public filter(value: number, dt: number) {
+    if (this.estimate === null) {
+      this.estimate = value;
+      return value;
+    }
+
+    const rawVelocity = (value - this.estimate) / dt;
+    const derivativeAlpha = smoothingFactor(this.params.derivativeCutoff, dt);
+    this.velocity += derivativeAlpha * (rawVelocity - this.velocity);
+
+    const cutoff = this.params.minCutoff + this.params.beta * Math.abs(this.velocity);
+    this.estimate += smoothingFactor(cutoff, dt) * (value - this.estimate);
+    return this.estimate;
+  }
+}
+
+class ExponentialFilter implements ScalarFilter {
+  public velocity = 0;
+  private estimate: number | null = null;
+
+  constructor(private params: FilterSettings['exponential']) {}
+
+  public filter(value: number, dt: number) {
+    if (this.estimate === null) {
+      this.estimate = value;
+      return value;
+    }
+
+    const previous = this.estimate;
+    this.estimate += this.params.alpha * (value - this.estimate);
+    this.velocity += this.params.alpha * ((this.estimate - previous) / dt - this.velocity);
+    return this.estimate;
+  }
+}
+
+// Constant-velocity Kalman filter over [position, velocity]
+class KalmanFilter implements ScalarFilter {
+  private x = 0;
+  private v = 0;
+  private p = [[1, 0], [0, 1]];
+  private initialized = false;
+
+  constructor(private params: FilterSettings['kalman']) {}
+
+  public get velocity() {
+    return this.v;
+  }
+
+  public filter(value: number, dt: number) {
+    if (!this.initialized) {
+      this.x = value;
+      this.initialized = true;
+      return value;
+    }
+
+    const q = this.params.processNoise;
+    const [[p00, p01], [p10, p11]] = this.p;
+
+    // Predict
+    this.x += this.v * dt;
+    const a00 = p00 + dt * (p10 + p01) + dt * dt * p11 + q * dt ** 4 / 4;
+    const a01 = p01 + dt * p11 + q * dt ** 3 / 2;
+    const a10 = p10 + dt * p11 + q * dt ** 3 / 2;
+    const a11 = p11 + q * dt * dt;
+
+    // Update
+    const innovation = value - this.x;
+    const s = a00 + this.params.measurementNoise;
+    const k0 = a00 / s;
+    const k1 = a10 / s;
+    this.x += k0 * innovation;
+    this.v += k1 * innovation;
+    this.p = [
+      [(1 - k0) * a00, (1 - k0) * a01],
+      [a10 - k1 * a00, a11 - k1 * a01]
+    ];
+
+    return this.x;
+  }
+}
+
+function createScalarFilter(settings: FilterSettings): ScalarFilter {
+  switch (settings.type) {
+    case 'one-euro':
+      return new OneEuroFilter(settings.oneEuro);
+    case 'exponential':
+      return new ExponentialFilter(settings.exponential);
+    case 'kalman':
+      return new KalmanFilter(settings.kalman);
+    case 'none':
+      return new PassThroughFilter();
+  }
+}
+
+interface HandFilterState {
+  timestamp: number;
+  filters: ScalarFilter[]; // x, y, z per landmark
+}
+
+// A hand missing for this long starts its filters afresh; shorter dropouts keep their velocity
+const STATE_GRACE_MS = 150;
+
+// Per-hand, per-landmark smoothing with optional latency-compensating prediction
+export class LandmarkFilter implements HandFrameProcessor {
+  private settings: FilterSettings;
+  private hands = new Map<number, HandFilterState>();
+
+  constructor(settings: Partial<FilterSettings> = {}) {
+    this.settings = {
+      ...DEFAULT_FILTER_SETTINGS,
+      ...settings,
+      oneEuro: { ...DEFAULT_FILTER_SETTINGS.oneEuro, ...settings.oneEuro },
+      exponential: { ...DEFAULT_FILTER_SETTINGS.exponential, ...settings.exponential },
+      kalman: { ...DEFAULT_FILTER_SETTINGS.kalman, ...settings.kalman }
+    };
+  }
+
+  public getSettings(): FilterSettings {
+    return this.settings;
+  }
+
+  public setSettings(settings: Partial<FilterSettings>) {
+    const typeChanged = settings.type !== undefined && settings.type !== this.settings.type;
+
+    // Parameter objects are updated in place so running filters pick up new values immediately
+    Object.assign(this.settings.oneEuro, settings.oneEuro);
+    Object.assign(this.settings.exponential, settings.exponential);
+    Object.assign(this.settings.kalman, settings.kalman);
+    if (settings.type !== undefined) this.settings.type = settings.type;
+    if (settings.predictionMs !== undefined) this.settings.predictionMs = settings.predictionMs;
+
+    if (typeChanged) this.reset();
+  }
+
+  public reset() {
+    this.hands.clear();
+  }
+
+  public process(frame: HandFrame): HandFrame {
+    const handIds = frame.multiHandLandmarks.map((_, index) => handIdAt(frame, index));
+    const multiHandLandmarks = frame.multiHandLandmarks.map((landmarks, index) =>
+      this.processHand(handIds[index], landmarks, frame.timestamp)
+    );
+
+    // Drop state for hands that have been gone for longer than a dropped frame or two
+    this.hands.forEach((state, handId) => {
+      if (!handIds.includes(handId) && frame.timestamp - state.timestamp >= STATE_GRACE_MS) this.hands.delete(handId);
+    });
+
+    return { ...frame, multiHandLandmarks };
+  }
+
+  private processHand(handId: number, landmarks: NormalizedLandmarkList, timestamp: number) {
+    let state = this.hands.get(handId);
+    if (!state || state.filters.length !== landmarks.length * 3) {
+      state = {
+        timestamp,
+        filters: Array.from({ length: landmarks.length * 3 }, () => createScalarFilter(this.settings))
+      };
+      this.hands.set(handId, state);
+    }
+
+    // Guard against repeated or out-of-order timestamps
+    const dt = Math.max(timestamp - state.timestamp, 1) / 1000;
+    state.timestamp = timestamp;
+
+    const horizon = this.settings.predictionMs / 1000;
+    const filters = state.filters;
+
+    return landmarks.map((landmark, index): NormalizedLandmark => {
+      const [fx, fy, fz] = [filters[index * 3], filters[index * 3 + 1], filters[index * 3 + 2]];
+      return {
+        ...landmark,
+        x: fx.filter(landmark.x, dt) + fx.velocity * horizon,
+        y: fy.filter(landmark.y, dt) + fy.velocity * horizon,
+        z: fz.filter(landmark.z, dt) + fz.velocity * horizon
+      };
+    });
+  }
+}
+
+export interface FilterEvaluation {
+  settings: FilterSettings;
+  jitter: number; // Mean frame-to-frame acceleration magnitude, lower is smoother
+  lag: number; // Mean distance from the raw landmark, lower is more responsive
+}
+
+/**
+ * Runs a recording through each filter configuration so they can be compared on identical input.
+ * Hands are identified as they are live, so a hand keeps its history when MediaPipe reorders
+ * them. Distances are in normalized camera units.
+ */
+export function evaluateFilters(
+  recording: HandRecording,
+  candidates: Partial<FilterSettings>[]
+): FilterEvaluation[] {
+  return candidates.map(candidate => {
+    const identity = new HandIdentityTracker();
+    const filter = new LandmarkFilter(candidate);
+    // The last two filtered frames of each hand still in view, oldest first
+    let history = new Map<number, NormalizedLandmarkList[]>();
+    let jitterSum = 0;
+    let jitterCount = 0;
+    let lagSum = 0;
+    let lagCount = 0;
+
+    recording.frames.forEach(recorded => {
+      const frame = identity.process({
+        timestamp: recorded.t,
+        multiHandLandmarks: recorded.multiHandLandmarks,
+        multiHandedness: recorded.multiHandedness
+      });
+      const filtered = filter.process(frame).multiHandLandmarks;
+      const next = new Map<number, NormalizedLandmarkList[]>();
+
+      filtered.forEach((landmarks, hand) => {
+        const handId = handIdAt(frame, hand);
+        const past = history.get(handId) ?? [];
+        const previous = past[past.length - 1];
+        const beforePrevious = past[past.length - 2];
+        landmarks.forEach((point, index) => {
+          const raw = recorded.multiHandLandmarks[hand][index];
+          lagSum += Math.hypot(point.x - raw.x, point.y - raw.y);
+          lagCount++;
+
+          if (previous?.[index] && beforePrevious?.[index]) {
+            jitterSum += Math.hypot(
+              point.x - 2 * previous[index].x + beforePrevious[index].x,
+              point.y - 2 * previous[index].y + beforePrevious[index].y
+            );
+            jitterCount++;
+          }
+        });
+        next.set(handId, previous ? [previous, landmarks] : [landmarks]);
+      });
+      history = next;
+    });
+
+    return {
+      settings: filter.getSettings(),
+      jitter: jitterCount ? jitterSum / jitterCount : 0,
+      lag: lagCount ? lagSum / lagCount : 0
+    };
+  });
+}
@@ -0,0 +1,187 @@
+import { Emitter } from './emitter';
+import type { Point } from './geometry';
+import type { SceneDefinition, SceneObstacle } from './scene';
+
+export type EditorTool = 'select' | 'wall' | 'ramp' | 'container';
+
+export const EDITED_LEVEL_ID = 'custom';
+
+export interface LevelEditorState {
+  obstacles: SceneObstacle[];
+  selected: number | null;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export interface LevelEditorEvents {
+  change: LevelEditorState;
+}
+
+const MAX_HISTORY = 100;
+const WALL_THICKNESS = 16;
+// Shorter drags are treated as clicks
+const MIN_DRAG = 20;
+
+/**
+ * The obstacle a drawing tool makes from a drag between two screen points: walls fill the
+ * dragged box, ramps run along the drag line, and containers are open-topped cups.
+ */
+export function obstacleFromDrag(
+  tool: Exclude<EditorTool, 'select'>,
+  from: Point,
+  to: Point,
+  width: number,
+  height: number
+): SceneObstacle | null {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  if (Math.hypot(dx, dy) < MIN_DRAG) return null;
+
+  const position = { x: (from.x + to.x) / 2 / width, y: (from.y + to.y) / 2 / height };
+  switch (tool) {
+    case 'wall':
+      return {
+        shape: {
+          type: 'rectangle',
+          width: Math.max(Math.abs(dx), WALL_THICKNESS),
+          height: Math.max(Math.abs(dy), WALL_THICKNESS)
+        },
+        position
+      };
+    case 'ramp':
+      return {
+        shape: { type: 'rectangle', width: Math.hypot(dx, dy), height: WALL_THICKNESS },
+        position,
+        angle: Math.atan2(dy, dx)
+      };
+    case 'container':
+      return {
+        shape: {
+          type: 'cup',
+          width: Math.max(Math.abs(dx), WALL_THICKNESS * 3),
+          height: Math.max(Math.abs(dy), WALL_THICKNESS * 2)
+        },
+        position
+      };
+  }
+}
+
+/**
+ * Edits the obstacles of a scene with undo and redo. Obstacles are never mutated, so every
+ * history entry is just the array as it was. A drag that moves or rotates an obstacle over many
+ * events is wrapped in `beginChange` and `endChange`.
+ */
+export class LevelEditor extends Emitter<LevelEditorEvents> {
+  private initial: SceneObstacle[];
+  private obstacles: SceneObstacle[];
+  private selected: number | null = null;
+  private undoStack: SceneObstacle[][] = [];
+  private redoStack: SceneObstacle[][] = [];
+  private changing = false;
+  private changeRecorded = false;
+
+  constructor(private base: SceneDefinition) {
+    super();
+    this.initial = base.obstacles ?? [];
+    this.obstacles = this.initial;
+  }
+
+  public get state(): LevelEditorState {
+    return {
+      obstacles: this.obstacles,
+      selected: this.selected,
+      canUndo: this.undoStack.length > 0,
+      canRedo: this.redoStack.length > 0
+    };
+  }
+
+  // Undoing every edit counts as unchanged
+  public get changed(): boolean {
+    return this.obstacles !== this.initial;
+  }
+
+  // The edited layout as a scene of its own, so it can be registered and saved; built afresh per call
+  public get scene(): SceneDefinition {
+    if (!this.changed) return this.base;
+    return {
+      ...this.base,
+      id: EDITED_LEVEL_ID,
+      name: this.base.id === EDITED_LEVEL_ID ? this.base.name : `${this.base.name} (edited)`,
+      obstacles: this.obstacles
+    };
+  }
+
+  public get selectedObstacle(): SceneObstacle | null {
+    return this.selected === null ? null : this.obstacles[this.selected] ?? null;
+  }
+
+  private emitChange() {
+    this.emit('change', this.state);
+  }
+
+  private record() {
+    this.undoStack.push(this.obstacles);
+    if (this.undoStack.length > MAX_HISTORY) this.undoStack.shift();
+    this.redoStack = [];
+  }
+
+  private commit(obstacles: SceneObstacle[], selected: number | null) {
+    if (!this.changing || !this.changeRecorded) this.record();
+    this.changeRecorded = this.changing;
+    this.obstacles = obstacles;
+    this.selected = selected;
+    this.emitChange();
+  }
+
+  public add(obstacle: SceneObstacle) {
+    this.commit([...this.obstacles, obstacle], this.obstacles.length);
+  }
+
+  public select(index: number | null) {
+    if (index === this.selected) return;
+    this.selected = index;
+    this.emitChange();
+  }
+
+  public removeSelected() {
+    if (this.selected === null) return;
+    this.commit(this.obstacles.filter((_, index) => index !== this.selected), null);
+  }
+
+  public updateSelected(patch: Partial<SceneObstacle>) {
+    const obstacle = this.selectedObstacle;
+    if (!obstacle) return;
+    this.commit(this.obstacles.map(item => (item === obstacle ? { ...obstacle, ...patch } : item)), this.selected);
+  }
+
+  // Everything until `endChange` undoes as one step; a drag that changed nothing leaves no history
+  public beginChange() {
+    this.changing = true;
+    this.changeRecorded = false;
+  }
+
+  public endChange() {
+    this.changing = false;
+  }
+
+  public undo() {
+    const previous = this.undoStack.pop();
+    if (!previous) return;
+    this.redoStack.push(this.obstacles);
+    this.restore(previous);
+  }
+
+  public redo() {
+    const next = this.redoStack.pop();
+    if (!next) return;
+    this.undoStack.push(this.obstacles);
+    this.restore(next);
+  }
+
+  private restore(obstacles: SceneObstacle[]) {
+    this.endChange();
+    this.obstacles = obstacles;
+    if (this.selected !== null && this.selected >= obstacles.length) this.selected = null;
+    this.emitChange();
+  }
+}
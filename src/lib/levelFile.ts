@@ -0,0 +1,31 @@
+import { downloadJson } from './download';
+import { SceneDefinition, validateScene } from './scene';
+
+export const LEVEL_VERSION = 1;
+
+// A level file is a scene definition with a version, so facilitators can prepare layouts offline
+export interface LevelFile {
+  version: number;
+  scene: SceneDefinition;
+}
+
+export function parseLevel(json: string): SceneDefinition {
+  const data = JSON.parse(json);
+
+  if (!data || typeof data !== 'object' || !data.scene || typeof data.scene !== 'object') {
+    throw new Error('Not a level file: missing scene');
+  }
+  if (data.version !== LEVEL_VERSION) {
+    throw new Error(`Unsupported level version: ${data.version}`);
+  }
+
+  const scene = data.scene as SceneDefinition;
+  const errors = validateScene(scene);
+  if (errors.length > 0) throw new Error(`Invalid level: ${errors.join('; ')}`);
+  return scene;
+}
+
+export function downloadLevel(scene: SceneDefinition, filename = `level-${scene.id}.json`) {
+  const file: LevelFile = { version: LEVEL_VERSION, scene };
+  downloadJson(file, filename);
+}
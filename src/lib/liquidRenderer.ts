@@ -0,0 +1,371 @@
+import Matter from 'matter-js';
+import type { LiquidWorld } from './liquidWorld';
+import { PARTICLE_LABEL, ParticleShape } from './particleSolver';
+
+export type LiquidRenderMode = 'particles' | 'surface';
+
+export interface SurfaceStyle {
+  cellSize: number; // Marching squares grid spacing in CSS pixels
+  influence: number; // Reach of each particle's field, in particle radii
+  threshold: number; // Field value at the liquid's edge
+  fill: string;
+  highlight: string;
+  highlightWidth: number;
+}
+
+export interface RendererOptions {
+  mode: LiquidRenderMode;
+  debugOutlines: boolean; // Outline every particle on top of the liquid
+  background: string;
+  maxVelocity: number; // Speed that maps to the hottest particle colour
+  surface: SurfaceStyle;
+}
+
+export const DEFAULT_RENDERER_OPTIONS: RendererOptions = {
+  mode: 'particles',
+  debugOutlines: false,
+  background: '#1a1a1a',
+  maxVelocity: 15, // Threshold for max velocity color
+  surface: {
+    cellSize: 8,
+    influence: 2.5,
+    threshold: 0.6,
+    fill: 'rgba(34, 211, 238, 0.85)',
+    highlight: 'rgba(207, 250, 254, 0.9)',
+    highlightWidth: 2
+  }
+};
+
+// Cell corners clockwise from the top-left, as offsets in cells
+const CORNER_OFFSETS = [[0, 0], [1, 0], [1, 1], [0, 1]];
+
+const DRAIN_FILL = 'rgba(2, 6, 23, 0.7)';
+const DRAIN_STROKE = 'rgba(148, 163, 184, 0.7)';
+const EMITTER_FILL = 'rgba(148, 163, 184, 0.9)';
+const NOZZLE_LENGTH = 18;
+
+function velocityColor(vx: number, vy: number, maxVelocity: number) {
+  const velocity = Math.sqrt(vx * vx + vy * vy);
+
+  // Normalize velocity and clamp between 0 and 1
+  const normalizedVelocity = Math.min(velocity / maxVelocity, 1);
+
+  // Create a color gradient from blue to red based on velocity
+  const hue = (1 - normalizedVelocity) * 180; // 180 (cyan) to 0 (red)
+  const saturation = 100;
+  const lightness = 50 + normalizedVelocity * 20; // Brighter at higher velocities
+
+  return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+}
+
+function traceParticle(
+  context: CanvasRenderingContext2D,
+  shape: ParticleShape,
+  x: number,
+  y: number,
+  radius: number,
+  angle: number
+) {
+  if (shape === 'circle') {
+    context.moveTo(x + radius, y);
+    context.arc(x, y, radius, 0, Math.PI * 2);
+    return;
+  }
+
+  context.moveTo(x + radius * Math.cos(angle), y + radius * Math.sin(angle));
+  for (let i = 1; i < 6; i++) {
+    const corner = angle + (Math.PI / 3) * i;
+    context.lineTo(x + radius * Math.cos(corner), y + radius * Math.sin(corner));
+  }
+  context.closePath();
+}
+
+/**
+ * Canvas2D renderer for a LiquidWorld. Liquid is read from the particle solver, so it draws
+ * rigid and fluid particles alike; every other visible body is drawn from its Matter `render`
+ * properties on top. Replaces Matter.Render entirely.
+ */
+export class LiquidRenderer {
+  public readonly canvas: HTMLCanvasElement;
+  // Fades the liquid in and out independently of the bodies
+  public particleOpacity = 1;
+  private context: CanvasRenderingContext2D;
+  private options: RendererOptions;
+  private width = 0;
+  private height = 0;
+  private pixelRatio = 1;
+  private field = new Float32Array(0);
+
+  constructor(
+    container: HTMLElement,
+    private world: LiquidWorld,
+    width: number,
+    height: number,
+    options: Partial<RendererOptions> = {}
+  ) {
+    this.options = {
+      ...DEFAULT_RENDERER_OPTIONS,
+      ...options,
+      surface: { ...DEFAULT_RENDERER_OPTIONS.surface, ...options.surface }
+    };
+    this.canvas = document.createElement('canvas');
+    const context = this.canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D is not supported');
+    this.context = context;
+    this.setSize(width, height);
+    container.appendChild(this.canvas);
+  }
+
+  public getOptions(): RendererOptions {
+    return this.options;
+  }
+
+  public setOptions(options: Partial<RendererOptions>) {
+    this.options = {
+      ...this.options,
+      ...options,
+      surface: { ...this.options.surface, ...options.surface }
+    };
+  }
+
+  public getPixelRatio() {
+    return this.pixelRatio;
+  }
+
+  public setSize(width: number, height: number, pixelRatio = Math.min(window.devicePixelRatio, 2)) {
+    this.width = width;
+    this.height = height;
+    this.pixelRatio = pixelRatio;
+    this.canvas.width = width * pixelRatio;
+    this.canvas.height = height * pixelRatio;
+    this.canvas.style.width = `${width}px`;
+    this.canvas.style.height = `${height}px`;
+    // Matter.Mouse reads this to convert pointer positions back to world space
+    this.canvas.setAttribute('data-pixel-ratio', String(pixelRatio));
+  }
+
+  public draw() {
+    const { context, options } = this;
+    context.setTransform(this.pixelRatio, 0, 0, this.pixelRatio, 0, 0);
+    context.globalAlpha = 1;
+    context.fillStyle = options.background;
+    context.fillRect(0, 0, this.width, this.height);
+    this.drawDrains();
+
+    if (this.particleOpacity > 0) {
+      context.globalAlpha = this.particleOpacity;
+      if (options.mode === 'surface') {
+        this.drawSurface();
+      } else {
+        this.drawParticles();
+      }
+      if (options.debugOutlines) this.drawOutlines();
+      context.globalAlpha = 1;
+    }
+
+    this.drawBodies();
+    this.drawEmitters();
+  }
+
+  // Drains sit under the liquid like holes in the scene
+  private drawDrains() {
+    const { context } = this;
+    context.lineWidth = 2;
+    context.setLineDash([6, 4]);
+    this.world.flow.getDrains().forEach(({ position, width, height }) => {
+      const left = position.x - width / 2;
+      const top = position.y - height / 2;
+      context.fillStyle = DRAIN_FILL;
+      context.fillRect(left, top, width, height);
+      context.strokeStyle = DRAIN_STROKE;
+      context.strokeRect(left, top, width, height);
+    });
+    context.setLineDash([]);
+  }
+
+  // A nozzle as wide as the emitter, flaring out by its spread in the direction it points
+  private drawEmitters() {
+    const { context } = this;
+    context.fillStyle = EMITTER_FILL;
+    this.world.flow.getEmitters().forEach(({ position, direction, spread, width }) => {
+      const flare = width / 2 + Math.tan(Math.min(spread, 1.2)) * NOZZLE_LENGTH;
+      context.save();
+      context.translate(position.x, position.y);
+      context.rotate(direction);
+      context.beginPath();
+      context.moveTo(-NOZZLE_LENGTH, -width / 2 - 2);
+      context.lineTo(0, -flare);
+      context.lineTo(0, flare);
+      context.lineTo(-NOZZLE_LENGTH, width / 2 + 2);
+      context.closePath();
+      context.fill();
+      context.restore();
+    });
+  }
+
+  private drawParticles() {
+    const { context } = this;
+    const solver = this.world.getSolver();
+    const { particleShape, particleRadius } = solver;
+    const filled = particleShape === 'circle';
+
+    context.lineWidth = 2;
+    solver.forEachParticle((x, y, vx, vy, angle) => {
+      const color = velocityColor(vx, vy, this.options.maxVelocity);
+      context.beginPath();
+      traceParticle(context, particleShape, x, y, particleRadius, angle);
+      if (filled) {
+        context.fillStyle = color;
+        context.fill();
+      } else {
+        context.strokeStyle = color;
+        context.stroke();
+      }
+    });
+  }
+
+  private drawOutlines() {
+    const { context } = this;
+    const solver = this.world.getSolver();
+
+    context.beginPath();
+    solver.forEachParticle((x, y, _vx, _vy, angle) => {
+      traceParticle(context, solver.particleShape, x, y, solver.particleRadius, angle);
+    });
+    context.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+    context.lineWidth = 1;
+    context.stroke();
+  }
+
+  // Splats every particle into a scalar field, then contours it with marching squares
+  private drawSurface() {
+    const { context } = this;
+    const { cellSize, influence, threshold, fill, highlight, highlightWidth } = this.options.surface;
+    const solver = this.world.getSolver();
+    const columns = Math.ceil(this.width / cellSize) + 1;
+    const rows = Math.ceil(this.height / cellSize) + 1;
+    if (this.field.length < columns * rows) this.field = new Float32Array(columns * rows);
+    const field = this.field;
+    field.fill(0, 0, columns * rows);
+
+    const reach = solver.particleRadius * influence;
+    const reachSq = reach * reach;
+    solver.forEachParticle((x, y) => {
+      const minColumn = Math.max(0, Math.ceil((x - reach) / cellSize));
+      const maxColumn = Math.min(columns - 1, Math.floor((x + reach) / cellSize));
+      const minRow = Math.max(0, Math.ceil((y - reach) / cellSize));
+      const maxRow = Math.min(rows - 1, Math.floor((y + reach) / cellSize));
+
+      for (let row = minRow; row <= maxRow; row++) {
+        const dy = row * cellSize - y;
+        for (let column = minColumn; column <= maxColumn; column++) {
+          const dx = column * cellSize - x;
+          const falloff = 1 - (dx * dx + dy * dy) / reachSq;
+          if (falloff > 0) field[row * columns + column] += falloff * falloff;
+        }
+      }
+    });
+
+    const body = new Path2D();
+    const edge = new Path2D();
+    const corners = [0, 0, 0, 0];
+    const points: { x: number; y: number; crossing: boolean }[] = [];
+
+    for (let row = 0; row < rows - 1; row++) {
+      for (let column = 0; column < columns - 1; column++) {
+        let inside = 0;
+        for (let corner = 0; corner < 4; corner++) {
+          const [ox, oy] = CORNER_OFFSETS[corner];
+          corners[corner] = field[(row + oy) * columns + column + ox];
+          if (corners[corner] >= threshold) inside++;
+        }
+        if (inside === 0) continue;
+
+        const left = column * cellSize;
+        const top = row * cellSize;
+        if (inside === 4) {
+          body.rect(left, top, cellSize, cellSize);
+          continue;
+        }
+
+        // Walk the cell clockwise, keeping inside corners and interpolated edge crossings
+        points.length = 0;
+        for (let corner = 0; corner < 4; corner++) {
+          const next = (corner + 1) % 4;
+          const [ax, ay] = CORNER_OFFSETS[corner];
+          const [bx, by] = CORNER_OFFSETS[next];
+          const a = corners[corner];
+          const b = corners[next];
+
+          if (a >= threshold) points.push({ x: left + ax * cellSize, y: top + ay * cellSize, crossing: false });
+          if ((a >= threshold) !== (b >= threshold)) {
+            const t = (threshold - a) / (b - a);
+            points.push({
+              x: left + (ax + (bx - ax) * t) * cellSize,
+              y: top + (ay + (by - ay) * t) * cellSize,
+              crossing: true
+            });
+          }
+        }
+
+        body.moveTo(points[0].x, points[0].y);
+        for (let i = 1; i < points.length; i++) body.lineTo(points[i].x, points[i].y);
+        body.closePath();
+
+        // Consecutive crossings bound a stretch of the iso-line rather than the cell border
+        points.forEach((point, i) => {
+          const next = points[(i + 1) % points.length];
+          if (!point.crossing || !next.crossing) return;
+          edge.moveTo(point.x, point.y);
+          edge.lineTo(next.x, next.y);
+        });
+      }
+    }
+
+    context.fillStyle = fill;
+    context.fill(body);
+    context.strokeStyle = highlight;
+    context.lineWidth = highlightWidth;
+    context.lineCap = 'round';
+    context.stroke(edge);
+  }
+
+  // Draws hands, walls and any other visible bodies the way Matter.Render would without wireframes
+  private drawBodies() {
+    const { context } = this;
+    const bodies: Matter.Body[] = Matter.Composite.allBodies(this.world.engine.world);
+
+    bodies.forEach(body => {
+      if (body.label === PARTICLE_LABEL || !body.render.visible || (body.render.opacity ?? 1) <= 0) return;
+
+      const parts = body.parts.length > 1 ? body.parts.slice(1) : body.parts;
+      context.globalAlpha = body.render.opacity ?? 1;
+      context.beginPath();
+      if (body.circleRadius) {
+        context.arc(body.position.x, body.position.y, body.circleRadius, 0, Math.PI * 2);
+      }
+      parts.forEach((part: Matter.Body) => {
+        if (body.circleRadius) return;
+        const [first, ...rest] = part.vertices;
+        context.moveTo(first.x, first.y);
+        rest.forEach((vertex: Matter.Vector) => context.lineTo(vertex.x, vertex.y));
+        context.closePath();
+      });
+
+      if (body.render.fillStyle) {
+        context.fillStyle = body.render.fillStyle;
+        context.fill();
+      }
+      if (body.render.lineWidth && body.render.strokeStyle) {
+        context.lineWidth = body.render.lineWidth;
+        context.strokeStyle = body.render.strokeStyle;
+        context.stroke();
+      }
+    });
+    context.globalAlpha = 1;
+  }
+
+  public destroy() {
+    this.canvas.remove();
+  }
+}
@@ -1,56 +1,87 @@
 import Matter from 'matter-js';
+import { getDeviceProfile } from './deviceProfile';
+import type { HandColliderMode } from './handColliders';
+import { LiquidRenderer, RendererOptions } from './liquidRenderer';
+import { LiquidWorld } from './liquidWorld';
+import type { PerformanceGovernor } from './performanceGovernor';
+import { PARTICLE_CATEGORY, SolverKind } from './particleSolver';
+import { DRAGGABLE_CATEGORY, SceneDefinition } from './scene';
+import { configEngineSettings, configLayout, defaultConfig, SimulationConfig } from './simulationConfig';
+import type { WorldSnapshot } from './worldSnapshot';
 
+const STEP_MS = 1000 / 60;
+// Longest gap the loop catches up on, e.g. after the tab was in the background
+const MAX_FRAME_MS = 100;
+// How long the liquid takes to fade out before a scene switch
+const SCENE_FADE_OUT_MS = 400;
+
+interface SimulationOptions {
+  handMode?: HandColliderMode;
+  config?: SimulationConfig;
+  scene?: SceneDefinition;
+  seed?: number;
+  renderer?: Partial<RendererOptions>;
+  governor?: PerformanceGovernor; // Receives per-frame step and render timings
+}
+
+// Browser adapter around LiquidWorld: owns the canvas renderer, mouse input and the frame loop
 export class LiquidSimulation {
-  private engine: Matter.Engine;
-  private render: Matter.Render;
+  public readonly world: LiquidWorld;
+  public readonly renderer: LiquidRenderer;
   private mouse: Matter.Mouse;
-  private runner: Matter.Runner;
   private mouseConstraint: Matter.MouseConstraint;
-  private particles: Matter.Body[] = [];
-  private draggableObjects: Matter.Body[] = [];
-  private leftHandBody: Matter.Body;
-  private rightHandBody: Matter.Body;
+  private frameId: number | null = null;
+  private resizeFrameId: number | null = null;
+  private governor: PerformanceGovernor | null;
+  private lastFrameTime: number | null = null;
+  private accumulator = 0;
   private particleOpacity: number = 0;
   private fadeInStartTime: number = 0;
-  private maxVelocity: number = 15; // Threshold for max velocity color
+  private fadeFrameId: number | null = null;
+  private transitionFrameId: number | null = null;
+  private finishTransition: (() => void) | null = null;
   
-  constructor(private container: HTMLElement) {
-    // Create engine
-    this.engine = Matter.Engine.create();
-    this.setupEngine();
+  constructor(
+    private container: HTMLElement,
+    {
+      handMode = 'circle',
+      config = defaultConfig(getDeviceProfile().isMobile),
+      scene,
+      seed,
+      renderer,
+      governor
+    }: SimulationOptions = {}
+  ) {
+    this.governor = governor ?? null;
+    this.world = new LiquidWorld({
+      width: window.innerWidth,
+      height: window.innerHeight,
+      handMode,
+      handRadius: config.handRadius,
+      handMaxSpeed: config.handMaxSpeed,
+      particleBudget: config.particleBudget,
+      solver: config.solver,
+      scene,
+      seed,
+      layout: configLayout(config),
+      engine: configEngineSettings(config)
+    });
+    this.world.setFluidSettings({ iterations: config.fluidIterations });
+    const engine = this.world.engine;
     
     // Create renderer
-    this.render = Matter.Render.create({
-      element: container,
-      engine: this.engine,
-      options: {
-        fps: 60,
-        width: window.innerWidth,
-        height: window.innerHeight,
-        wireframes: false,
-        pixelRatio: Math.min(window.devicePixelRatio, 2), // Cap pixel ratio
-        background: '#1a1a1a',
-        showSleeping: false,
-        showDebug: false,
-        showBroadphase: false,
-        showBounds: false,
-        showVelocity: false,
-        showCollisions: false,
-        showSeparations: false,
-        showAxes: false,
-        showPositions: false,
-        showAngleIndicator: false,
-        showIds: false,
-        showVertexNumbers: false,
-        showConvexHulls: false,
-        showInternalEdges: false
-      }
+    this.renderer = new LiquidRenderer(container, this.world, window.innerWidth, window.innerHeight, {
+      ...renderer,
+      maxVelocity: config.maxVelocity
     });
+    this.renderer.particleOpacity = 0;
     
     // Add mouse control
-    this.mouse = Matter.Mouse.create(this.render.canvas);
-    this.mouseConstraint = Matter.MouseConstraint.create(this.engine, {
+    this.mouse = Matter.Mouse.create(this.renderer.canvas);
+    this.mouseConstraint = Matter.MouseConstraint.create(engine, {
       mouse: this.mouse,
+      // The mouse moves particles and draggable objects, never obstacles or hands
+      collisionFilter: { category: 0x0001, mask: PARTICLE_CATEGORY | DRAGGABLE_CATEGORY, group: 0 },
       constraint: {
         stiffness: 0.2,
         render: {
@@ -59,95 +90,36 @@ export class LiquidSimulation {
       }
     });
     
-    Matter.Composite.add(this.engine.world, this.mouseConstraint);
-    
-    // Create hand bodies
-    this.leftHandBody = Matter.Bodies.circle(0, 0, 50, {
-      isStatic: true,
-      isSleeping: false,
-      sleepThreshold: Infinity,
-      render: {
-        fillStyle: 'rgba(0, 255, 0, 0.3)',
-        strokeStyle: '#00FF00',
-        lineWidth: 2
-      },
-      collisionFilter: {
-        category: 0x0002,
-        mask: 0x0001
-      }
-    });
-    
-    this.rightHandBody = Matter.Bodies.circle(0, 0, 50, {
-      isStatic: true,
-      isSleeping: false,
-      sleepThreshold: Infinity,
-      render: {
-        fillStyle: window.innerWidth < 768 ? 'transparent' : 'rgba(0, 255, 0, 0.3)', 
-        strokeStyle: window.innerWidth < 768 ? 'transparent' : '#00FF00',
-        lineWidth: window.innerWidth < 768 ? 0 : 2
-      },
-      collisionFilter: {
-        category: 0x0002,
-        mask: 0x0001
-      }
-    });
-    
-    Matter.Composite.add(this.engine.world, [this.leftHandBody, this.rightHandBody]);
-    
-    // Create boundaries
-    this.createBoundaries();
-    
-    // Create initial particles
-    this.createParticles();
-
-    // Create draggable objects
-    this.createDraggableObjects();
+    Matter.Composite.add(engine.world, this.mouseConstraint);
     
-    // Add window resize handler
+    // Rotating a device fires both events; handleResize coalesces them
     window.addEventListener('resize', this.handleResize);
+    window.addEventListener('orientationchange', this.handleResize);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
     
-    // Optimize render performance
-    this.render.options.wireframes = false;
-    this.render.options.showShadows = false;
-    
-    // Use requestAnimationFrame for smoother rendering
-    this.runner = Matter.Runner.create({
-      isFixed: true,
-      delta: 1000 / 60,
-      isFixed: true,
-      interpolate: true
-    });
-    
-    Matter.Runner.run(this.runner, this.engine);
-    Matter.Render.run(this.render);
-
-    // Add velocity color update to engine update event
-    Matter.Events.on(this.engine, 'afterUpdate', this.updateParticleColors);
+    // Physics advances in fixed steps, then one frame is drawn
+    this.frameId = requestAnimationFrame(this.tick);
 
     // Start fade in animation
     this.fadeInStartTime = Date.now();
     this.animateFadeIn();
   }
   
-  private updateParticleColors = () => {
-    this.particles.forEach(particle => {
-      if (!particle.render) return;
-      
-      const velocity = Math.sqrt(
-        particle.velocity.x * particle.velocity.x + 
-        particle.velocity.y * particle.velocity.y
-      );
-      
-      // Normalize velocity and clamp between 0 and 1
-      const normalizedVelocity = Math.min(velocity / this.maxVelocity, 1);
-      
-      // Create a color gradient from blue to red based on velocity
-      const hue = (1 - normalizedVelocity) * 180; // 180 (cyan) to 0 (red)
-      const saturation = 100;
-      const lightness = 50 + normalizedVelocity * 20; // Brighter at higher velocities
-      
-      particle.render.strokeStyle = `hsl(${hue}, ${saturation}%, ${lightness}%)`;
-    });
+  private tick = (time: number) => {
+    const elapsed = this.lastFrameTime === null ? STEP_MS : time - this.lastFrameTime;
+    this.lastFrameTime = time;
+    this.accumulator += Math.min(elapsed, MAX_FRAME_MS);
+    
+    const stepStart = performance.now();
+    while (this.accumulator >= STEP_MS) {
+      this.world.step(STEP_MS);
+      this.accumulator -= STEP_MS;
+    }
+    const renderStart = performance.now();
+    this.renderer.draw();
+    this.governor?.recordFrame(time, renderStart - stepStart, performance.now() - renderStart);
+    
+    this.frameId = requestAnimationFrame(this.tick);
   };
   
   private animateFadeIn = () => {
@@ -155,150 +127,139 @@ export class LiquidSimulation {
     const duration = 4000; // 4 seconds fade in
     
     this.particleOpacity = Math.min(1, elapsed / duration);
+    this.renderer.particleOpacity = this.particleOpacity;
     
-    // Update all particles opacity
-    this.particles.forEach(particle => {
-      if (particle.render) {
-        particle.render.opacity = this.particleOpacity;
-      }
-    });
-    
-    if (this.particleOpacity < 1) {
-      requestAnimationFrame(this.animateFadeIn);
-    }
+    this.fadeFrameId = this.particleOpacity < 1 ? requestAnimationFrame(this.animateFadeIn) : null;
   };
   
-  public updateHandPosition(handIndex: number, x: number, y: number) {
-    const handBody = handIndex === 0 ? this.leftHandBody : this.rightHandBody;
-    
-    // Keep hand bodies "awake" by applying tiny random force
-    Matter.Body.applyForce(handBody, handBody.position, {
-      x: (Math.random() - 0.5) * 0.0001,
-      y: (Math.random() - 0.5) * 0.0001
-    });
-    
-    // Add velocity-based movement for smoother interaction
-    const currentPos = handBody.position;
-    const dx = x - currentPos.x;
-    const dy = y - currentPos.y;
+  private restartFadeIn() {
+    if (this.fadeFrameId !== null) cancelAnimationFrame(this.fadeFrameId);
+    this.fadeInStartTime = Date.now();
+    this.particleOpacity = 0;
+    this.renderer.particleOpacity = 0;
+    this.animateFadeIn();
+  }
+  
+  /**
+   * Switches scenes with a short transition: the liquid fades out, the new scene is built and
+   * the liquid fades back in. A newer switch cuts one still fading out short, and the promise
+   * of the abandoned switch settles straight away.
+   */
+  public setScene(scene: SceneDefinition): Promise<void> {
+    this.cancelTransition();
+    if (scene === this.world.getScene()) return Promise.resolve();
     
-    // Apply smooth movement with velocity
-    Matter.Body.setVelocity(handBody, {
-      x: dx * 1.2,
-      y: dy * 1.2
-    });
+    if (this.fadeFrameId !== null) cancelAnimationFrame(this.fadeFrameId);
+    this.fadeFrameId = null;
+    const startOpacity = this.particleOpacity;
+    const startTime = Date.now();
     
-    // Update position
-    Matter.Body.setPosition(handBody, {
-      x: x,
-      y: y
+    return new Promise(resolve => {
+      this.finishTransition = resolve;
+      const fadeOut = () => {
+        const progress = Math.min(1, (Date.now() - startTime) / SCENE_FADE_OUT_MS);
+        this.particleOpacity = startOpacity * (1 - progress);
+        this.renderer.particleOpacity = this.particleOpacity;
+        if (progress < 1) {
+          this.transitionFrameId = requestAnimationFrame(fadeOut);
+          return;
+        }
+        
+        this.transitionFrameId = null;
+        this.finishTransition = null;
+        this.world.setScene(scene);
+        this.restartFadeIn();
+        resolve();
+      };
+      fadeOut();
     });
   }
   
-  private createBoundaries() {
-    const walls = [
-      Matter.Bodies.rectangle(window.innerWidth / 2, window.innerHeight + 50, window.innerWidth, 100, { isStatic: true }), // bottom
-      Matter.Bodies.rectangle(-50, window.innerHeight / 2, 100, window.innerHeight, { isStatic: true }), // left
-      Matter.Bodies.rectangle(window.innerWidth + 50, window.innerHeight / 2, 100, window.innerHeight, { isStatic: true }), // right
-    ];
-    
-    Matter.Composite.add(this.engine.world, walls);
+  // Stops a transition that is still fading out and settles its promise
+  private cancelTransition() {
+    if (this.transitionFrameId !== null) cancelAnimationFrame(this.transitionFrameId);
+    this.transitionFrameId = null;
+    this.finishTransition?.();
+    this.finishTransition = null;
   }
   
-  private setupEngine() {
-    // Optimize engine configuration
-    this.engine.enableSleeping = false; // Prevent particles from going to sleep
-    this.engine.timing.timeScale = 0.9; // Slightly reduce simulation speed for better stability
-    this.engine.constraintIterations = 2;
-    this.engine.positionIterations = 6; // Balanced for performance and accuracy
-    this.engine.velocityIterations = 4; // Balanced for performance and accuracy
+  // Matter's mouse dragging; switched off while pointers drive hands, so a press does one thing
+  public setMouseDrag(enabled: boolean) {
+    const { world } = this.world.engine;
+    Matter.Composite.remove(world, this.mouseConstraint);
+    if (enabled) Matter.Composite.add(world, this.mouseConstraint);
   }
   
-  private createParticles() {
-    // Create hexagon vertices
-    const hexagonRadius = 16;
-    const isMobile = window.innerWidth < 768;
-    const hexagonVertices = [];
-    for (let i = 0; i < 6; i++) {
-      const angle = (Math.PI / 3) * i;
-      hexagonVertices.push({
-        x: hexagonRadius * Math.cos(angle),
-        y: hexagonRadius * Math.sin(angle)
-      });
-    }
-
-    const particleOptions = {
-      friction: 0.1,
-      restitution: 0.2,
-      density: 0.001, // Slightly increased for better stability
-      slop: 0.01, // Further reduced slop for even tighter collisions
-      sleepThreshold: Infinity, // Prevent particles from sleeping
-      chamfer: { radius: 2 }, // Smooth corners for better collision handling
-      collisionFilter: {
-        category: 0x0001,
-        mask: 0x0003 // Collide with walls (0x0001) and hands (0x0002)
-      },
-      render: {
-        fillStyle: 'transparent',
-        strokeStyle: '#ffffff',
-        lineWidth: 2,
-        opacity: 0 // Start with 0 opacity
-      }
-    };
-    
-    // Create particles in a grid pattern for more stable initial state
-    const rows = isMobile ? 12 : 30;
-    const cols = isMobile ? 15 : 40;
-    const spacing = 45; // Further increased spacing between particles
-    
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols; col++) {
-        const x = (window.innerWidth / 2 - (cols * spacing) / 2) + col * spacing;
-        const y = 50 + row * spacing;
-        
-        const jitter = Math.random() * 2 - 1; // Reduced jitter for more organized layout
-        
-        const particle = Matter.Bodies.fromVertices(
-          x + jitter,
-          y + jitter,
-          hexagonVertices,
-          particleOptions
-        );
-        
-        this.particles.push(particle);
-      }
-    }
+  // Switches between Matter's rigid hexagons and the fluid solver, respawning the liquid
+  public setSolver(kind: SolverKind) {
+    if (kind === this.world.getSolver().kind) return;
+    this.world.setSolver(kind);
+    this.restartFadeIn();
+  }
+  
+  // Applies settings live; only layout and solver changes respawn the liquid
+  public applyConfig(config: SimulationConfig) {
+    const solver = this.world.getSolver();
+    const layout = this.world.getLayout();
+    const respawn = config.solver !== solver.kind
+      || (Object.keys(layout) as (keyof typeof layout)[]).some(key => layout[key] !== config[key]);
     
-    // Add some random particles for more natural behavior
-    for (let i = 0; i < (isMobile ? 50 : 200); i++) {
-      const particle = Matter.Bodies.fromVertices(
-        window.innerWidth / 2 + Math.random() * 300 - 150,
-        50 + Math.random() * 100,
-        hexagonVertices,
-        particleOptions
-      );
-      
-      this.particles.push(particle);
-    }
+    this.world.setEngineSettings(configEngineSettings(config));
+    this.world.setHandRadius(config.handRadius);
+    this.world.setHandMaxSpeed(config.handMaxSpeed);
+    this.world.flow.setBudget(config.particleBudget, solver);
+    this.world.setFluidSettings({ iterations: config.fluidIterations });
+    this.renderer.setOptions({ maxVelocity: config.maxVelocity });
+    if (!respawn) return;
     
-    Matter.Composite.add(this.engine.world, this.particles);
+    this.world.setLayout(configLayout(config));
+    this.setSolver(config.solver);
+    if (config.solver === solver.kind) this.restartFadeIn();
+  }
+  
+  public saveSnapshot(): WorldSnapshot {
+    return this.world.saveSnapshot();
   }
   
-  private createDraggableObjects() {
-    // Removed draggable objects
+  /**
+   * Restores a snapshot at the size it was taken, so it carries on exactly as it would have.
+   * With `fit`, one taken on another screen size is rescaled to this viewport instead, moving
+   * the liquid the way a window resize does.
+   */
+  public loadSnapshot(snapshot: WorldSnapshot, { fit = false }: { fit?: boolean } = {}) {
+    this.world.loadSnapshot(snapshot);
+    if (fit) this.world.resize(window.innerWidth, window.innerHeight);
   }
   
+  // Hidden tabs get no frames; timing restarts cleanly when the tab comes back
+  private handleVisibilityChange = () => {
+    if (!document.hidden) return;
+    this.lastFrameTime = null;
+    this.governor?.resetTiming();
+  };
+  
+  // The viewport size is read a frame later, once an orientation change has settled
   private handleResize = () => {
-    this.render.canvas.width = window.innerWidth;
-    this.render.canvas.height = window.innerHeight;
-    Matter.Render.setPixelRatio(this.render, window.devicePixelRatio);
+    if (this.resizeFrameId !== null) cancelAnimationFrame(this.resizeFrameId);
+    this.resizeFrameId = requestAnimationFrame(() => {
+      this.resizeFrameId = null;
+      this.world.resize(window.innerWidth, window.innerHeight);
+      this.renderer.setSize(window.innerWidth, window.innerHeight);
+      // The device pixel ratio can change when the window moves to another screen
+      this.mouse.pixelRatio = this.renderer.getPixelRatio();
+    });
   };
   
   public destroy() {
-    Matter.Render.stop(this.render);
-    Matter.Runner.stop(this.runner);
-    Matter.Composite.clear(this.engine.world, false);
-    this.render.canvas.remove();
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    if (this.resizeFrameId !== null) cancelAnimationFrame(this.resizeFrameId);
+    if (this.fadeFrameId !== null) cancelAnimationFrame(this.fadeFrameId);
+    this.cancelTransition();
+    Matter.Mouse.clearSourceEvents(this.mouse);
+    this.world.destroy();
+    this.renderer.destroy();
     window.removeEventListener('resize', this.handleResize);
+    window.removeEventListener('orientationchange', this.handleResize);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
   }
-}
\ No newline at end of file
+}
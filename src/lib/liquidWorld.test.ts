@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { LiquidWorld } from './liquidWorld';
+import type { SolverKind } from './particleSolver';
+import type { SceneDefinition } from './scene';
+import { parseSnapshot } from './worldSnapshot';
+
+const STEP = 1000 / 60;
+
+function run(world: LiquidWorld, steps: number) {
+  for (let i = 0; i < steps; i++) world.step(STEP);
+}
+
+describe('LiquidWorld', () => {
+  it.each<SolverKind>(['rigid', 'fluid'])('keeps the %s liquid inside the walls and above the floor', solver => {
+    const world = new LiquidWorld({ width: 1920, height: 1080, solver, seed: 1 });
+    run(world, 240);
+
+    const escaped = world.getSolver().getParticles().filter(({ x, y }) => x < 0 || x > 1920 || y > 1080);
+    expect(escaped).toHaveLength(0);
+  });
+
+  it('lets the fluid out through an open side of the scene', () => {
+    const scene: SceneDefinition = {
+      id: 'open-right',
+      name: 'Open right',
+      boundaries: { right: false },
+      particles: [{ x: 0.75, y: 0, share: 1, width: 0.4 }]
+    };
+    const world = new LiquidWorld({ width: 1200, height: 800, solver: 'fluid', scene, seed: 1 });
+    run(world, 240);
+
+    const particles = world.getSolver().getParticles();
+    expect(particles.filter(({ x }) => x > 1200).length).toBeGreaterThan(0);
+    // Still nothing through the floor under the screen
+    expect(particles.filter(({ x, y }) => x >= 0 && x <= 1200 && y > 800)).toHaveLength(0);
+  });
+
+  it('settles the rigid liquid into a resting pile', () => {
+    const world = new LiquidWorld({ width: 1920, height: 1080, seed: 1 });
+    run(world, 240);
+
+    const particles = world.getSolver().getParticles();
+    const meanSpeed = particles.reduce((sum, { vx, vy }) => sum + Math.hypot(vx, vy), 0) / particles.length;
+    expect(meanSpeed).toBeLessThan(0.5);
+  });
+
+  it('displaces the liquid with a hand sweep', () => {
+    const sweep = (withHand: boolean) => {
+      const world = new LiquidWorld({ width: 1200, height: 800, seed: 2 });
+      run(world, 180);
+      const before = world.getSolver().getParticles();
+
+      for (let i = 0; i <= 40; i++) {
+        if (withHand) world.updateHandPosition(0, 150 + i * 20, 700, 1000 + i * STEP);
+        world.step(STEP);
+      }
+      return world.getSolver().getParticles()
+        .filter(({ x, y }, index) => Math.hypot(x - before[index].x, y - before[index].y) > 30).length;
+    };
+
+    const still = sweep(false);
+    const swept = sweep(true);
+    expect(still).toBeLessThan(20);
+    expect(swept).toBeGreaterThan(200);
+  });
+
+  it('throws the liquid as far with 15 tracking samples a second as with 60', () => {
+    // A 3000 px/s flick along the bottom of the pile, sampled at `rate` per second
+    const flick = (rate: number) => {
+      const world = new LiquidWorld({ width: 1200, height: 800, seed: 4 });
+      run(world, 180);
+      const before = world.getSolver().getParticles();
+
+      for (let i = 0; i <= 240; i++) {
+        const t = i * STEP;
+        if (i % (60 / rate) === 0 && t <= 400) world.updateHandPosition(0, 100 + Math.min(t, 300) * 3, 720, 1000 + t);
+        world.step(STEP);
+      }
+      const after = world.getSolver().getParticles();
+      return after.reduce((sum, { x }, index) => sum + x - before[index].x, 0) / after.length;
+    };
+
+    const fast = flick(60);
+    const slow = flick(15);
+    expect(fast).toBeGreaterThan(30);
+    expect(Math.abs(slow - fast)).toBeLessThan(fast * 0.15);
+  });
+
+  it.each<SolverKind>(['rigid', 'fluid'])('carries on from a %s snapshot exactly as the original world does', solver => {
+    // A hand sweeping through the liquid, so contacts, hand motion and the clock are all in play
+    const sweep = (world: LiquidWorld, from: number, to: number) => {
+      for (let i = from; i < to; i++) {
+        world.updateHandPosition(0, 200 + i * 12, 950, i * STEP);
+        world.step(STEP);
+      }
+    };
+
+    const original = new LiquidWorld({ width: 1920, height: 1080, solver, seed: 3 });
+    sweep(original, 0, 150);
+    const restored = LiquidWorld.fromSnapshot(parseSnapshot(JSON.stringify(original.saveSnapshot())));
+
+    sweep(original, 150, 210);
+    sweep(restored, 150, 210);
+    expect(restored.getSolver().getParticles()).toEqual(original.getSolver().getParticles());
+    expect(restored.getHandPosition(0)).toEqual(original.getHandPosition(0));
+  });
+
+  it('restores the hand settings a snapshot was taken with', () => {
+    const original = new LiquidWorld({ width: 800, height: 600, seed: 5, handRadius: 80, handMaxSpeed: 1500 });
+    const restored = LiquidWorld.fromSnapshot(parseSnapshot(JSON.stringify(original.saveSnapshot())));
+    expect(restored.getHandRadius()).toBe(80);
+    expect(restored.getHandMaxSpeed()).toBe(1500);
+  });
+});
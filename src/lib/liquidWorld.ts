@@ -0,0 +1,897 @@
+import Matter from 'matter-js';
+import { captureEngineState, restoreEngineState } from './engineState';
+import type { GestureType } from './gestures';
+import { HandDepth, TOUCH_HAND_DEPTH } from './handDepth';
+import type { HandPresenceState } from './handPresence';
+import type { Point } from './geometry';
+import { DEFAULT_HAND_RADIUS, HandColliderMode, HandSkeleton } from './handColliders';
+import { DEFAULT_HAND_MAX_SPEED, engineVelocityScale, HandMotion, toEngineVelocity } from './handMotion';
+import { DEFAULT_FLUID_SETTINGS, FluidSettings, FluidSolver } from './fluidSolver';
+import { DEFAULT_PARTICLE_BUDGET, ParticleFlow, ParticleStats } from './particleFlow';
+import {
+  DESKTOP_PARTICLE_LAYOUT,
+  PARTICLE_CATEGORY,
+  ParticleLayout,
+  ParticleSolver,
+  SolverKind
+} from './particleSolver';
+import { SeededRandom } from './random';
+import { RigidParticleSolver } from './rigidParticleSolver';
+import {
+  createObjectBody,
+  createObstacleBody,
+  DRAGGABLE_CATEGORY,
+  OBJECT_CATEGORY,
+  OBJECT_LABEL,
+  SceneDefinition,
+  SceneObject,
+  sceneBoundaries
+} from './scene';
+import { CLASSIC_SCENE, sceneRegistry } from './sceneRegistry';
+import { SNAPSHOT_VERSION, WorldSnapshot, captureBody, restoreBody } from './worldSnapshot';
+
+// Hand body tint while a gesture is held
+const GESTURE_COLORS: Record<GestureType, string> = {
+  pinch: 'rgba(255, 200, 0, 0.35)',
+  fist: 'rgba(255, 80, 80, 0.35)',
+  'open-palm': 'rgba(0, 255, 0, 0.3)',
+  point: 'rgba(0, 200, 255, 0.35)',
+  'two-finger': 'rgba(200, 120, 255, 0.35)'
+};
+
+// Hands push the liquid and scene objects, except an object they are holding
+const HAND_COLLISION_FILTER = {
+  category: 0x0002,
+  mask: PARTICLE_CATEGORY | OBJECT_CATEGORY | DRAGGABLE_CATEGORY
+};
+
+// Gestures that pick up a grabbable object under the hand
+const GRAB_GESTURES: GestureType[] = ['pinch', 'fist'];
+
+// How firmly a held object follows the hand; softer than 1 so it swings instead of snapping
+const GRAB_STIFFNESS = 0.2;
+
+const HAND_FILL = 'rgba(0, 255, 0, 0.3)';
+
+// A pressing hand's collider grows up to this multiple of its radius at full press
+const PRESS_RADIUS_SCALE = 1.5;
+// ...and pushes the liquid away, in px/s², out to this multiple of its radius
+const PRESS_ACCELERATION = 6000;
+const PRESS_REACH = 1.6;
+// Hovering hands are drawn faint, as they pass through everything
+const HOVER_OPACITY = 0.35;
+
+// Hand opacity per presence state; only tracked hands collide
+const PRESENCE_OPACITY: Record<Exclude<HandPresenceState, 'gone'>, number> = {
+  entering: 0.5,
+  tracked: 1,
+  lost: 0
+};
+const HAND_FADE_PER_STEP = 0.05;
+
+// Colliders for one tracked hand, allocated on first sight and keyed by hand ID
+interface HandBodies {
+  circle: Matter.Body;
+  skeleton: HandSkeleton | null;
+  mode: HandColliderMode | null; // Overrides the world's mode, e.g. for pointers without landmarks
+  grab: Matter.Constraint | null; // Ties a held scene object to the hand
+  motion: HandMotion | null; // Null until the first tracked position
+  depth: HandDepth;
+  radiusScale: number; // Current growth of the circle from pressing
+  presence: Exclude<HandPresenceState, 'gone'>;
+  opacity: number;
+}
+
+// A scene object in the world, with the pin that holds a pivoting one in place
+interface ObjectBodies {
+  definition: SceneObject;
+  body: Matter.Body;
+  pivot: Matter.Constraint | null;
+}
+
+// Tracked hands pick up grabbable objects; pointer hands, like the mouse, pick up draggable ones
+export type GrabKind = 'hand' | 'pointer';
+
+export interface EngineSettings {
+  gravity: number;
+  timeScale: number;
+  constraintIterations: number;
+  positionIterations: number;
+  velocityIterations: number;
+}
+
+export const DEFAULT_ENGINE_SETTINGS: EngineSettings = {
+  gravity: 1,
+  timeScale: 0.9, // Slightly reduce simulation speed for better stability
+  constraintIterations: 2,
+  positionIterations: 6, // Balanced for performance and accuracy
+  velocityIterations: 4 // Balanced for performance and accuracy
+};
+
+export interface LiquidWorldOptions {
+  width: number;
+  height: number;
+  handMode?: HandColliderMode;
+  handRadius?: number; // Circle collider radius in circle mode
+  handMaxSpeed?: number; // px/s
+  layout?: ParticleLayout;
+  particleBudget?: number; // Most live particles emitters may fill the world up to
+  solver?: SolverKind;
+  fluid?: FluidSettings;
+  engine?: EngineSettings;
+  scene?: SceneDefinition;
+  seed?: number; // Drives every random choice in the world; random when omitted
+}
+
+/**
+ * The physics of the scene — engine, walls, particles and hand bodies — with no DOM access.
+ * Time only advances through `step`, so it runs the same in the browser and in Node.
+ */
+export class LiquidWorld {
+  public readonly engine: Matter.Engine;
+  // Emitters and drains, which add and remove particles as the world steps
+  public readonly flow: ParticleFlow;
+  private size: { width: number; height: number };
+  private solver: ParticleSolver;
+  private walls: Matter.Body[] = [];
+  private scene: SceneDefinition;
+  private obstacles: Matter.Body[] = [];
+  private objects: ObjectBodies[] = [];
+  private hands = new Map<number, HandBodies>();
+  private handMode: HandColliderMode;
+  private handRadius: number;
+  private handMaxSpeed: number;
+  // Milliseconds of simulated time, which hand motion is played back on
+  private clock = 0;
+  private layout: ParticleLayout;
+  private fluidSettings: FluidSettings;
+  private random: SeededRandom;
+  // Gravity from the settings; hand forces may tilt and scale the engine's around it
+  private gravity = DEFAULT_ENGINE_SETTINGS.gravity;
+  
+  constructor({
+    width,
+    height,
+    handMode = 'circle',
+    handRadius = DEFAULT_HAND_RADIUS,
+    handMaxSpeed = DEFAULT_HAND_MAX_SPEED,
+    layout = DESKTOP_PARTICLE_LAYOUT,
+    particleBudget = DEFAULT_PARTICLE_BUDGET,
+    solver = 'rigid',
+    fluid = DEFAULT_FLUID_SETTINGS,
+    engine = DEFAULT_ENGINE_SETTINGS,
+    scene = CLASSIC_SCENE,
+    seed
+  }: LiquidWorldOptions) {
+    this.size = { width, height };
+    this.scene = scene;
+    this.handMode = handMode;
+    this.handRadius = handRadius;
+    this.handMaxSpeed = handMaxSpeed;
+    this.layout = layout;
+    this.fluidSettings = { ...fluid };
+    this.random = new SeededRandom(seed);
+    this.flow = new ParticleFlow(particleBudget);
+    
+    // Create engine
+    this.engine = Matter.Engine.create();
+    this.setupEngine();
+    this.setEngineSettings(engine);
+    
+    // Create boundaries
+    this.createBoundaries();
+    
+    // Create initial particles
+    this.solver = this.createSolver(solver);
+
+    // Obstacles, movable objects, emitters and drains of the scene
+    this.createSceneBodies();
+    this.createSceneFlow();
+    
+    Matter.Events.on(this.engine, 'afterUpdate', this.updateHandFades);
+  }
+  
+  public get width() {
+    return this.size.width;
+  }
+  
+  public get height() {
+    return this.size.height;
+  }
+  
+  /**
+   * Moves the walls to a new viewport size and carries the liquid along: horizontal positions
+   * scale with the width, and heights above the floor only shrink, so a resting pile stays on
+   * the floor instead of being lifted into the air when the screen grows.
+   */
+  public resize(width: number, height: number) {
+    const { width: oldWidth, height: oldHeight } = this.size;
+    if (width === oldWidth && height === oldHeight) return;
+    
+    this.size = { width, height };
+    Matter.Composite.remove(this.engine.world, [...this.walls, ...this.obstacles]);
+    this.createBoundaries();
+    this.obstacles = this.createObstacles();
+    Matter.Composite.add(this.engine.world, this.obstacles);
+    
+    const scaleX = width / oldWidth;
+    const scaleY = Math.min(1, height / oldHeight);
+    const carry = (point: Point): Point => ({
+      x: point.x * scaleX,
+      y: height - (oldHeight - point.y) * scaleY
+    });
+    const particles = this.solver.getParticles().map(particle => ({ ...particle, ...carry(particle) }));
+    this.solver.resize(width, height);
+    this.solver.setParticles(particles);
+    
+    // Loose objects travel with the liquid; pinned ones keep their place relative to the screen
+    this.objects.forEach(({ body, pivot }) => {
+      if (pivot) {
+        pivot.pointA = { x: pivot.pointA.x * scaleX, y: pivot.pointA.y * height / oldHeight };
+        Matter.Body.setPosition(body, pivot.pointA);
+      } else {
+        Matter.Body.setPosition(body, carry(body.position));
+      }
+    });
+    
+    // Emitters and drains keep their place relative to the screen, like pinned objects
+    this.flow.scale(scaleX, height / oldHeight);
+  }
+  
+  // Advances the physics by `delta` milliseconds
+  public step(delta: number = 1000 / 60) {
+    this.moveHands(delta);
+    this.pressHands(delta);
+    this.flow.step(delta * this.engine.timing.timeScale, this.solver, this.random);
+    Matter.Engine.update(this.engine, delta);
+    this.solver.step(delta, this.getColliders());
+  }
+  
+  public getEngineSettings(): EngineSettings {
+    const { engine } = this;
+    return {
+      gravity: this.gravity,
+      timeScale: engine.timing.timeScale,
+      constraintIterations: engine.constraintIterations,
+      positionIterations: engine.positionIterations,
+      velocityIterations: engine.velocityIterations
+    };
+  }
+  
+  public setEngineSettings(settings: Partial<EngineSettings>) {
+    const { engine } = this;
+    if (settings.gravity !== undefined) {
+      this.gravity = settings.gravity;
+      engine.gravity.x = 0;
+      engine.gravity.y = settings.gravity;
+    }
+    if (settings.timeScale !== undefined) engine.timing.timeScale = settings.timeScale;
+    if (settings.constraintIterations !== undefined) engine.constraintIterations = settings.constraintIterations;
+    if (settings.positionIterations !== undefined) engine.positionIterations = settings.positionIterations;
+    if (settings.velocityIterations !== undefined) engine.velocityIterations = settings.velocityIterations;
+  }
+  
+  public getLayout(): ParticleLayout {
+    return this.layout;
+  }
+  
+  // Respawns the liquid when the layout actually changed
+  public setLayout(layout: ParticleLayout) {
+    const keys = Object.keys(layout) as (keyof ParticleLayout)[];
+    if (keys.every(key => layout[key] === this.layout[key])) return;
+    
+    this.layout = { ...layout };
+    this.respawn();
+  }
+  
+  public getFluidSettings(): FluidSettings {
+    return this.fluidSettings;
+  }
+  
+  // Tuning applies to the running fluid; particle size and count changes respawn it
+  public setFluidSettings(settings: Partial<FluidSettings>) {
+    const respawn = (settings.particleRadius !== undefined && settings.particleRadius !== this.fluidSettings.particleRadius)
+      || (settings.maxParticles !== undefined && settings.maxParticles !== this.fluidSettings.maxParticles);
+    Object.assign(this.fluidSettings, settings);
+    if (respawn && this.solver.kind === 'fluid') this.respawn();
+  }
+  
+  private respawn() {
+    const kind = this.solver.kind;
+    this.solver.destroy();
+    this.solver = this.createSolver(kind);
+  }
+  
+  public getSolver(): ParticleSolver {
+    return this.solver;
+  }
+  
+  public getParticleStats(): ParticleStats {
+    return this.flow.stats(this.solver.count);
+  }
+  
+  // Replaces the liquid with a freshly spawned one driven by the given solver
+  public setSolver(kind: SolverKind) {
+    if (kind === this.solver.kind) return;
+    this.solver.destroy();
+    this.solver = this.createSolver(kind);
+  }
+  
+  private createSolver(kind: SolverKind): ParticleSolver {
+    const groups = this.scene.particles;
+    const solver = kind === 'fluid'
+      ? new FluidSolver(this.engine, this.width, this.height, this.layout, this.random, this.fluidSettings, groups)
+      : new RigidParticleSolver(this.engine, this.width, this.height, this.layout, this.random, groups);
+    solver.setBoundaries(sceneBoundaries(this.scene));
+    return solver;
+  }
+  
+  /**
+   * Bodies the liquid collides with: walls, obstacles, hands while they are tracked, and scene
+   * objects. The fluid solver treats all of them as immovable, so liquid never pushes an object.
+   */
+  private getColliders(): Matter.Body[] {
+    return Matter.Composite.allBodies(this.engine.world).filter((body: Matter.Body) =>
+      (body.isStatic || body.label === OBJECT_LABEL) && ((body.collisionFilter.mask ?? 0xFFFFFFFF) & PARTICLE_CATEGORY) !== 0
+    );
+  }
+  
+  public getScene(): SceneDefinition {
+    return this.scene;
+  }
+  
+  // Swaps the walls, obstacles and objects for another scene's and respawns the liquid in it
+  public setScene(scene: SceneDefinition) {
+    this.buildScene(scene);
+    this.respawn();
+  }
+  
+  /**
+   * Swaps in an edited version of the current scene for the level editor: walls and obstacles
+   * are rebuilt, while the liquid and the scene's objects stay where they are.
+   */
+  public editScene(scene: SceneDefinition) {
+    Matter.Composite.remove(this.engine.world, [...this.walls, ...this.obstacles]);
+    this.scene = scene;
+    this.createBoundaries();
+    this.solver.setBoundaries(sceneBoundaries(scene));
+    this.obstacles = this.createObstacles();
+    Matter.Composite.add(this.engine.world, this.obstacles);
+  }
+  
+  // Index into the scene's obstacles of the one under a screen point, topmost first
+  public obstacleAt(point: Point): number | null {
+    for (let index = this.obstacles.length - 1; index >= 0; index--) {
+      if (Matter.Query.point([this.obstacles[index]], point).length > 0) return index;
+    }
+    return null;
+  }
+  
+  // Vertices of each convex part of an obstacle, for drawing selection outlines
+  public getObstacleOutline(index: number): Point[][] | null {
+    const body = this.obstacles[index];
+    if (!body) return null;
+    const parts = body.parts.length > 1 ? body.parts.slice(1) : body.parts;
+    return parts.map((part: Matter.Body) => part.vertices.map(({ x, y }: Matter.Vector) => ({ x, y })));
+  }
+  
+  private buildScene(scene: SceneDefinition) {
+    this.hands.forEach(hand => this.releaseGrab(hand));
+    Matter.Composite.remove(this.engine.world, [
+      ...this.walls,
+      ...this.obstacles,
+      ...this.objects.flatMap(({ body, pivot }) => (pivot ? [body, pivot] : [body]))
+    ]);
+    
+    this.scene = scene;
+    this.createBoundaries();
+    this.solver.setBoundaries(sceneBoundaries(scene));
+    this.createSceneBodies();
+    this.flow.clear();
+    this.createSceneFlow();
+  }
+  
+  private createObstacles(): Matter.Body[] {
+    return (this.scene.obstacles ?? []).map(obstacle => createObstacleBody(obstacle, this.width, this.height));
+  }
+  
+  private createSceneBodies() {
+    this.obstacles = this.createObstacles();
+    this.objects = (this.scene.objects ?? []).map(definition => {
+      const body = createObjectBody(definition, this.width, this.height);
+      const pivot = definition.pivot
+        ? Matter.Constraint.create({
+          pointA: { ...body.position },
+          bodyB: body,
+          length: 0,
+          stiffness: 1,
+          render: { visible: false }
+        })
+        : null;
+      return { definition, body, pivot };
+    });
+    
+    Matter.Composite.add(this.engine.world, [
+      ...this.obstacles,
+      ...this.objects.flatMap(({ body, pivot }) => (pivot ? [body, pivot] : [body]))
+    ]);
+  }
+  
+  private createSceneFlow() {
+    const place = ({ x, y }: Point): Point => ({ x: x * this.width, y: y * this.height });
+    (this.scene.emitters ?? []).forEach(emitter => this.flow.addEmitter({ ...emitter, position: place(emitter.position) }));
+    (this.scene.drains ?? []).forEach(drain => this.flow.addDrain({ ...drain, position: place(drain.position) }));
+  }
+  
+  public getSeed(): number {
+    return this.random.seed;
+  }
+  
+  // Rebuilds a world at the snapshot's size and seed, then restores its state
+  public static fromSnapshot(snapshot: WorldSnapshot): LiquidWorld {
+    const world = new LiquidWorld({
+      width: snapshot.width,
+      height: snapshot.height,
+      handMode: snapshot.handMode,
+      layout: snapshot.layout,
+      solver: snapshot.solver,
+      fluid: snapshot.fluid,
+      scene: sceneRegistry.get(snapshot.scene),
+      seed: snapshot.seed
+    });
+    world.loadSnapshot(snapshot);
+    return world;
+  }
+  
+  public saveSnapshot(): WorldSnapshot {
+    const { engine } = this;
+    return {
+      version: SNAPSHOT_VERSION,
+      createdAt: new Date().toISOString(),
+      width: this.width,
+      height: this.height,
+      seed: this.random.seed,
+      randomState: this.random.getState(),
+      layout: { ...this.layout },
+      solver: this.solver.kind,
+      fluid: { ...this.fluidSettings },
+      handMode: this.handMode,
+      engine: {
+        timestamp: engine.timing.timestamp,
+        timeScale: engine.timing.timeScale,
+        gravity: { x: engine.gravity.x, y: engine.gravity.y, scale: engine.gravity.scale },
+        enableSleeping: engine.enableSleeping,
+        constraintIterations: engine.constraintIterations,
+        positionIterations: engine.positionIterations,
+        velocityIterations: engine.velocityIterations
+      },
+      gravity: this.gravity,
+      clock: this.clock,
+      handRadius: this.handRadius,
+      handMaxSpeed: this.handMaxSpeed,
+      particles: this.solver.getParticles(),
+      hands: [...this.hands].map(([id, hand]) => ({
+        id,
+        presence: hand.presence,
+        opacity: hand.opacity,
+        circle: captureBody(hand.circle),
+        landmarks: hand.skeleton?.landmarks ?? null,
+        mode: hand.mode,
+        depth: { ...hand.depth },
+        grab: hand.grab ? this.objects.findIndex(({ body }) => body === hand.grab?.bodyB) : null,
+        motion: hand.motion?.save() ?? null
+      })),
+      scene: this.scene.id,
+      objects: this.objects.map(({ body }) => captureBody(body)),
+      ...this.flow.save(),
+      physics: captureEngineState(engine, this.getBodiesInOrder(), this.getConstraintsInOrder())
+    };
+  }
+  
+  /**
+   * Restores a snapshot into this world, which then carries on exactly as the original would
+   * have. The world keeps the snapshot's size; resize it afterwards to fit another screen.
+   */
+  public loadSnapshot(snapshot: WorldSnapshot) {
+    const { engine } = this;
+    Matter.Engine.clear(engine);
+    engine.timing.timestamp = snapshot.engine.timestamp;
+    engine.timing.timeScale = snapshot.engine.timeScale;
+    Object.assign(engine.gravity, snapshot.engine.gravity);
+    this.gravity = snapshot.gravity;
+    engine.enableSleeping = snapshot.engine.enableSleeping;
+    engine.constraintIterations = snapshot.engine.constraintIterations;
+    engine.positionIterations = snapshot.engine.positionIterations;
+    engine.velocityIterations = snapshot.engine.velocityIterations;
+    this.clock = snapshot.clock;
+    this.resize(snapshot.width, snapshot.height);
+    
+    // A scene that is no longer registered falls back to the classic box
+    const scene = sceneRegistry.get(snapshot.scene) ?? CLASSIC_SCENE;
+    this.buildScene(scene);
+    snapshot.objects.forEach((saved, index) => {
+      const object = this.objects[index];
+      if (object) restoreBody(object.body, saved);
+    });
+    this.flow.restore(snapshot.emitters, snapshot.drains, snapshot.emitterPending);
+    
+    // The solver is kept when nothing about the particle shape changed
+    const shapeChanged = snapshot.layout.hexagonRadius !== this.layout.hexagonRadius
+      || snapshot.fluid.particleRadius !== this.fluidSettings.particleRadius;
+    this.layout = { ...snapshot.layout };
+    Object.assign(this.fluidSettings, snapshot.fluid);
+    if (shapeChanged || snapshot.solver !== this.solver.kind) {
+      this.solver.destroy();
+      this.solver = this.createSolver(snapshot.solver);
+    }
+    this.solver.setParticles(snapshot.particles);
+    
+    this.getHandIds().forEach(handId => this.removeHand(handId));
+    this.handRadius = snapshot.handRadius;
+    this.handMaxSpeed = snapshot.handMaxSpeed;
+    this.setHandMode(snapshot.handMode);
+    snapshot.hands.forEach(saved => {
+      const { hand } = this.getHand(saved.id);
+      if (saved.mode) this.setHandColliderMode(saved.id, saved.mode);
+      restoreBody(hand.circle, saved.circle);
+      // The skeleton is posed before the motion exists, so posing doesn't feed the motion
+      if (saved.landmarks) this.updateHandLandmarks(saved.id, saved.landmarks);
+      hand.motion = saved.motion ? HandMotion.restore(saved.motion) : null;
+      hand.presence = saved.presence;
+      hand.opacity = saved.opacity;
+      this.getHandBodyList(hand).forEach(body => {
+        body.render.opacity = hand.opacity;
+      });
+      this.setHandDepth(saved.id, saved.depth);
+      const held = saved.grab === null ? null : this.objects[saved.grab];
+      if (held) this.attachGrab(hand, held.body);
+      this.applyHandCollision(hand);
+    });
+    
+    this.random = new SeededRandom(snapshot.seed);
+    this.random.setState(snapshot.randomState);
+    
+    // Last, over everything rebuilt above: Matter's contacts, impulses and previous positions
+    if (snapshot.physics) {
+      restoreEngineState(engine, this.getBodiesInOrder(), this.getConstraintsInOrder(), snapshot.physics);
+    }
+  }
+  
+  // Every body in the world, listed the same way however the world got to its current state
+  private getBodiesInOrder(): Matter.Body[] {
+    return [
+      ...this.walls,
+      ...this.obstacles,
+      ...this.objects.map(({ body }) => body),
+      ...this.solver.bodies,
+      ...[...this.hands.values()].flatMap(hand => this.getHandBodyList(hand))
+    ];
+  }
+  
+  private getConstraintsInOrder(): Matter.Constraint[] {
+    return [
+      ...this.objects.flatMap(({ pivot }) => (pivot ? [pivot] : [])),
+      ...[...this.hands.values()].flatMap(({ grab }) => (grab ? [grab] : []))
+    ];
+  }
+  
+  private getHand(handId: number): { hand: HandBodies; isNew: boolean } {
+    const existing = this.hands.get(handId);
+    if (existing) return { hand: existing, isNew: false };
+    
+    const hand: HandBodies = {
+      circle: Matter.Bodies.circle(-1000, -1000, this.handRadius, {
+        isStatic: true,
+        isSleeping: false,
+        sleepThreshold: Infinity,
+        render: {
+          fillStyle: HAND_FILL,
+          strokeStyle: '#00FF00',
+          lineWidth: 2
+        },
+        collisionFilter: HAND_COLLISION_FILTER
+      }),
+      skeleton: null,
+      mode: null,
+      grab: null,
+      motion: null,
+      depth: TOUCH_HAND_DEPTH,
+      radiusScale: 1,
+      presence: 'tracked',
+      opacity: 1
+    };
+    this.hands.set(handId, hand);
+    
+    if (this.handMode === 'circle') {
+      Matter.Composite.add(this.engine.world, hand.circle);
+    }
+    
+    return { hand, isNew: true };
+  }
+  
+  public getHandRadius(): number {
+    return this.handRadius;
+  }
+  
+  public setHandRadius(radius: number) {
+    if (radius === this.handRadius) return;
+    
+    const scale = radius / this.handRadius;
+    this.handRadius = radius;
+    this.hands.forEach(hand => Matter.Body.scale(hand.circle, scale, scale));
+  }
+  
+  public getHandMaxSpeed(): number {
+    return this.handMaxSpeed;
+  }
+  
+  public setHandMaxSpeed(speed: number) {
+    this.handMaxSpeed = speed;
+  }
+  
+  public getHandPosition(handId: number): Point | null {
+    const hand = this.hands.get(handId);
+    return hand ? { x: hand.circle.position.x, y: hand.circle.position.y } : null;
+  }
+  
+  public getHandIds(): number[] {
+    return [...this.hands.keys()];
+  }
+  
+  private getHandBodyList(hand: HandBodies): Matter.Body[] {
+    return hand.skeleton ? [hand.circle, ...hand.skeleton.bodies] : [hand.circle];
+  }
+  
+  // Non-tracked and hovering hands stay visible but drop out of collisions through their mask
+  private applyHandCollision(hand: HandBodies) {
+    const trackedMask = hand.grab ? PARTICLE_CATEGORY : HAND_COLLISION_FILTER.mask;
+    const mask = hand.presence === 'tracked' && hand.depth.zone !== 'hover' ? trackedMask : 0;
+    this.getHandBodyList(hand).forEach(body => {
+      body.collisionFilter = { ...body.collisionFilter, mask };
+    });
+  }
+  
+  public setHandPresence(handId: number, state: HandPresenceState) {
+    if (state === 'gone') {
+      this.removeHand(handId);
+      return;
+    }
+    
+    const { hand } = this.getHand(handId);
+    hand.presence = state;
+    if (state !== 'tracked') this.releaseGrab(hand);
+    this.applyHandCollision(hand);
+  }
+  
+  /**
+   * How far the hand is from the camera. Hovering hands pass through everything, and pressing
+   * ones grow their circle and push the liquid away, both scaled by how far in they press.
+   */
+  public setHandDepth(handId: number, depth: HandDepth) {
+    const hand = this.hands.get(handId);
+    if (!hand) return;
+    
+    const wasHovering = hand.depth.zone === 'hover';
+    hand.depth = depth;
+    if (wasHovering !== (depth.zone === 'hover')) this.applyHandCollision(hand);
+    
+    const radiusScale = 1 + (PRESS_RADIUS_SCALE - 1) * depth.press;
+    if (radiusScale !== hand.radiusScale) {
+      const scale = radiusScale / hand.radiusScale;
+      Matter.Body.scale(hand.circle, scale, scale);
+      hand.radiusScale = radiusScale;
+    }
+  }
+  
+  private pressHands(delta: number) {
+    this.hands.forEach(hand => {
+      if (hand.depth.press <= 0 || hand.presence !== 'tracked') return;
+      const reach = this.handRadius * hand.radiusScale * PRESS_REACH;
+      this.solver.applyRadialField(hand.circle.position, reach, -PRESS_ACCELERATION * hand.depth.press, delta);
+    });
+  }
+  
+  private updateHandFades = () => {
+    this.hands.forEach(hand => {
+      const target = Math.min(PRESENCE_OPACITY[hand.presence], hand.depth.zone === 'hover' ? HOVER_OPACITY : 1);
+      if (hand.opacity === target) return;
+      
+      const step = Math.sign(target - hand.opacity) * HAND_FADE_PER_STEP;
+      hand.opacity = Math.abs(target - hand.opacity) <= HAND_FADE_PER_STEP ? target : hand.opacity + step;
+      this.getHandBodyList(hand).forEach(body => {
+        body.render.opacity = hand.opacity;
+      });
+    });
+  };
+  
+  /**
+   * Feeds a tracked position, taken at `timestamp` milliseconds on the caller's clock. The hand
+   * body follows over the next steps at the speed the samples imply, so how hard it hits doesn't
+   * depend on the tracking frame rate. Without timestamps, arrival on the world's clock stands in.
+   */
+  public updateHandPosition(handId: number, x: number, y: number, timestamp?: number) {
+    const { hand } = this.getHand(handId);
+    const time = timestamp ?? this.clock;
+    
+    // A new hand appears in place rather than sweeping in from off-screen
+    if (!hand.motion) {
+      Matter.Body.setPosition(hand.circle, { x, y });
+      hand.motion = new HandMotion({ x, y }, null, time, this.clock);
+      return;
+    }
+    
+    hand.motion.addPoint({ x, y }, time, this.clock);
+  }
+  
+  // Drives the articulated hand colliders along with the position; ignored in circle mode
+  public updateHandLandmarks(handId: number, points: Point[]) {
+    if ((this.hands.get(handId)?.mode ?? this.handMode) !== 'articulated') return;
+    
+    const { hand } = this.getHand(handId);
+    hand.motion?.addLandmarks(points);
+    if (!hand.skeleton) {
+      hand.skeleton = new HandSkeleton(HAND_COLLISION_FILTER);
+      hand.skeleton.bodies.forEach(body => {
+        body.render.opacity = hand.opacity;
+      });
+      this.applyHandCollision(hand);
+      Matter.Composite.add(this.engine.world, hand.skeleton.composite);
+      hand.skeleton.update(points);
+    } else if (!hand.motion) {
+      hand.skeleton.update(points);
+    }
+  }
+  
+  // Plays each hand's motion forward to the world clock, carrying its speed into the bodies
+  private moveHands(delta: number) {
+    this.clock += delta;
+    const { timeScale } = this.engine.timing;
+    
+    this.hands.forEach(hand => {
+      if (!hand.motion) return;
+      
+      const { position, velocity, landmarks } = hand.motion.advance(this.clock, delta, this.handMaxSpeed);
+      Matter.Body.setPosition(hand.circle, position);
+      Matter.Body.setVelocity(hand.circle, toEngineVelocity(velocity, timeScale));
+      if (hand.grab) hand.grab.pointA = { x: position.x, y: position.y };
+      if (hand.skeleton && landmarks) hand.skeleton.update(landmarks, engineVelocityScale(delta, timeScale));
+    });
+  }
+  
+  public removeHand(handId: number) {
+    const hand = this.hands.get(handId);
+    if (!hand) return;
+    
+    this.releaseGrab(hand);
+    Matter.Composite.remove(this.engine.world, hand.circle);
+    if (hand.skeleton) {
+      Matter.Composite.remove(this.engine.world, hand.skeleton.composite);
+    }
+    this.hands.delete(handId);
+  }
+  
+  public getHandMode(): HandColliderMode {
+    return this.handMode;
+  }
+  
+  public setHandMode(mode: HandColliderMode) {
+    if (mode === this.handMode) return;
+    this.handMode = mode;
+    
+    this.hands.forEach(hand => {
+      if (!hand.mode) this.applyHandColliders(hand, mode);
+    });
+  }
+  
+  // Pins one hand to a collider mode regardless of the world's, or follows the world again with null
+  public setHandColliderMode(handId: number, mode: HandColliderMode | null) {
+    const { hand } = this.getHand(handId);
+    if (mode === hand.mode) return;
+    
+    hand.mode = mode;
+    this.applyHandColliders(hand, mode ?? this.handMode);
+  }
+  
+  private applyHandColliders(hand: HandBodies, mode: HandColliderMode) {
+    // Removing first keeps the circle from being added twice
+    Matter.Composite.remove(this.engine.world, hand.circle);
+    if (mode === 'circle') {
+      if (hand.skeleton) {
+        Matter.Composite.remove(this.engine.world, hand.skeleton.composite);
+        hand.skeleton = null;
+      }
+      Matter.Composite.add(this.engine.world, hand.circle);
+    }
+    // Skeletons are created lazily on the next landmark update
+  }
+  
+  public setHandGesture(handId: number, gesture: GestureType | null) {
+    const hand = this.hands.get(handId);
+    if (!hand) return;
+    
+    hand.circle.render.fillStyle = gesture ? GESTURE_COLORS[gesture] : HAND_FILL;
+    hand.skeleton?.setFill(gesture ? GESTURE_COLORS[gesture] : null);
+    this.setHandGrab(handId, gesture !== null && GRAB_GESTURES.includes(gesture));
+  }
+  
+  /**
+   * Picks up the scene object nearest the hand, or lets go of it. The object hangs off the hand
+   * on a soft constraint and stops colliding with it until released.
+   */
+  public setHandGrab(handId: number, grabbing: boolean, kind: GrabKind = 'hand') {
+    const hand = this.hands.get(handId);
+    if (!hand) return;
+    if (!grabbing) {
+      this.releaseGrab(hand);
+      return;
+    }
+    if (hand.grab || hand.presence !== 'tracked') return;
+    
+    const { position } = hand.circle;
+    const reach = this.handRadius;
+    const candidates = this.objects
+      .filter(({ definition }) => (kind === 'hand' ? definition.grabbable : definition.draggable))
+      .map(({ body }) => body);
+    const nearest = Matter.Query.region(candidates, {
+      min: { x: position.x - reach, y: position.y - reach },
+      max: { x: position.x + reach, y: position.y + reach }
+    }).sort((a: Matter.Body, b: Matter.Body) =>
+      Matter.Vector.magnitude(Matter.Vector.sub(a.position, position))
+      - Matter.Vector.magnitude(Matter.Vector.sub(b.position, position))
+    )[0];
+    if (!nearest) return;
+    
+    this.attachGrab(hand, nearest);
+    this.applyHandCollision(hand);
+  }
+  
+  private attachGrab(hand: HandBodies, body: Matter.Body) {
+    const { position } = hand.circle;
+    hand.grab = Matter.Constraint.create({
+      pointA: { x: position.x, y: position.y },
+      bodyB: body,
+      pointB: Matter.Vector.sub(position, body.position),
+      length: 0,
+      stiffness: GRAB_STIFFNESS,
+      damping: 0.1,
+      render: { visible: false }
+    });
+    Matter.Composite.add(this.engine.world, hand.grab);
+  }
+  
+  public isHandGrabbing(handId: number): boolean {
+    return Boolean(this.hands.get(handId)?.grab);
+  }
+  
+  private releaseGrab(hand: HandBodies) {
+    if (!hand.grab) return;
+    
+    Matter.Composite.remove(this.engine.world, hand.grab);
+    hand.grab = null;
+    this.applyHandCollision(hand);
+  }
+  
+  private createBoundaries() {
+    const { floor, left, right, ceiling } = sceneBoundaries(this.scene);
+    const { width, height } = this;
+    this.walls = [];
+    if (floor) this.walls.push(Matter.Bodies.rectangle(width / 2, height + 50, width, 100, { isStatic: true }));
+    if (left) this.walls.push(Matter.Bodies.rectangle(-50, height / 2, 100, height, { isStatic: true }));
+    if (right) this.walls.push(Matter.Bodies.rectangle(width + 50, height / 2, 100, height, { isStatic: true }));
+    if (ceiling) this.walls.push(Matter.Bodies.rectangle(width / 2, -50, width, 100, { isStatic: true }));
+    
+    Matter.Composite.add(this.engine.world, this.walls);
+  }
+  
+  private setupEngine() {
+    // Optimize engine configuration
+    this.engine.enableSleeping = false; // Prevent particles from going to sleep
+  }
+  
+  public destroy() {
+    Matter.Events.off(this.engine, 'afterUpdate', this.updateHandFades);
+    Matter.Composite.clear(this.engine.world, false);
+    Matter.Engine.clear(this.engine);
+    this.hands.clear();
+  }
+}
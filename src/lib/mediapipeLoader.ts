@@ -0,0 +1,203 @@
+import type { Hands, Options } from '@mediapipe/hands';
+import handsScriptUrl from '@mediapipe/hands/hands.js?url';
+import handsGraphUrl from '@mediapipe/hands/hands.binarypb?url';
+import landmarkFullUrl from '@mediapipe/hands/hand_landmark_full.tflite?url';
+import landmarkLiteUrl from '@mediapipe/hands/hand_landmark_lite.tflite?url';
+import packedAssetsUrl from '@mediapipe/hands/hands_solution_packed_assets.data?url';
+import packedAssetsLoaderUrl from '@mediapipe/hands/hands_solution_packed_assets_loader.js?url';
+import simdWasmLoaderUrl from '@mediapipe/hands/hands_solution_simd_wasm_bin.js?url';
+import simdWasmUrl from '@mediapipe/hands/hands_solution_simd_wasm_bin.wasm?url';
+import wasmLoaderUrl from '@mediapipe/hands/hands_solution_wasm_bin.js?url';
+import wasmUrl from '@mediapipe/hands/hands_solution_wasm_bin.wasm?url';
+import { withTimeout } from './timeout';
+
+declare global {
+  interface Window {
+    Hands?: typeof Hands;
+  }
+}
+
+// Where the MediaPipe script, wasm and model files are fetched from
+export interface AssetSource {
+  name: string;
+  locate(file: string): string;
+}
+
+export type LoadStage = 'script' | 'model';
+
+export interface LoadProgress {
+  stage: LoadStage;
+  source: string;
+  loaded: number; // Files requested so far
+  total: number;
+  file?: string;
+}
+
+export interface LoaderOptions {
+  scriptTimeoutMs: number;
+  initTimeoutMs: number;
+  onProgress?: (progress: LoadProgress) => void;
+}
+
+export const DEFAULT_LOADER_OPTIONS: LoaderOptions = {
+  scriptTimeoutMs: 15000,
+  initTimeoutMs: 30000
+};
+
+// Copied into the build output by Vite, so the app tracks hands without any network access
+const BUNDLED_FILES: Record<string, string> = {
+  'hands.js': handsScriptUrl,
+  'hands.binarypb': handsGraphUrl,
+  'hand_landmark_full.tflite': landmarkFullUrl,
+  'hand_landmark_lite.tflite': landmarkLiteUrl,
+  'hands_solution_packed_assets.data': packedAssetsUrl,
+  'hands_solution_packed_assets_loader.js': packedAssetsLoaderUrl,
+  'hands_solution_simd_wasm_bin.js': simdWasmLoaderUrl,
+  'hands_solution_simd_wasm_bin.wasm': simdWasmUrl,
+  'hands_solution_wasm_bin.js': wasmLoaderUrl,
+  'hands_solution_wasm_bin.wasm': wasmUrl
+};
+
+// Every file a source has to serve, script included
+export const HANDS_FILES = Object.keys(BUNDLED_FILES);
+
+// Graph, packed assets and their loader, one wasm build and its loader, one landmark model
+export const MODEL_FILE_COUNT = 6;
+
+export const BUNDLED_SOURCE: AssetSource = {
+  name: 'bundled',
+  locate: file => {
+    const url = BUNDLED_FILES[file];
+    if (!url) throw new Error(`MediaPipe requested an unbundled file: ${file}`);
+    return url;
+  }
+};
+
+const MEDIAPIPE_VERSION = '0.4.1675469240';
+
+export const DEFAULT_ASSET_URLS = [
+  'bundled',
+  `https://cdn.jsdelivr.net/npm/@mediapipe/hands@${MEDIAPIPE_VERSION}`,
+  `https://unpkg.com/@mediapipe/hands@${MEDIAPIPE_VERSION}`
+];
+
+export function baseUrlSource(base: string): AssetSource {
+  const root = base.replace(/\/+$/, '');
+  return { name: root, locate: file => `${root}/${file}` };
+}
+
+/**
+ * Asset sources in the order they are tried. `VITE_MEDIAPIPE_ASSET_URLS` overrides the default
+ * list with comma-separated base URLs; the word `bundled` stands for the files in the build.
+ */
+export function configuredAssetSources(urls = import.meta.env.VITE_MEDIAPIPE_ASSET_URLS): AssetSource[] {
+  const list = urls ? urls.split(',').map(url => url.trim()).filter(Boolean) : DEFAULT_ASSET_URLS;
+  return list.map(url => (url === 'bundled' ? BUNDLED_SOURCE : baseUrlSource(url)));
+}
+
+function injectScript(url: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = url;
+    script.crossOrigin = 'anonymous';
+    script.onload = () => {
+      // The script defines the global while it executes, so it is there by `load` or never
+      if (window.Hands) {
+        resolve();
+      } else {
+        script.remove();
+        reject(new Error('Hands object not found after script load'));
+      }
+    };
+    script.onerror = () => {
+      script.remove();
+      reject(new Error(`Failed to load ${url}`));
+    };
+    document.head.appendChild(script);
+  });
+}
+
+function describe(failures: string[]) {
+  return failures.join('; ');
+}
+
+/**
+ * Loads the MediaPipe Hands script from the first source that answers in time. Returns the
+ * index of that source, so the model can be fetched from the same place.
+ */
+export async function loadHandsScript(
+  sources: AssetSource[],
+  options: Partial<LoaderOptions> = {}
+): Promise<number> {
+  const { scriptTimeoutMs, onProgress } = { ...DEFAULT_LOADER_OPTIONS, ...options };
+  const failures: string[] = [];
+
+  for (let index = 0; index < sources.length; index++) {
+    const source = sources[index];
+    if (window.Hands) return index;
+
+    onProgress?.({ stage: 'script', source: source.name, loaded: 0, total: 1, file: 'hands.js' });
+    try {
+      await withTimeout(
+        injectScript(source.locate('hands.js')),
+        scriptTimeoutMs,
+        `Timed out loading hands.js from ${source.name}`
+      );
+      onProgress?.({ stage: 'script', source: source.name, loaded: 1, total: 1, file: 'hands.js' });
+      return index;
+    } catch (error) {
+      console.warn('[MediaPipe] Script source failed:', source.name, error);
+      failures.push(`${source.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  throw new Error(`Could not load the hand tracking script (${describe(failures)})`);
+}
+
+/**
+ * Creates and initializes a Hands instance, fetching the wasm and model from each source in
+ * turn, starting at `firstSource`. A source that fails or stalls is closed before moving on.
+ */
+export async function createHands(
+  sources: AssetSource[],
+  handsOptions: Options,
+  options: Partial<LoaderOptions> & { firstSource?: number } = {}
+): Promise<Hands> {
+  const { initTimeoutMs, onProgress, firstSource = 0 } = { ...DEFAULT_LOADER_OPTIONS, ...options };
+  const HandsConstructor = window.Hands;
+  if (!HandsConstructor) throw new Error('Hand tracking script is not loaded');
+  const failures: string[] = [];
+
+  for (let index = firstSource; index < sources.length; index++) {
+    const source = sources[index];
+    const requested = new Set<string>();
+    const hands = new HandsConstructor({
+      locateFile: file => {
+        requested.add(file);
+        onProgress?.({
+          stage: 'model',
+          source: source.name,
+          loaded: Math.min(requested.size, MODEL_FILE_COUNT),
+          total: MODEL_FILE_COUNT,
+          file
+        });
+        return source.locate(file);
+      }
+    });
+
+    try {
+      hands.setOptions(handsOptions);
+      await withTimeout(hands.initialize(), initTimeoutMs, `Timed out initializing from ${source.name}`);
+      onProgress?.({ stage: 'model', source: source.name, loaded: MODEL_FILE_COUNT, total: MODEL_FILE_COUNT });
+      return hands;
+    } catch (error) {
+      console.warn('[MediaPipe] Model source failed:', source.name, error);
+      failures.push(`${source.name}: ${error instanceof Error ? error.message : String(error)}`);
+      hands.close().catch(() => {
+        // Already broken; nothing more to release
+      });
+    }
+  }
+
+  throw new Error(`Could not load the hand tracking model (${describe(failures)})`);
+}
@@ -0,0 +1,253 @@
+import { Emitter } from './emitter';
+import type { GestureRecognizer } from './gestures';
+import { HandInputSource, HandSourceStatus, handIdAt } from './handInput';
+import type { HandPresenceTracker } from './handPresence';
+
+const STORAGE_KEY = 'hand-lab:onboarding-complete';
+// Bumped when the tour changes enough that returning visitors should see it again
+const ONBOARDING_VERSION = '1';
+
+const WRIST = 0;
+// Wrist travel, in normalized camera units, that counts as having moved a hand
+const MOVE_DISTANCE = 0.6;
+
+export type OnboardingStepId = 'camera' | 'show-hand' | 'move-hand' | 'second-hand' | 'gesture';
+
+// What the tour has seen so far; steps complete on these rather than on timers
+export interface OnboardingSignals {
+  status: HandSourceStatus;
+  trackedHands: number;
+  movement: number; // Wrist travel since the current step began
+  gestured: boolean; // A gesture started since the current step began
+}
+
+export interface OnboardingStep {
+  id: OnboardingStepId;
+  prompt: string;
+  hints: string[]; // Shown one after another while the step drags on
+  hintAfterMs: number;
+  optional?: boolean; // Moves on by itself once every hint has had its turn
+  isDone: (signals: OnboardingSignals) => boolean;
+  isStuck?: (signals: OnboardingSignals) => boolean; // Jumps straight to the last hint
+}
+
+export const ONBOARDING_STEPS: OnboardingStep[] = [
+  {
+    id: 'camera',
+    prompt: 'Starting the camera…',
+    hints: [
+      'Allow camera access when your browser asks',
+      'No camera? Skip ahead and use the mouse or touch instead'
+    ],
+    hintAfterMs: 6000,
+    isDone: ({ status }) => status === 'running',
+    isStuck: ({ status }) => status === 'error'
+  },
+  {
+    id: 'show-hand',
+    prompt: 'Hold a hand up to the camera',
+    hints: [
+      'Stand about an arm’s length away with your palm towards the screen',
+      'Hands are easier to see in good light, against a plain background'
+    ],
+    hintAfterMs: 5000,
+    isDone: ({ trackedHands }) => trackedHands > 0
+  },
+  {
+    id: 'move-hand',
+    prompt: 'Move your hand to stir the liquid',
+    hints: ['Sweep your hand slowly from side to side'],
+    hintAfterMs: 5000,
+    isDone: ({ movement }) => movement >= MOVE_DISTANCE
+  },
+  {
+    id: 'second-hand',
+    prompt: 'Now try both hands',
+    hints: ['Keep both hands in view of the camera at once'],
+    hintAfterMs: 6000,
+    isDone: ({ trackedHands }) => trackedHands >= 2
+  },
+  {
+    id: 'gesture',
+    prompt: 'Pinch or make a fist to grab things',
+    hints: ['Touch your thumb and index finger together'],
+    hintAfterMs: 6000,
+    optional: true,
+    isDone: ({ gestured }) => gestured
+  }
+];
+
+export interface OnboardingState {
+  step: OnboardingStep | null; // Null once the tour is over
+  index: number;
+  total: number;
+  hint: string | null;
+}
+
+export interface OnboardingEvents {
+  change: OnboardingState;
+  complete: { skipped: boolean };
+}
+
+export function hasCompletedOnboarding(): boolean {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === ONBOARDING_VERSION;
+  } catch {
+    return false;
+  }
+}
+
+export function saveOnboardingComplete() {
+  try {
+    localStorage.setItem(STORAGE_KEY, ONBOARDING_VERSION);
+  } catch {
+    // Private browsing; the tour just shows again next time
+  }
+}
+
+export function clearOnboarding() {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * A step-by-step introduction driven by what the tracker actually sees. Each step advances as
+ * soon as its condition holds, shows hints while the visitor is stuck, and can be skipped. The
+ * tour is recorded as complete when it ends, skipped or not.
+ */
+export class Onboarding extends Emitter<OnboardingEvents> {
+  private steps: OnboardingStep[];
+  private index = 0;
+  private hintIndex = -1;
+  private hintTimer: ReturnType<typeof setTimeout> | null = null;
+  private signals: OnboardingSignals = { status: 'idle', trackedHands: 0, movement: 0, gestured: false };
+
+  // One-handed setups, e.g. phones, leave out the two-hand step
+  constructor({ maxHands = 2, steps = ONBOARDING_STEPS }: { maxHands?: number; steps?: OnboardingStep[] } = {}) {
+    super();
+    this.steps = steps.filter(step => step.id !== 'second-hand' || maxHands >= 2);
+  }
+
+  public get state(): OnboardingState {
+    const step = this.steps[this.index] ?? null;
+    return {
+      step,
+      index: this.index,
+      total: this.steps.length,
+      hint: step && this.hintIndex >= 0 ? step.hints[this.hintIndex] : null
+    };
+  }
+
+  public start() {
+    this.enterStep();
+  }
+
+  /**
+   * Feeds the tour from the app's input pipeline. Hands only count once presence tracking
+   * trusts them, and movement is the wrist's travel between frames.
+   */
+  public connect(source: HandInputSource, presence: HandPresenceTracker, gestures: GestureRecognizer): () => void {
+    const tracked = new Set<number>();
+    const wrists = new Map<number, { x: number; y: number }>();
+
+    this.update({ status: source.status });
+    const unsubscribers = [
+      source.on('status', status => this.update({ status })),
+      presence.on('change', ({ id, state }) => {
+        if (state === 'tracked') tracked.add(id);
+        else tracked.delete(id);
+        this.update({ trackedHands: tracked.size });
+      }),
+      source.on('frame', frame => {
+        let travelled = 0;
+        const seen = new Set<number>();
+        frame.multiHandLandmarks.forEach((landmarks, index) => {
+          const id = handIdAt(frame, index);
+          const wrist = landmarks[WRIST];
+          const previous = wrists.get(id);
+          if (previous && tracked.has(id)) travelled += Math.hypot(wrist.x - previous.x, wrist.y - previous.y);
+          wrists.set(id, { x: wrist.x, y: wrist.y });
+          seen.add(id);
+        });
+        [...wrists.keys()].filter(id => !seen.has(id)).forEach(id => wrists.delete(id));
+        if (travelled > 0) this.update({ movement: this.signals.movement + travelled });
+      }),
+      gestures.on('start', () => this.update({ gestured: true }))
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  public update(signals: Partial<OnboardingSignals>) {
+    this.signals = { ...this.signals, ...signals };
+    // Several steps can be satisfied at once, e.g. a visitor who raises both hands straight away
+    while (this.steps[this.index]?.isDone(this.signals)) this.advance();
+
+    const step = this.steps[this.index];
+    const lastHint = step ? step.hints.length - 1 : -1;
+    if (step?.isStuck?.(this.signals) && this.hintIndex < lastHint) {
+      this.hintIndex = lastHint;
+      this.clearHintTimer();
+      this.emit('change', this.state);
+    }
+  }
+
+  public skipStep() {
+    if (this.index < this.steps.length) this.advance();
+  }
+
+  public skipAll() {
+    if (this.index >= this.steps.length) return;
+    this.index = this.steps.length;
+    this.finish(true);
+  }
+
+  private advance() {
+    this.index++;
+    if (this.index >= this.steps.length) {
+      this.finish(false);
+      return;
+    }
+    this.enterStep();
+  }
+
+  private enterStep() {
+    this.signals = { ...this.signals, movement: 0, gestured: false };
+    this.hintIndex = -1;
+    this.scheduleHint();
+    this.emit('change', this.state);
+  }
+
+  private scheduleHint() {
+    this.clearHintTimer();
+    const step = this.steps[this.index];
+    if (!step) return;
+
+    this.hintTimer = setTimeout(() => {
+      this.hintTimer = null;
+      if (this.hintIndex + 1 < step.hints.length) {
+        this.hintIndex++;
+        this.scheduleHint();
+        this.emit('change', this.state);
+      } else if (step.optional) {
+        this.advance();
+      }
+    }, step.hintAfterMs);
+  }
+
+  private clearHintTimer() {
+    if (this.hintTimer !== null) clearTimeout(this.hintTimer);
+    this.hintTimer = null;
+  }
+
+  private finish(skipped: boolean) {
+    this.clearHintTimer();
+    saveOnboardingComplete();
+    this.emit('change', this.state);
+    this.emit('complete', { skipped });
+  }
+
+  public destroy() {
+    this.clearHintTimer();
+    this.removeAllListeners();
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { LiquidWorld } from './liquidWorld';
+
+const STEP = 1000 / 60;
+
+describe('ParticleFlow', () => {
+  it('returns the oldest particles to the pool when the budget drops below the count', () => {
+    const world = new LiquidWorld({ width: 1200, height: 800, seed: 1 });
+    const solver = world.getSolver();
+    const before = solver.getParticles();
+
+    world.flow.setBudget(before.length - 100, solver);
+    expect(solver.count).toBe(before.length - 100);
+    expect(solver.getParticles()).toEqual(before.slice(100));
+
+    // Emitters stay held back at the new budget
+    world.flow.addEmitter({ position: { x: 600, y: 100 }, rate: 600 });
+    for (let i = 0; i < 30; i++) world.step(STEP);
+    expect(solver.count).toBe(before.length - 100);
+  });
+});
@@ -0,0 +1,208 @@
+import type { Point } from './geometry';
+import type { ParticleSolver } from './particleSolver';
+import type { SeededRandom } from './random';
+import type { BodySnapshot } from './worldSnapshot';
+
+// A faucet or fountain: particles leave the nozzle along `direction`, fanned out by `spread`
+export interface ParticleEmitter {
+  position: Point; // Pixels
+  direction: number; // Radians clockwise from screen right, so π/2 points down
+  spread: number; // Radians either side of the direction
+  rate: number; // Particles per second
+  speed: number; // px/s
+  width: number; // Nozzle width in px that particles leave across
+  temporary?: boolean; // Left out of snapshots, e.g. a pour that lasts as long as a pinch
+}
+
+// Removes every particle that enters its rectangle
+export interface ParticleDrain {
+  position: Point; // Centre, in pixels
+  width: number;
+  height: number;
+  temporary?: boolean;
+}
+
+export type EmitterOptions = Pick<ParticleEmitter, 'position'> & Partial<ParticleEmitter>;
+
+export const DEFAULT_EMITTER: Omit<ParticleEmitter, 'position'> = {
+  direction: Math.PI / 2,
+  spread: 0.15,
+  rate: 40,
+  speed: 300,
+  width: 24
+};
+
+// Live particles the world may hold before emitters hold back
+export const DEFAULT_PARTICLE_BUDGET = 3000;
+export const MOBILE_PARTICLE_BUDGET = 800;
+
+export interface ParticleStats {
+  live: number;
+  budget: number;
+  emitters: number;
+  drains: number;
+  emitted: number; // Totals since the world was created
+  drained: number;
+}
+
+// Matter velocities are pixels per 1000/60 ms step
+const STEP_SECONDS = 1 / 60;
+
+function drainContains({ position, width, height }: ParticleDrain, x: number, y: number) {
+  return Math.abs(x - position.x) <= width / 2 && Math.abs(y - position.y) <= height / 2;
+}
+
+/**
+ * The emitters and drains of a world, keyed by ID. Each step, drains remove the particles they
+ * cover, then emitters add what their rate has built up, but only while the world is under its
+ * particle budget. The solvers keep removed particles as a pool for emitters to reuse.
+ */
+export class ParticleFlow {
+  private emitters = new Map<number, { emitter: ParticleEmitter; pending: number }>();
+  private drains = new Map<number, ParticleDrain>();
+  private nextId = 1;
+  private budget: number;
+  private emitted = 0;
+  private drained = 0;
+
+  constructor(budget = DEFAULT_PARTICLE_BUDGET) {
+    this.budget = budget;
+  }
+
+  public getBudget(): number {
+    return this.budget;
+  }
+
+  // Particles over a lowered budget go back to the solver's pool at once, oldest first
+  public setBudget(budget: number, solver: ParticleSolver) {
+    this.budget = Math.max(0, budget);
+    let excess = solver.count - this.budget;
+    if (excess > 0) solver.removeParticles(() => excess-- > 0);
+  }
+
+  public stats(live: number): ParticleStats {
+    return {
+      live,
+      budget: this.budget,
+      emitters: this.emitters.size,
+      drains: this.drains.size,
+      emitted: this.emitted,
+      drained: this.drained
+    };
+  }
+
+  public addEmitter(options: EmitterOptions): number {
+    const id = this.nextId++;
+    this.emitters.set(id, { emitter: { ...DEFAULT_EMITTER, ...options, position: { ...options.position } }, pending: 0 });
+    return id;
+  }
+
+  // Unknown IDs are ignored, e.g. an emitter a loaded snapshot already replaced
+  public updateEmitter(id: number, changes: Partial<ParticleEmitter>) {
+    const entry = this.emitters.get(id);
+    if (entry) entry.emitter = { ...entry.emitter, ...changes };
+  }
+
+  public removeEmitter(id: number) {
+    this.emitters.delete(id);
+  }
+
+  public getEmitters(): (ParticleEmitter & { id: number })[] {
+    return [...this.emitters].map(([id, { emitter }]) => ({ id, ...emitter }));
+  }
+
+  public addDrain(drain: ParticleDrain): number {
+    const id = this.nextId++;
+    this.drains.set(id, { ...drain, position: { ...drain.position } });
+    return id;
+  }
+
+  public updateDrain(id: number, changes: Partial<ParticleDrain>) {
+    const drain = this.drains.get(id);
+    if (drain) this.drains.set(id, { ...drain, ...changes });
+  }
+
+  public removeDrain(id: number) {
+    this.drains.delete(id);
+  }
+
+  public getDrains(): (ParticleDrain & { id: number })[] {
+    return [...this.drains].map(([id, drain]) => ({ id, ...drain }));
+  }
+
+  public clear() {
+    this.emitters.clear();
+    this.drains.clear();
+  }
+
+  /**
+   * Temporary emitters and drains, like a pinch-and-hold pour, belong to a hand and are left out.
+   * Each emitter's fraction of a particle built up so far is kept, so a restored faucet releases
+   * its next particle on the same step.
+   */
+  public save(): { emitters: ParticleEmitter[]; drains: ParticleDrain[]; emitterPending: number[] } {
+    const entries = [...this.emitters.values()].filter(({ emitter }) => !emitter.temporary);
+    return {
+      emitters: entries.map(({ emitter }) => emitter),
+      drains: [...this.drains.values()].filter(drain => !drain.temporary),
+      emitterPending: entries.map(({ pending }) => pending)
+    };
+  }
+
+  // Replaces everything with saved emitters and drains, as snapshots store them
+  public restore(emitters: ParticleEmitter[], drains: ParticleDrain[], pending: number[] = []) {
+    this.clear();
+    emitters.forEach((emitter, index) => {
+      const entry = this.emitters.get(this.addEmitter(emitter));
+      if (entry) entry.pending = pending[index] ?? 0;
+    });
+    drains.forEach(drain => this.addDrain(drain));
+  }
+
+  // Emitters and drains placed in a screen keep their place relative to it when it resizes
+  public scale(scaleX: number, scaleY: number) {
+    const move = ({ x, y }: Point) => ({ x: x * scaleX, y: y * scaleY });
+    this.emitters.forEach(entry => {
+      entry.emitter = { ...entry.emitter, position: move(entry.emitter.position) };
+    });
+    this.drains.forEach((drain, id) => this.drains.set(id, { ...drain, position: move(drain.position) }));
+  }
+
+  // `delta` is engine time, so slow motion slows the faucets along with everything else
+  public step(delta: number, solver: ParticleSolver, random: SeededRandom) {
+    if (this.drains.size > 0) {
+      const drains = [...this.drains.values()];
+      this.drained += solver.removeParticles((x, y) => drains.some(drain => drainContains(drain, x, y)));
+    }
+
+    let room = Math.max(0, this.budget - solver.count);
+    const particles: BodySnapshot[] = [];
+    this.emitters.forEach(entry => {
+      entry.pending += entry.emitter.rate * (delta / 1000);
+      const count = Math.floor(entry.pending);
+      entry.pending -= count;
+      // A full world holds the flow back rather than saving it up for later
+      for (let n = 0; n < count && room > 0; n++, room--) particles.push(this.spawn(entry.emitter, random));
+    });
+
+    if (particles.length > 0) {
+      solver.addParticles(particles);
+      this.emitted += particles.length;
+    }
+  }
+
+  private spawn({ position, direction, spread, speed, width }: ParticleEmitter, random: SeededRandom): BodySnapshot {
+    const angle = direction + random.range(-spread, spread);
+    // Spread across the nozzle, at right angles to the direction it points
+    const offset = random.range(-0.5, 0.5) * width;
+    const stepSpeed = speed * STEP_SECONDS;
+    return {
+      x: position.x - Math.sin(direction) * offset,
+      y: position.y + Math.cos(direction) * offset,
+      angle: 0,
+      vx: Math.cos(angle) * stepSpeed,
+      vy: Math.sin(angle) * stepSpeed,
+      angularVelocity: 0
+    };
+  }
+}
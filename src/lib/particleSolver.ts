@@ -0,0 +1,99 @@
+import type Matter from 'matter-js';
+import type { Point } from './geometry';
+import type { SceneBoundaries } from './scene';
+import type { BodySnapshot } from './worldSnapshot';
+
+export type SolverKind = 'rigid' | 'fluid';
+
+export type ParticleShape = 'hexagon' | 'circle';
+
+export type ParticleVisitor = (x: number, y: number, vx: number, vy: number, angle: number) => void;
+
+export const SOLVER_KINDS: SolverKind[] = ['rigid', 'fluid'];
+
+// Category bit the liquid uses in collision filters; static bodies whose mask includes it contain the liquid
+export const PARTICLE_CATEGORY = 0x0001;
+
+// Label of liquid particles that live in the Matter world, so renderers can tell them from other bodies
+export const PARTICLE_LABEL = 'liquid-particle';
+
+export interface ParticleLayout {
+  rows: number;
+  cols: number;
+  spacing: number;
+  hexagonRadius: number;
+  extraParticles: number; // Loosely scattered above the grid for more natural behavior
+}
+
+export const DESKTOP_PARTICLE_LAYOUT: ParticleLayout = {
+  rows: 30,
+  cols: 40,
+  spacing: 45, // Further increased spacing between particles
+  hexagonRadius: 16,
+  extraParticles: 200
+};
+
+export const MOBILE_PARTICLE_LAYOUT: ParticleLayout = {
+  ...DESKTOP_PARTICLE_LAYOUT,
+  rows: 12,
+  cols: 15,
+  extraParticles: 50
+};
+
+/**
+ * Where a share of the layout's particles spawns. `x` is the centre of the block and `y` its top,
+ * as fractions of the viewport below a fixed top margin; `width` optionally narrows the block.
+ */
+export interface ParticleGroup {
+  x: number;
+  y: number;
+  share: number; // Relative to the other groups of the scene
+  width?: number;
+}
+
+// Top margin every group spawns below
+export const SPAWN_TOP = 50;
+
+// The whole layout as one block above the centre of the screen
+export const DEFAULT_PARTICLE_GROUPS: ParticleGroup[] = [{ x: 0.5, y: 0, share: 1 }];
+
+// Splits `total` over the groups by share; the last group takes the rounding remainder
+export function splitByShare(total: number, groups: readonly ParticleGroup[]): number[] {
+  const sum = groups.reduce((acc, group) => acc + group.share, 0);
+  let remaining = total;
+  return groups.map((group, index) => {
+    const count = index === groups.length - 1 ? remaining : Math.round((total * group.share) / sum);
+    remaining -= count;
+    return count;
+  });
+}
+
+/**
+ * Owns the liquid particles of a LiquidWorld. The world steps the Matter engine first, then the
+ * solver, so rigid particles can live in the engine while other solvers integrate on their own.
+ * Particle velocities are always in Matter units: pixels per 1000/60 ms step.
+ */
+export interface ParticleSolver {
+  readonly kind: SolverKind;
+  readonly count: number;
+  readonly particleShape: ParticleShape;
+  readonly particleRadius: number;
+  // Matter bodies the solver keeps in the engine, in particle order; none for solvers that integrate on their own
+  readonly bodies: readonly Matter.Body[];
+  // `colliders` are the static and kinematic bodies currently containing or pushing the liquid
+  step(delta: number, colliders: readonly Matter.Body[]): void;
+  forEachParticle(visit: ParticleVisitor): void;
+  // Accelerates particles within `radius` towards `center`, or away for a negative px/s², fading out to the edge
+  applyRadialField(center: Point, radius: number, acceleration: number, delta: number): void;
+  getParticles(): BodySnapshot[];
+  setParticles(particles: BodySnapshot[]): void;
+  // Adds particles after the existing ones, reusing removed ones where the solver pools them
+  addParticles(particles: BodySnapshot[]): void;
+  // Removes every particle whose position passes `test`, which sees them oldest first; returns how many went
+  removeParticles(test: (x: number, y: number) => boolean): number;
+  // New viewport bounds for spawning and containment; the world moves the particles itself
+  resize(width: number, height: number): void;
+  // Which screen edges the scene walls in; the liquid leaves through the open ones
+  setBoundaries(boundaries: SceneBoundaries): void;
+  destroy(): void;
+}
@@ -0,0 +1,172 @@
+import { Emitter } from './emitter';
+
+export interface QualityTier {
+  name: string;
+  particleScale: number; // Fraction of the configured particle rows and extras
+  positionIterations: number; // Caps on the configured solver iterations
+  velocityIterations: number;
+  fluidIterations: number;
+  modelComplexity: 0 | 1; // MediaPipe Hands model: 0 is lite, 1 is full
+  maxHands: number;
+}
+
+// Highest quality first; the governor only ever moves one tier at a time
+export const QUALITY_TIERS: QualityTier[] = [
+  { name: 'High', particleScale: 1, positionIterations: 20, velocityIterations: 20, fluidIterations: 10, modelComplexity: 1, maxHands: 2 },
+  { name: 'Medium', particleScale: 0.75, positionIterations: 4, velocityIterations: 3, fluidIterations: 3, modelComplexity: 1, maxHands: 2 },
+  { name: 'Low', particleScale: 0.5, positionIterations: 3, velocityIterations: 2, fluidIterations: 2, modelComplexity: 0, maxHands: 2 },
+  { name: 'Minimal', particleScale: 0.3, positionIterations: 2, velocityIterations: 1, fluidIterations: 1, modelComplexity: 0, maxHands: 1 }
+];
+
+export interface PerformanceMetrics {
+  fps: number;
+  frameMs: number; // Time between animation frames
+  stepMs: number; // Physics per frame, including catch-up steps
+  renderMs: number;
+  trackingMs: number | null; // Inference latency; null without a live tracker
+}
+
+export interface GovernorOptions {
+  targetFps: number;
+  windowMs: number; // Metrics are averaged and judged over windows of this length
+  downgradeAfter: number; // Consecutive slow windows before stepping down
+  upgradeAfter: number; // Consecutive windows with headroom before stepping up
+  headroom: number; // Fraction of the frame budget physics and rendering may use before an upgrade
+  maxTrackingMs: number; // Inference slower than this counts as slow too
+}
+
+export interface GovernorEvents {
+  metrics: PerformanceMetrics;
+  tier: QualityTier;
+}
+
+const DEFAULT_OPTIONS: GovernorOptions = {
+  targetFps: 50,
+  windowMs: 1000,
+  downgradeAfter: 2,
+  upgradeAfter: 5,
+  headroom: 0.4,
+  maxTrackingMs: 60
+};
+
+interface MetricsWindow {
+  start: number;
+  frames: number;
+  frameTime: number;
+  stepTime: number;
+  renderTime: number;
+  trackingTime: number;
+  trackingFrames: number;
+}
+
+function emptyWindow(start: number): MetricsWindow {
+  return { start, frames: 0, frameTime: 0, stepTime: 0, renderTime: 0, trackingTime: 0, trackingFrames: 0 };
+}
+
+/**
+ * Measures the frame loop and the tracker, and moves between quality tiers. It steps down after
+ * a few slow windows in a row and only steps back up after a longer run with clear headroom,
+ * so it settles instead of oscillating between two tiers.
+ */
+export class PerformanceGovernor extends Emitter<GovernorEvents> {
+  public auto = true;
+  private options: GovernorOptions;
+  private tierIndex = 0;
+  private window: MetricsWindow | null = null;
+  private lastFrame: number | null = null;
+  private slowWindows = 0;
+  private fastWindows = 0;
+  private metrics: PerformanceMetrics | null = null;
+
+  constructor(options: Partial<GovernorOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  public get tier(): QualityTier {
+    return QUALITY_TIERS[this.tierIndex];
+  }
+
+  public get tierLevel() {
+    return this.tierIndex;
+  }
+
+  public getMetrics(): PerformanceMetrics | null {
+    return this.metrics;
+  }
+
+  public setTier(index: number) {
+    const next = Math.min(Math.max(index, 0), QUALITY_TIERS.length - 1);
+    this.slowWindows = 0;
+    this.fastWindows = 0;
+    if (next === this.tierIndex) return;
+
+    this.tierIndex = next;
+    this.emit('tier', this.tier);
+  }
+
+  // Called once per animation frame with the time spent stepping and drawing it
+  public recordFrame(time: number, stepMs: number, renderMs: number) {
+    if (!this.window) this.window = emptyWindow(time);
+    const current = this.window;
+
+    if (this.lastFrame !== null) {
+      current.frames++;
+      current.frameTime += time - this.lastFrame;
+      current.stepTime += stepMs;
+      current.renderTime += renderMs;
+    }
+    this.lastFrame = time;
+
+    if (time - current.start >= this.options.windowMs && current.frames > 0) {
+      this.closeWindow(time);
+    }
+  }
+
+  public recordTracking(latencyMs: number) {
+    if (!this.window) return;
+    this.window.trackingTime += latencyMs;
+    this.window.trackingFrames++;
+  }
+
+  // Frames after a pause (hidden tab, debugger) would read as one huge stall
+  public resetTiming() {
+    this.window = null;
+    this.lastFrame = null;
+  }
+
+  private closeWindow(time: number) {
+    const current = this.window!;
+    const frameMs = current.frameTime / current.frames;
+    const metrics: PerformanceMetrics = {
+      fps: 1000 / frameMs,
+      frameMs,
+      stepMs: current.stepTime / current.frames,
+      renderMs: current.renderTime / current.frames,
+      trackingMs: current.trackingFrames ? current.trackingTime / current.trackingFrames : null
+    };
+    this.metrics = metrics;
+    this.window = emptyWindow(time);
+    this.emit('metrics', metrics);
+
+    if (this.auto) this.judge(metrics);
+  }
+
+  private judge({ fps, stepMs, renderMs, trackingMs }: PerformanceMetrics) {
+    const { targetFps, downgradeAfter, upgradeAfter, headroom, maxTrackingMs } = this.options;
+    const budget = 1000 / targetFps;
+    const slowTracking = trackingMs !== null && trackingMs > maxTrackingMs;
+    const isSlow = fps < targetFps || slowTracking;
+    const hasHeadroom = !slowTracking && stepMs + renderMs < budget * headroom
+      && (trackingMs === null || trackingMs < maxTrackingMs / 2);
+
+    this.slowWindows = isSlow ? this.slowWindows + 1 : 0;
+    this.fastWindows = !isSlow && hasHeadroom ? this.fastWindows + 1 : 0;
+
+    if (this.slowWindows >= downgradeAfter && this.tierIndex < QUALITY_TIERS.length - 1) {
+      this.setTier(this.tierIndex + 1);
+    } else if (this.fastWindows >= upgradeAfter && this.tierIndex > 0) {
+      this.setTier(this.tierIndex - 1);
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { Emitter } from './emitter';
+import type { HandPresenceEvent } from './handPresence';
+
+export interface PointerHandUpdate {
+  handId: number;
+  x: number; // Viewport pixels, the same space tracked hands are mapped into
+  y: number;
+  pointerType: string;
+  timestamp: number; // The event's time, so hand speed follows the pointer rather than event delivery
+}
+
+export interface PointerHandEvents {
+  update: PointerHandUpdate;
+  // 'tracked' when a pointer goes down, 'gone' when it lifts or is cancelled
+  change: HandPresenceEvent;
+}
+
+// Camera hands get IDs counting up from 0, so pointer hands count down from -1
+export function isPointerHandId(handId: number) {
+  return handId < 0;
+}
+
+/**
+ * Turns mouse, pen and touch pointers on an element into hands, one per pointer in contact.
+ * A mouse only counts while a button is held, so hovering never disturbs the liquid.
+ */
+export class PointerHandSource extends Emitter<PointerHandEvents> {
+  private hands = new Map<number, number>(); // Pointer ID -> hand ID
+  private enabled = true;
+  private previousTouchAction: string;
+
+  constructor(private target: HTMLElement) {
+    super();
+    // Touches would otherwise scroll or zoom the page instead of reaching the liquid
+    this.previousTouchAction = target.style.touchAction;
+    target.style.touchAction = 'none';
+
+    target.addEventListener('pointerdown', this.handlePointerDown);
+    target.addEventListener('pointermove', this.handlePointerMove);
+    target.addEventListener('pointerup', this.handlePointerEnd);
+    target.addEventListener('pointercancel', this.handlePointerEnd);
+    target.addEventListener('lostpointercapture', this.handlePointerEnd);
+  }
+
+  public get isEnabled() {
+    return this.enabled;
+  }
+
+  public get activeCount() {
+    return this.hands.size;
+  }
+
+  public setEnabled(enabled: boolean) {
+    if (enabled === this.enabled) return;
+    this.enabled = enabled;
+    if (!enabled) this.releaseAll();
+  }
+
+  // Reuses the lowest free ID, so hand IDs stay small however many pointers came and went
+  private allocateHandId() {
+    const used = new Set(this.hands.values());
+    let handId = -1;
+    while (used.has(handId)) handId--;
+    return handId;
+  }
+
+  private setPresence(handId: number, state: 'tracked' | 'gone', timestamp: number) {
+    this.emit('change', {
+      id: handId,
+      state,
+      previous: state === 'tracked' ? null : 'tracked',
+      timestamp
+    });
+  }
+
+  private emitUpdate(handId: number, event: PointerEvent) {
+    this.emit('update', {
+      handId,
+      x: event.clientX,
+      y: event.clientY,
+      pointerType: event.pointerType,
+      timestamp: event.timeStamp
+    });
+  }
+
+  private handlePointerDown = (event: PointerEvent) => {
+    if (!this.enabled || this.hands.has(event.pointerId)) return;
+    // The other mouse buttons keep their usual meaning
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+
+    const handId = this.allocateHandId();
+    this.hands.set(event.pointerId, handId);
+    try {
+      // Keeps the hand following a drag that leaves the element
+      this.target.setPointerCapture(event.pointerId);
+    } catch {
+      // Capture is a nicety; the pointer still works within the element
+    }
+    // The hand is placed at the pointer before it is announced, so it never sweeps in
+    this.emitUpdate(handId, event);
+    this.setPresence(handId, 'tracked', event.timeStamp);
+  };
+
+  private handlePointerMove = (event: PointerEvent) => {
+    const handId = this.hands.get(event.pointerId);
+    if (handId === undefined) return;
+
+    this.emitUpdate(handId, event);
+  };
+
+  private handlePointerEnd = (event: PointerEvent) => {
+    const handId = this.hands.get(event.pointerId);
+    if (handId === undefined) return;
+
+    this.hands.delete(event.pointerId);
+    this.setPresence(handId, 'gone', event.timeStamp);
+  };
+
+  private releaseAll() {
+    const timestamp = performance.now();
+    const released = [...this.hands];
+    this.hands.clear();
+    released.forEach(([pointerId, handId]) => {
+      if (this.target.hasPointerCapture(pointerId)) this.target.releasePointerCapture(pointerId);
+      this.setPresence(handId, 'gone', timestamp);
+    });
+  }
+
+  public destroy() {
+    this.releaseAll();
+    this.target.removeEventListener('pointerdown', this.handlePointerDown);
+    this.target.removeEventListener('pointermove', this.handlePointerMove);
+    this.target.removeEventListener('pointerup', this.handlePointerEnd);
+    this.target.removeEventListener('pointercancel', this.handlePointerEnd);
+    this.target.removeEventListener('lostpointercapture', this.handlePointerEnd);
+    this.target.style.touchAction = this.previousTouchAction;
+    this.removeAllListeners();
+  }
+}
@@ -0,0 +1,38 @@
+// Picks a fresh seed for runs that don't ask for a specific one
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Seedable PRNG (mulberry32). The whole generator state is one 32-bit integer, so it can be
+ * stored in a snapshot and resumed to replay the exact same sequence.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(public readonly seed: number = randomSeed()) {
+    this.state = seed >>> 0;
+  }
+
+  // Uniform in [0, 1)
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  // Uniform in [min, max)
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  public getState(): number {
+    return this.state;
+  }
+
+  public setState(state: number) {
+    this.state = state >>> 0;
+  }
+}
@@ -0,0 +1,200 @@
+import Matter from 'matter-js';
+import type { Point } from './geometry';
+import type { SeededRandom } from './random';
+import { DRAGGABLE_CATEGORY, OBJECT_CATEGORY } from './scene';
+import {
+  DEFAULT_PARTICLE_GROUPS,
+  PARTICLE_CATEGORY,
+  PARTICLE_LABEL,
+  ParticleGroup,
+  ParticleLayout,
+  ParticleSolver,
+  ParticleVisitor,
+  SPAWN_TOP,
+  splitByShare
+} from './particleSolver';
+import { BodySnapshot, captureBody, restoreBody } from './worldSnapshot';
+
+// The original liquid: chamfered hexagon bodies resolved by Matter's own collision solver
+export class RigidParticleSolver implements ParticleSolver {
+  public readonly kind = 'rigid';
+  public readonly particleShape = 'hexagon';
+  private particles: Matter.Body[] = [];
+  // Removed bodies, kept out of the world for emitters to reuse
+  private pool: Matter.Body[] = [];
+  
+  constructor(
+    private engine: Matter.Engine,
+    private width: number,
+    private height: number,
+    private layout: ParticleLayout,
+    private random: SeededRandom,
+    groups: readonly ParticleGroup[] = DEFAULT_PARTICLE_GROUPS
+  ) {
+    this.createParticles(groups);
+  }
+  
+  public get count() {
+    return this.particles.length;
+  }
+  
+  public get particleRadius() {
+    return this.layout.hexagonRadius;
+  }
+  
+  public get bodies(): readonly Matter.Body[] {
+    return this.particles;
+  }
+  
+  // Matter already moved the bodies during the engine update
+  public step() {}
+  
+  public forEachParticle(visit: ParticleVisitor) {
+    this.particles.forEach(({ position, velocity, angle }) => visit(position.x, position.y, velocity.x, velocity.y, angle));
+  }
+  
+  public applyRadialField(center: Point, radius: number, acceleration: number, delta: number) {
+    // Velocities are pixels per 1000/60 ms step, so px/s² becomes px/step per second
+    const change = (acceleration * (delta / 1000) * this.engine.timing.timeScale) / 60;
+    this.particles.forEach(body => {
+      const dx = center.x - body.position.x;
+      const dy = center.y - body.position.y;
+      const distance = Math.hypot(dx, dy);
+      if (distance >= radius || distance < 1e-6) return;
+
+      const impulse = (change * (1 - distance / radius)) / distance;
+      Matter.Body.setVelocity(body, { x: body.velocity.x + dx * impulse, y: body.velocity.y + dy * impulse });
+    });
+  }
+  
+  public getParticles(): BodySnapshot[] {
+    return this.particles.map(captureBody);
+  }
+  
+  // Bodies are reused when the count matches, keeping their creation order
+  public setParticles(particles: BodySnapshot[]) {
+    if (particles.length !== this.particles.length) {
+      Matter.Composite.remove(this.engine.world, this.particles);
+      this.pool.push(...this.particles);
+      this.particles = particles.map(particle => this.takeParticle(particle.x, particle.y));
+      Matter.Composite.add(this.engine.world, this.particles);
+    }
+    this.particles.forEach((particle, index) => restoreBody(particle, particles[index]));
+  }
+  
+  public addParticles(particles: BodySnapshot[]) {
+    const added = particles.map(particle => {
+      const body = this.takeParticle(particle.x, particle.y);
+      restoreBody(body, particle);
+      return body;
+    });
+    this.particles.push(...added);
+    Matter.Composite.add(this.engine.world, added);
+  }
+  
+  public removeParticles(test: (x: number, y: number) => boolean): number {
+    const kept: Matter.Body[] = [];
+    const removed: Matter.Body[] = [];
+    this.particles.forEach(body => (test(body.position.x, body.position.y) ? removed : kept).push(body));
+    if (removed.length === 0) return 0;
+    
+    Matter.Composite.remove(this.engine.world, removed);
+    this.particles = kept;
+    this.pool.push(...removed);
+    return removed.length;
+  }
+  
+  // Matter's walls contain the bodies, so the size only matters for spawning
+  public resize(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+  
+  // The walls Matter collides them with already follow the scene's boundaries
+  public setBoundaries() {}
+  
+  // A reused body gets a new ID, as a new one would, so collisions order it after existing bodies
+  private takeParticle(x: number, y: number): Matter.Body {
+    const pooled = this.pool.pop();
+    if (!pooled) return this.createParticle(x, y);
+    pooled.id = Matter.Common.nextId();
+    return pooled;
+  }
+  
+  private createParticle(x: number, y: number): Matter.Body {
+    // Create hexagon vertices
+    const { hexagonRadius } = this.layout;
+    const hexagonVertices = [];
+    for (let i = 0; i < 6; i++) {
+      const angle = (Math.PI / 3) * i;
+      hexagonVertices.push({
+        x: hexagonRadius * Math.cos(angle),
+        y: hexagonRadius * Math.sin(angle)
+      });
+    }
+
+    return Matter.Bodies.fromVertices(x, y, [hexagonVertices], {
+      label: PARTICLE_LABEL,
+      friction: 0.1,
+      restitution: 0.2,
+      density: 0.001, // Slightly increased for better stability
+      slop: 0.01, // Further reduced slop for even tighter collisions
+      sleepThreshold: Infinity, // Prevent particles from sleeping
+      collisionFilter: {
+        category: PARTICLE_CATEGORY,
+        mask: 0x0003 | OBJECT_CATEGORY | DRAGGABLE_CATEGORY // Walls (0x0001), hands (0x0002) and scene objects
+      }
+    });
+  }
+  
+  private createParticles(groups: readonly ParticleGroup[]) {
+    const { rows, cols, extraParticles } = this.layout;
+    const gridCounts = splitByShare(rows * cols, groups);
+    const extraCounts = splitByShare(extraParticles, groups);
+    
+    groups.forEach((group, index) => this.createGroup(group, gridCounts[index], extraCounts[index]));
+    Matter.Composite.add(this.engine.world, this.particles);
+  }
+  
+  private createGroup(group: ParticleGroup, gridCount: number, extraCount: number) {
+    const { cols, spacing, hexagonRadius } = this.layout;
+    const maxCols = Math.max(1, Math.floor(
+      (group.width === undefined ? this.width - hexagonRadius * 2 : group.width * this.width) / spacing
+    ));
+    const centerX = group.x * this.width;
+    const top = SPAWN_TOP + group.y * this.height;
+    
+    // A grid taller than the room above the floor would spawn rows under it, so the block
+    // widens as far as the group allows, then packs its rows closer together
+    const room = Math.max(0, this.height - top - hexagonRadius);
+    const fittingRows = Math.floor(room / spacing) + 1;
+    const groupCols = Math.min(maxCols, Math.max(Math.min(cols, maxCols), Math.ceil(gridCount / fittingRows)));
+    const groupRows = Math.ceil(gridCount / groupCols);
+    const rowSpacing = groupRows > 1 ? Math.min(spacing, room / (groupRows - 1)) : spacing;
+    
+    // Create particles in a grid pattern for more stable initial state
+    for (let i = 0; i < gridCount; i++) {
+      const x = (centerX - (groupCols * spacing) / 2) + (i % groupCols) * spacing;
+      const y = top + Math.floor(i / groupCols) * rowSpacing;
+      
+      const jitter = this.random.range(-1, 1); // Reduced jitter for more organized layout
+      
+      this.particles.push(this.createParticle(x + jitter, y + jitter));
+    }
+    
+    // Add some random particles for more natural behavior
+    const spread = Math.min(150, (groupCols * spacing) / 2);
+    for (let i = 0; i < extraCount; i++) {
+      this.particles.push(this.createParticle(
+        centerX + this.random.range(-spread, spread),
+        top + this.random.range(0, 100)
+      ));
+    }
+  }
+  
+  public destroy() {
+    Matter.Composite.remove(this.engine.world, this.particles);
+    this.particles = [];
+    this.pool = [];
+  }
+}
@@ -0,0 +1,204 @@
+import Matter from 'matter-js';
+import type { Point } from './geometry';
+import type { EmitterOptions, ParticleDrain } from './particleFlow';
+import type { ParticleGroup } from './particleSolver';
+
+// Collision categories of scene objects; only draggable ones can be picked up by the mouse
+export const OBJECT_CATEGORY = 0x0004;
+export const DRAGGABLE_CATEGORY = 0x0008;
+
+export const OBSTACLE_LABEL = 'scene-obstacle';
+export const OBJECT_LABEL = 'scene-object';
+
+const OBSTACLE_FILL = 'rgba(51, 65, 85, 0.85)';
+const OBJECT_FILL = 'rgba(234, 179, 8, 0.75)';
+const DEFAULT_THICKNESS = 12;
+
+// Sizes are pixels; a polygon's vertices are relative to its position and must be convex
+export type SceneShape =
+  | { type: 'rectangle'; width: number; height: number }
+  | { type: 'circle'; radius: number }
+  | { type: 'polygon'; vertices: Point[] }
+  | { type: 'cup'; width: number; height: number; thickness?: number }
+  | { type: 'funnel'; topWidth: number; bottomWidth: number; height: number; thickness?: number };
+
+// Positions are fractions of the viewport, so a scene fits any screen; angles are in radians
+export interface SceneBody {
+  shape: SceneShape;
+  position: Point;
+  angle?: number;
+  color?: string;
+}
+
+export type SceneObstacle = SceneBody;
+
+export interface SceneObject extends SceneBody {
+  draggable?: boolean; // The mouse and pointer hands can move it
+  grabbable?: boolean; // Tracked hands can pick it up with a pinch or a fist
+  pivot?: boolean; // Pinned at its position and free to rotate, like a paddle
+  density?: number;
+}
+
+export interface SceneBoundaries {
+  floor: boolean;
+  left: boolean;
+  right: boolean;
+  ceiling: boolean;
+}
+
+export const DEFAULT_BOUNDARIES: SceneBoundaries = { floor: true, left: true, right: true, ceiling: false };
+
+// Faucets and drains built into a scene; positions are fractions of the viewport, sizes pixels
+export type SceneEmitter = Omit<EmitterOptions, 'temporary'>;
+export type SceneDrain = Omit<ParticleDrain, 'temporary'>;
+
+/**
+ * A declarative world layout: which walls enclose it, where the liquid spawns, and the static
+ * obstacles and movable objects placed in it. Scenes are plain data, so they can be registered
+ * by third parties and stored in snapshots by ID.
+ */
+export interface SceneDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  boundaries?: Partial<SceneBoundaries>;
+  particles?: ParticleGroup[];
+  obstacles?: SceneObstacle[];
+  objects?: SceneObject[];
+  emitters?: SceneEmitter[];
+  drains?: SceneDrain[];
+}
+
+function isFraction(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= -1 && value <= 2;
+}
+
+function isSize(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function shapeProblem(shape: SceneShape): string | null {
+  switch (shape.type) {
+    case 'rectangle':
+      return isSize(shape.width) && isSize(shape.height) ? null : 'rectangle needs a positive width and height';
+    case 'circle':
+      return isSize(shape.radius) ? null : 'circle needs a positive radius';
+    case 'polygon':
+      return Array.isArray(shape.vertices) && shape.vertices.length >= 3 ? null : 'polygon needs at least three vertices';
+    case 'cup':
+      return isSize(shape.width) && isSize(shape.height) ? null : 'cup needs a positive width and height';
+    case 'funnel':
+      return isSize(shape.topWidth) && isSize(shape.bottomWidth) && isSize(shape.height)
+        ? null
+        : 'funnel needs positive widths and height';
+    default:
+      return `unknown shape ${(shape as { type: string }).type}`;
+  }
+}
+
+// Every problem with a definition, so registering a broken scene fails with a useful message
+export function validateScene(scene: SceneDefinition): string[] {
+  const errors: string[] = [];
+  if (!scene.id || typeof scene.id !== 'string') errors.push('Scene needs an id');
+  if (!scene.name) errors.push(`Scene ${scene.id} needs a name`);
+
+  scene.particles?.forEach((group, index) => {
+    if (!isFraction(group.x) || !isFraction(group.y)) errors.push(`Particle group ${index} is off screen`);
+    if (!(group.share > 0)) errors.push(`Particle group ${index} needs a positive share`);
+  });
+
+  const bodies: [string, SceneBody][] = [
+    ...(scene.obstacles ?? []).map((body, index): [string, SceneBody] => [`Obstacle ${index}`, body]),
+    ...(scene.objects ?? []).map((body, index): [string, SceneBody] => [`Object ${index}`, body])
+  ];
+  bodies.forEach(([label, body]) => {
+    if (!isFraction(body.position?.x) || !isFraction(body.position?.y)) errors.push(`${label} is off screen`);
+    const problem = body.shape ? shapeProblem(body.shape) : 'shape is missing';
+    if (problem) errors.push(`${label}: ${problem}`);
+  });
+
+  scene.emitters?.forEach((emitter, index) => {
+    if (!isFraction(emitter.position?.x) || !isFraction(emitter.position?.y)) errors.push(`Emitter ${index} is off screen`);
+    const amounts = [emitter.rate, emitter.speed, emitter.spread, emitter.width];
+    if (amounts.some(value => value !== undefined && !(Number.isFinite(value) && value >= 0))) {
+      errors.push(`Emitter ${index} needs a non-negative rate, speed, spread and width`);
+    }
+  });
+  scene.drains?.forEach((drain, index) => {
+    if (!isFraction(drain.position?.x) || !isFraction(drain.position?.y)) errors.push(`Drain ${index} is off screen`);
+    if (!isSize(drain.width) || !isSize(drain.height)) errors.push(`Drain ${index} needs a positive width and height`);
+  });
+
+  return errors;
+}
+
+export function sceneBoundaries(scene: SceneDefinition): SceneBoundaries {
+  return { ...DEFAULT_BOUNDARIES, ...scene.boundaries };
+}
+
+// A thin rectangle between two points, for the slanted sides of a funnel
+function segment(from: Point, to: Point, thickness: number, options: Matter.IChamferableBodyDefinition) {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  return Matter.Bodies.rectangle((from.x + to.x) / 2, (from.y + to.y) / 2, length, thickness, {
+    ...options,
+    angle: Math.atan2(to.y - from.y, to.x - from.x)
+  });
+}
+
+function shapeBody(shape: SceneShape, x: number, y: number, options: Matter.IChamferableBodyDefinition): Matter.Body {
+  // A compound body takes its mass from its parts
+  const partOptions = options.density === undefined ? {} : { density: options.density };
+  switch (shape.type) {
+    case 'rectangle':
+      return Matter.Bodies.rectangle(x, y, shape.width, shape.height, options);
+    case 'circle':
+      return Matter.Bodies.circle(x, y, shape.radius, options);
+    case 'polygon':
+      return Matter.Bodies.fromVertices(x, y, [shape.vertices], options);
+    case 'cup': {
+      const { width, height, thickness = DEFAULT_THICKNESS } = shape;
+      const parts = [
+        Matter.Bodies.rectangle(x, y + height / 2 - thickness / 2, width, thickness, partOptions),
+        Matter.Bodies.rectangle(x - width / 2 + thickness / 2, y, thickness, height, partOptions),
+        Matter.Bodies.rectangle(x + width / 2 - thickness / 2, y, thickness, height, partOptions)
+      ];
+      return Matter.Body.create({ ...options, parts });
+    }
+    case 'funnel': {
+      const { topWidth, bottomWidth, height, thickness = DEFAULT_THICKNESS } = shape;
+      const top = y - height / 2;
+      const bottom = y + height / 2;
+      const parts = [
+        segment({ x: x - topWidth / 2, y: top }, { x: x - bottomWidth / 2, y: bottom }, thickness, partOptions),
+        segment({ x: x + bottomWidth / 2, y: bottom }, { x: x + topWidth / 2, y: top }, thickness, partOptions)
+      ];
+      return Matter.Body.create({ ...options, parts });
+    }
+  }
+}
+
+export function createObstacleBody(obstacle: SceneObstacle, width: number, height: number): Matter.Body {
+  const body = shapeBody(obstacle.shape, obstacle.position.x * width, obstacle.position.y * height, {
+    isStatic: true,
+    label: OBSTACLE_LABEL,
+    render: { fillStyle: obstacle.color ?? OBSTACLE_FILL }
+  });
+  if (obstacle.angle) Matter.Body.setAngle(body, obstacle.angle);
+  return body;
+}
+
+export function createObjectBody(object: SceneObject, width: number, height: number): Matter.Body {
+  const body = shapeBody(object.shape, object.position.x * width, object.position.y * height, {
+    label: OBJECT_LABEL,
+    density: object.density ?? 0.002,
+    friction: 0.3,
+    frictionAir: 0.02,
+    collisionFilter: {
+      category: object.draggable ? DRAGGABLE_CATEGORY : OBJECT_CATEGORY,
+      mask: 0xffffffff
+    },
+    render: { fillStyle: object.color ?? OBJECT_FILL }
+  });
+  if (object.angle) Matter.Body.setAngle(body, object.angle);
+  return body;
+}
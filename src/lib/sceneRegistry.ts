@@ -0,0 +1,117 @@
+import { Emitter } from './emitter';
+import { SceneDefinition, SceneObject, validateScene } from './scene';
+
+export const CLASSIC_SCENE: SceneDefinition = {
+  id: 'classic',
+  name: 'Liquid box',
+  description: 'The original open box of liquid'
+};
+
+const CUP = { type: 'cup', width: 160, height: 130 } as const;
+
+export const BUILT_IN_SCENES: SceneDefinition[] = [
+  CLASSIC_SCENE,
+  {
+    id: 'cups',
+    name: 'Cups',
+    description: 'Two cups to catch and pour the liquid with',
+    particles: [{ x: 0.5, y: 0, share: 1, width: 0.5 }],
+    objects: [
+      { shape: CUP, position: { x: 0.25, y: 0.8 }, draggable: true, grabbable: true },
+      { shape: CUP, position: { x: 0.75, y: 0.8 }, draggable: true, grabbable: true }
+    ]
+  },
+  {
+    id: 'funnel',
+    name: 'Funnel',
+    description: 'A fixed funnel above a movable cup',
+    particles: [{ x: 0.5, y: 0, share: 1, width: 0.4 }],
+    obstacles: [
+      { shape: { type: 'funnel', topWidth: 420, bottomWidth: 70, height: 200 }, position: { x: 0.5, y: 0.5 } }
+    ],
+    objects: [{ shape: CUP, position: { x: 0.5, y: 0.88 }, draggable: true, grabbable: true }]
+  },
+  {
+    id: 'paddles',
+    name: 'Paddles',
+    description: 'Pinned paddles that spin as the liquid falls through',
+    objects: [0.25, 0.5, 0.75].map((x): SceneObject => ({
+      shape: { type: 'rectangle', width: 220, height: 16 },
+      position: { x, y: 0.55 },
+      angle: x === 0.5 ? -0.3 : 0.3,
+      pivot: true,
+      grabbable: true
+    }))
+  },
+  {
+    id: 'ramps',
+    name: 'Ramps',
+    description: 'Alternating ramps the liquid runs down',
+    particles: [{ x: 0.2, y: 0, share: 1, width: 0.3 }],
+    obstacles: [
+      { shape: { type: 'rectangle', width: 520, height: 16 }, position: { x: 0.3, y: 0.35 }, angle: 0.25 },
+      { shape: { type: 'rectangle', width: 520, height: 16 }, position: { x: 0.7, y: 0.6 }, angle: -0.25 }
+    ],
+    objects: [
+      { shape: { type: 'circle', radius: 40 }, position: { x: 0.2, y: 0.8 }, draggable: true, grabbable: true }
+    ]
+  },
+  {
+    id: 'faucet',
+    name: 'Faucet',
+    description: 'A running faucet over a cup, with a drain in the floor',
+    particles: [{ x: 0.75, y: 0.3, share: 1, width: 0.3 }],
+    emitters: [{ position: { x: 0.2, y: 0.12 }, direction: Math.PI / 2, spread: 0.1, rate: 45, speed: 250 }],
+    drains: [{ position: { x: 0.9, y: 0.98 }, width: 200, height: 60 }],
+    objects: [{ shape: CUP, position: { x: 0.2, y: 0.8 }, draggable: true, grabbable: true }]
+  }
+];
+
+export interface SceneRegistryEvents {
+  change: SceneDefinition[];
+}
+
+/**
+ * The scenes the app can switch between. Built-in scenes are registered up front; anything
+ * registered later, e.g. by an embedding page, shows up in the scene picker straight away.
+ */
+export class SceneRegistry extends Emitter<SceneRegistryEvents> {
+  private scenes = new Map<string, SceneDefinition>();
+
+  constructor(scenes: SceneDefinition[] = []) {
+    super();
+    scenes.forEach(scene => this.register(scene));
+  }
+
+  /**
+   * Returns a function that unregisters the scene again. With `replace`, a scene already
+   * registered under the same ID is swapped out, e.g. for an edited or imported level.
+   */
+  public register(scene: SceneDefinition, { replace = false }: { replace?: boolean } = {}): () => void {
+    const errors = validateScene(scene);
+    if (errors.length > 0) throw new Error(`Invalid scene ${scene.id}: ${errors.join('; ')}`);
+    if (scene.id === CLASSIC_SCENE.id && this.scenes.has(scene.id)) {
+      throw new Error('The classic scene cannot be replaced');
+    }
+    if (!replace && this.scenes.has(scene.id)) throw new Error(`A scene with id ${scene.id} is already registered`);
+
+    this.scenes.set(scene.id, scene);
+    this.emit('change', this.list());
+    return () => this.unregister(scene.id);
+  }
+
+  public unregister(id: string) {
+    if (id === CLASSIC_SCENE.id || !this.scenes.delete(id)) return;
+    this.emit('change', this.list());
+  }
+
+  public get(id: string): SceneDefinition | undefined {
+    return this.scenes.get(id);
+  }
+
+  public list(): SceneDefinition[] {
+    return [...this.scenes.values()];
+  }
+}
+
+export const sceneRegistry = new SceneRegistry(BUILT_IN_SCENES);
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { decodeConfig, defaultConfig, encodeConfig } from './simulationConfig';
+
+describe('simulation config links', () => {
+  it.each([['desktop', false], ['mobile', true]])('reproduce the %s defaults on any device', (_, isMobile) => {
+    const config = defaultConfig(isMobile);
+    expect(decodeConfig(encodeConfig(config, new URLSearchParams()))).toEqual({ config, errors: [] });
+  });
+
+  it('carry edits on top of the desktop defaults', () => {
+    const config = { ...defaultConfig(true), gravity: 0.5 };
+    const params = encodeConfig(config, new URLSearchParams());
+    expect(params.get('gravity')).toBe('0.5');
+    expect(params.has('timeScale')).toBe(false);
+    expect(decodeConfig(params)?.config).toEqual(config);
+  });
+});
@@ -0,0 +1,232 @@
+import { DEFAULT_FLUID_SETTINGS } from './fluidSolver';
+import { DEFAULT_HAND_RADIUS } from './handColliders';
+import { DEFAULT_HAND_MAX_SPEED } from './handMotion';
+import { DEFAULT_ENGINE_SETTINGS } from './liquidWorld';
+import { DEFAULT_PARTICLE_BUDGET, MOBILE_PARTICLE_BUDGET } from './particleFlow';
+import {
+  DESKTOP_PARTICLE_LAYOUT,
+  MOBILE_PARTICLE_LAYOUT,
+  ParticleLayout,
+  SOLVER_KINDS,
+  SolverKind
+} from './particleSolver';
+import { DEFAULT_RENDERER_OPTIONS } from './liquidRenderer';
+import type { QualityTier } from './performanceGovernor';
+import type { WorldSnapshot } from './worldSnapshot';
+
+export interface SimulationConfig {
+  solver: SolverKind;
+  rows: number;
+  cols: number;
+  spacing: number;
+  hexagonRadius: number;
+  extraParticles: number;
+  particleBudget: number;
+  handRadius: number;
+  handMaxSpeed: number;
+  maxVelocity: number;
+  gravity: number;
+  timeScale: number;
+  positionIterations: number;
+  velocityIterations: number;
+  constraintIterations: number;
+  fluidIterations: number;
+}
+
+export type NumericConfigKey = Exclude<keyof SimulationConfig, 'solver'>;
+
+export type ConfigGroup = 'Particles' | 'Hands' | 'Physics' | 'Display';
+
+export interface NumericField {
+  label: string;
+  group: ConfigGroup;
+  min: number;
+  max: number;
+  step: number;
+  integer?: boolean;
+  respawn?: boolean; // Changing it rebuilds the particles
+}
+
+export const CONFIG_FIELDS: Record<NumericConfigKey, NumericField> = {
+  rows: { label: 'Rows', group: 'Particles', min: 1, max: 60, step: 1, integer: true, respawn: true },
+  cols: { label: 'Columns', group: 'Particles', min: 1, max: 80, step: 1, integer: true, respawn: true },
+  spacing: { label: 'Spacing (px)', group: 'Particles', min: 20, max: 100, step: 1, respawn: true },
+  hexagonRadius: { label: 'Hexagon radius (px)', group: 'Particles', min: 4, max: 40, step: 1, respawn: true },
+  extraParticles: { label: 'Extra particles', group: 'Particles', min: 0, max: 500, step: 10, integer: true, respawn: true },
+  particleBudget: { label: 'Particle budget', group: 'Particles', min: 100, max: 8000, step: 100, integer: true },
+  handRadius: { label: 'Hand radius (px)', group: 'Hands', min: 10, max: 150, step: 1 },
+  handMaxSpeed: { label: 'Hand max speed (px/s)', group: 'Hands', min: 500, max: 20000, step: 100 },
+  gravity: { label: 'Gravity', group: 'Physics', min: -2, max: 3, step: 0.05 },
+  timeScale: { label: 'Time scale', group: 'Physics', min: 0.1, max: 2, step: 0.05 },
+  positionIterations: { label: 'Position iterations', group: 'Physics', min: 1, max: 20, step: 1, integer: true },
+  velocityIterations: { label: 'Velocity iterations', group: 'Physics', min: 1, max: 20, step: 1, integer: true },
+  constraintIterations: { label: 'Constraint iterations', group: 'Physics', min: 1, max: 10, step: 1, integer: true },
+  fluidIterations: { label: 'Fluid iterations', group: 'Physics', min: 1, max: 10, step: 1, integer: true },
+  maxVelocity: { label: 'Max colour velocity', group: 'Display', min: 1, max: 60, step: 1 }
+};
+
+export const CONFIG_GROUPS: ConfigGroup[] = ['Particles', 'Hands', 'Physics', 'Display'];
+
+function layoutConfig(layout: ParticleLayout) {
+  const { rows, cols, spacing, hexagonRadius, extraParticles } = layout;
+  return { rows, cols, spacing, hexagonRadius, extraParticles };
+}
+
+export const DEFAULT_CONFIG: SimulationConfig = {
+  solver: 'rigid',
+  ...layoutConfig(DESKTOP_PARTICLE_LAYOUT),
+  particleBudget: DEFAULT_PARTICLE_BUDGET,
+  handRadius: DEFAULT_HAND_RADIUS,
+  handMaxSpeed: DEFAULT_HAND_MAX_SPEED,
+  maxVelocity: DEFAULT_RENDERER_OPTIONS.maxVelocity,
+  gravity: DEFAULT_ENGINE_SETTINGS.gravity,
+  timeScale: DEFAULT_ENGINE_SETTINGS.timeScale,
+  positionIterations: DEFAULT_ENGINE_SETTINGS.positionIterations,
+  velocityIterations: DEFAULT_ENGINE_SETTINGS.velocityIterations,
+  constraintIterations: DEFAULT_ENGINE_SETTINGS.constraintIterations,
+  fluidIterations: DEFAULT_FLUID_SETTINGS.iterations
+};
+
+const MOBILE_CONFIG: Partial<SimulationConfig> = {
+  ...layoutConfig(MOBILE_PARTICLE_LAYOUT),
+  particleBudget: MOBILE_PARTICLE_BUDGET
+};
+
+// Phones get a smaller pile of particles
+export function defaultConfig(isMobile: boolean): SimulationConfig {
+  return isMobile ? { ...DEFAULT_CONFIG, ...MOBILE_CONFIG } : { ...DEFAULT_CONFIG };
+}
+
+export const CONFIG_PRESETS: Record<string, Partial<SimulationConfig>> = {
+  Default: {},
+  Mobile: MOBILE_CONFIG,
+  Syrup: { solver: 'fluid', timeScale: 0.5, fluidIterations: 5 },
+  'Low gravity': { gravity: 0.2, timeScale: 1 },
+  Pebbles: { rows: 12, cols: 20, spacing: 70, hexagonRadius: 28, extraParticles: 20 },
+  'Stress test': { rows: 45, cols: 60, spacing: 30, hexagonRadius: 10, extraParticles: 400 }
+};
+
+// Presets are applied on top of the defaults so they don't inherit earlier edits
+export function applyPreset(name: string): SimulationConfig {
+  return { ...DEFAULT_CONFIG, ...CONFIG_PRESETS[name] };
+}
+
+export interface ConfigValidation {
+  config: SimulationConfig;
+  errors: string[];
+}
+
+/**
+ * Checks untrusted values (a URL, a file) against the schema. Invalid values fall back to
+ * `base`, out-of-range values are clamped, and every correction is reported.
+ */
+export function validateConfig(input: Record<string, unknown>, base: SimulationConfig = DEFAULT_CONFIG): ConfigValidation {
+  const config = { ...base };
+  const errors: string[] = [];
+
+  if (input.solver !== undefined) {
+    if (SOLVER_KINDS.includes(input.solver as SolverKind)) {
+      config.solver = input.solver as SolverKind;
+    } else {
+      errors.push(`solver must be one of ${SOLVER_KINDS.join(', ')}`);
+    }
+  }
+
+  (Object.keys(CONFIG_FIELDS) as NumericConfigKey[]).forEach(key => {
+    const raw = input[key];
+    if (raw === undefined) return;
+
+    const field = CONFIG_FIELDS[key];
+    const value = typeof raw === 'string' ? Number(raw) : raw;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${key} must be a number`);
+      return;
+    }
+
+    const rounded = field.integer ? Math.round(value) : value;
+    const clamped = Math.min(field.max, Math.max(field.min, rounded));
+    if (clamped !== value) {
+      errors.push(`${key} must be ${field.integer ? 'an integer ' : ''}between ${field.min} and ${field.max}`);
+    }
+    config[key] = clamped;
+  });
+
+  return { config, errors };
+}
+
+export function configLayout(config: SimulationConfig): ParticleLayout {
+  const { rows, cols, spacing, hexagonRadius, extraParticles } = config;
+  return { rows, cols, spacing, hexagonRadius, extraParticles };
+}
+
+export function configEngineSettings(config: SimulationConfig) {
+  const { gravity, timeScale, constraintIterations, positionIterations, velocityIterations } = config;
+  return { gravity, timeScale, constraintIterations, positionIterations, velocityIterations };
+}
+
+// Reads what a snapshot pins down; the budget and colours aren't part of the world state
+export function configFromSnapshot(snapshot: WorldSnapshot, base: SimulationConfig): SimulationConfig {
+  return {
+    ...base,
+    ...layoutConfig(snapshot.layout),
+    solver: snapshot.solver,
+    gravity: snapshot.gravity,
+    timeScale: snapshot.engine.timeScale,
+    positionIterations: snapshot.engine.positionIterations,
+    velocityIterations: snapshot.engine.velocityIterations,
+    constraintIterations: snapshot.engine.constraintIterations,
+    fluidIterations: snapshot.fluid.iterations,
+    handRadius: snapshot.handRadius,
+    handMaxSpeed: snapshot.handMaxSpeed
+  };
+}
+
+const CONFIG_KEYS = ['solver', ...Object.keys(CONFIG_FIELDS)] as (keyof SimulationConfig)[];
+
+// Fields whose defaults differ between desktop and mobile
+const DEVICE_KEYS = (Object.keys(MOBILE_CONFIG) as (keyof SimulationConfig)[])
+  .filter(key => MOBILE_CONFIG[key] !== DEFAULT_CONFIG[key]);
+
+/**
+ * Writes the config into query parameters, replacing any earlier ones. Values are written where
+ * they differ from the desktop DEFAULT_CONFIG, which decodeConfig fills the rest in from, and
+ * the device-dependent fields always are: a link without them would open with the defaults of
+ * whichever device follows it, so it wouldn't reproduce the same setup.
+ */
+export function encodeConfig(config: SimulationConfig, params: URLSearchParams) {
+  CONFIG_KEYS.forEach(key => {
+    if (config[key] === DEFAULT_CONFIG[key] && !DEVICE_KEYS.includes(key)) {
+      params.delete(key);
+    } else {
+      params.set(key, String(config[key]));
+    }
+  });
+  return params;
+}
+
+// The config actually simulated under a quality tier; the user's own config stays untouched
+export function applyQualityTier(config: SimulationConfig, tier: QualityTier): SimulationConfig {
+  return {
+    ...config,
+    rows: Math.max(1, Math.round(config.rows * tier.particleScale)),
+    extraParticles: Math.round(config.extraParticles * tier.particleScale),
+    particleBudget: Math.max(1, Math.round(config.particleBudget * tier.particleScale)),
+    positionIterations: Math.min(config.positionIterations, tier.positionIterations),
+    velocityIterations: Math.min(config.velocityIterations, tier.velocityIterations),
+    fluidIterations: Math.min(config.fluidIterations, tier.fluidIterations)
+  };
+}
+
+export function isSameConfig(a: SimulationConfig, b: SimulationConfig) {
+  return CONFIG_KEYS.every(key => a[key] === b[key]);
+}
+
+// Returns null when the URL carries no config, e.g. a first visit, so the caller can pick device defaults
+export function decodeConfig(params: URLSearchParams): ConfigValidation | null {
+  const input: Record<string, unknown> = {};
+  CONFIG_KEYS.forEach(key => {
+    const value = params.get(key);
+    if (value !== null) input[key] = value;
+  });
+  return Object.keys(input).length ? validateConfig(input, DEFAULT_CONFIG) : null;
+}
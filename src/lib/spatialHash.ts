@@ -0,0 +1,69 @@
+/**
+ * Uniform grid hashed into a fixed-size table, rebuilt from scratch each step with a counting
+ * sort. Cells are `spacing` wide, so every neighbour within `spacing` lies in the 3x3 block of
+ * cells around a point. Distinct cells can share a bucket; callers still check real distances.
+ */
+export class SpatialHash {
+  private cellStart: Int32Array;
+  private cellEntries: Int32Array;
+
+  constructor(private spacing: number, maxCount: number) {
+    this.cellStart = new Int32Array(2 * maxCount + 1);
+    this.cellEntries = new Int32Array(maxCount);
+  }
+
+  private cell(coordinate: number) {
+    return Math.floor(coordinate / this.spacing);
+  }
+
+  private hash(cellX: number, cellY: number) {
+    const h = Math.imul(cellX, 92837111) ^ Math.imul(cellY, 689287499);
+    return Math.abs(h) % (this.cellStart.length - 1);
+  }
+
+  public build(xs: Float64Array, ys: Float64Array, count: number) {
+    if (count > this.cellEntries.length) {
+      this.cellStart = new Int32Array(2 * count + 1);
+      this.cellEntries = new Int32Array(count);
+    }
+
+    const { cellStart, cellEntries } = this;
+    cellStart.fill(0);
+    for (let i = 0; i < count; i++) {
+      cellStart[this.hash(this.cell(xs[i]), this.cell(ys[i]))]++;
+    }
+
+    // Prefix sums turn counts into end offsets, which the fill pass walks back to start offsets
+    let sum = 0;
+    for (let i = 0; i < cellStart.length - 1; i++) {
+      sum += cellStart[i];
+      cellStart[i] = sum;
+    }
+    cellStart[cellStart.length - 1] = sum;
+
+    for (let i = 0; i < count; i++) {
+      const h = this.hash(this.cell(xs[i]), this.cell(ys[i]));
+      cellEntries[--cellStart[h]] = i;
+    }
+  }
+
+  // Calls `visit` once for each point in the 3x3 cells around (x, y), plus any sharing their buckets
+  public query(x: number, y: number, visit: (index: number) => void) {
+    const cellX = this.cell(x);
+    const cellY = this.cell(y);
+    const seen: number[] = [];
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const h = this.hash(cellX + dx, cellY + dy);
+        // Neighbouring cells that collide into the same bucket would report its points twice
+        if (seen.includes(h)) continue;
+        seen.push(h);
+
+        for (let i = this.cellStart[h]; i < this.cellStart[h + 1]; i++) {
+          visit(this.cellEntries[i]);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,47 @@
+export type TrackingErrorKind =
+  | 'permission-denied'
+  | 'no-device'
+  | 'device-busy'
+  | 'overconstrained'
+  | 'library-load'
+  | 'tracking';
+
+const MESSAGES: Record<TrackingErrorKind, string> = {
+  'permission-denied': 'Camera access was blocked. Allow the camera for this site in your browser settings, then retry.',
+  'no-device': 'No camera was found. Connect a camera, then retry.',
+  'device-busy': 'The camera could not be started. Close other apps or tabs that may be using it, then retry.',
+  overconstrained: 'The selected camera does not support a usable resolution. Try another camera.',
+  'library-load': 'Failed to load hand tracking library. Please check your connection and try again.',
+  tracking: 'Hand tracking failed to start.'
+};
+
+// A failure the UI can explain and offer a targeted fix for; `detail` keeps the browser's own text
+export class TrackingError extends Error {
+  constructor(public readonly kind: TrackingErrorKind, public readonly detail?: string) {
+    super(MESSAGES[kind]);
+    this.name = 'TrackingError';
+  }
+}
+
+// getUserMedia reports failures as DOMExceptions named per cause; older browsers use legacy names
+const MEDIA_ERROR_KINDS: Record<string, TrackingErrorKind> = {
+  NotAllowedError: 'permission-denied',
+  PermissionDeniedError: 'permission-denied',
+  SecurityError: 'permission-denied',
+  NotFoundError: 'no-device',
+  DevicesNotFoundError: 'no-device',
+  NotReadableError: 'device-busy',
+  TrackStartError: 'device-busy',
+  AbortError: 'device-busy',
+  OverconstrainedError: 'overconstrained',
+  ConstraintNotSatisfiedError: 'overconstrained'
+};
+
+export function trackingErrorFrom(error: unknown, fallback: TrackingErrorKind = 'tracking'): TrackingError {
+  if (error instanceof TrackingError) return error;
+
+  // Chrome's OverconstrainedError is not an Error subclass, so read the name structurally
+  const name = typeof error === 'object' && error !== null && 'name' in error ? String(error.name) : '';
+  const detail = error instanceof Error ? error.message : String(error);
+  return new TrackingError(MEDIA_ERROR_KINDS[name] ?? fallback, detail);
+}
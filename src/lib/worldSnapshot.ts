@@ -0,0 +1,141 @@
+import Matter from 'matter-js';
+import { downloadJson } from './download';
+import type { EngineState } from './engineState';
+import type { Point } from './geometry';
+import { DEFAULT_HAND_RADIUS, HandColliderMode } from './handColliders';
+import { HandDepth, TOUCH_HAND_DEPTH } from './handDepth';
+import { DEFAULT_HAND_MAX_SPEED, HandMotionState } from './handMotion';
+import type { HandPresenceState } from './handPresence';
+import { DEFAULT_FLUID_SETTINGS, FluidSettings } from './fluidSolver';
+import type { ParticleDrain, ParticleEmitter } from './particleFlow';
+import type { ParticleLayout, SolverKind } from './particleSolver';
+
+export const SNAPSHOT_VERSION = 1;
+
+export interface BodySnapshot {
+  x: number;
+  y: number;
+  angle: number;
+  vx: number;
+  vy: number;
+  angularVelocity: number;
+}
+
+export interface HandSnapshot {
+  id: number;
+  presence: Exclude<HandPresenceState, 'gone'>;
+  opacity: number;
+  circle: BodySnapshot;
+  landmarks: Point[] | null; // Articulated pose in screen space, rebuilt into colliders on load
+  mode: HandColliderMode | null; // Pinned collider mode; null follows the world's
+  depth: HandDepth;
+  grab: number | null; // Index of the scene object the hand holds
+  motion: HandMotionState | null; // Null until the hand's first tracked position
+}
+
+export interface EngineSnapshot {
+  timestamp: number;
+  timeScale: number;
+  gravity: { x: number; y: number; scale: number };
+  enableSleeping: boolean;
+  constraintIterations: number;
+  positionIterations: number;
+  velocityIterations: number;
+}
+
+export interface WorldSnapshot {
+  version: number;
+  createdAt: string;
+  width: number;
+  height: number;
+  seed: number;
+  randomState: number;
+  layout: ParticleLayout;
+  solver: SolverKind;
+  fluid: FluidSettings;
+  handMode: HandColliderMode;
+  engine: EngineSnapshot;
+  gravity: number; // The gravity setting, which hands may have tilted and scaled the engine's away from
+  clock: number; // Milliseconds of simulated time hand motion plays back on
+  handRadius: number;
+  handMaxSpeed: number; // px/s
+  particles: BodySnapshot[];
+  hands: HandSnapshot[];
+  scene: string; // Registered scene ID
+  objects: BodySnapshot[]; // Scene objects, in the order the scene defines them
+  emitters: ParticleEmitter[];
+  drains: ParticleDrain[];
+  emitterPending: number[];
+  physics: EngineState | null; // Matter's state between steps, so a restored world carries on exactly
+}
+
+export function captureBody(body: Matter.Body): BodySnapshot {
+  return {
+    x: body.position.x,
+    y: body.position.y,
+    angle: body.angle,
+    vx: body.velocity.x,
+    vy: body.velocity.y,
+    angularVelocity: body.angularVelocity
+  };
+}
+
+export function restoreBody(body: Matter.Body, snapshot: BodySnapshot) {
+  Matter.Body.setPosition(body, { x: snapshot.x, y: snapshot.y });
+  Matter.Body.setAngle(body, snapshot.angle);
+  Matter.Body.setVelocity(body, { x: snapshot.vx, y: snapshot.vy });
+  Matter.Body.setAngularVelocity(body, snapshot.angularVelocity);
+}
+
+export function parseSnapshot(json: string): WorldSnapshot {
+  const data = JSON.parse(json);
+
+  if (!data || typeof data !== 'object' || !Array.isArray(data.particles) || !data.engine) {
+    throw new Error('Not a scene snapshot: missing particles or engine settings');
+  }
+  if (data.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported scene snapshot version: ${data.version}`);
+  }
+
+  const particles = data.particles as BodySnapshot[];
+  particles.forEach((particle, index) => {
+    if (typeof particle.x !== 'number' || typeof particle.y !== 'number') {
+      throw new Error(`Malformed particle in scene snapshot at index ${index}`);
+    }
+  });
+
+  return {
+    ...data,
+    createdAt: String(data.createdAt ?? ''),
+    // Snapshots from before the fluid solver existed are always rigid
+    solver: data.solver ?? 'rigid',
+    fluid: { ...DEFAULT_FLUID_SETTINGS, ...data.fluid },
+    // Snapshots from before gravity tilt kept the setting in the engine
+    gravity: typeof data.gravity === 'number' ? data.gravity : data.engine.gravity.y,
+    clock: typeof data.clock === 'number' ? data.clock : 0,
+    // Snapshots from before the hand settings were saved were taken with the defaults
+    handRadius: typeof data.handRadius === 'number' ? data.handRadius : DEFAULT_HAND_RADIUS,
+    handMaxSpeed: typeof data.handMaxSpeed === 'number' ? data.handMaxSpeed : DEFAULT_HAND_MAX_SPEED,
+    // Hands saved before depth, grabs and motion were recorded come back touching and at rest
+    hands: (Array.isArray(data.hands) ? data.hands : []).map((hand: Partial<HandSnapshot>) => ({
+      ...hand,
+      mode: hand.mode ?? null,
+      depth: hand.depth ?? TOUCH_HAND_DEPTH,
+      grab: hand.grab ?? null,
+      motion: hand.motion ?? null
+    })),
+    // Snapshots from before scenes existed were taken in the classic box
+    scene: typeof data.scene === 'string' ? data.scene : 'classic',
+    objects: Array.isArray(data.objects) ? data.objects : [],
+    // Snapshots from before emitters existed had none
+    emitters: Array.isArray(data.emitters) ? data.emitters : [],
+    drains: Array.isArray(data.drains) ? data.drains : [],
+    emitterPending: Array.isArray(data.emitterPending) ? data.emitterPending : [],
+    // Older snapshots restore positions and velocities only
+    physics: data.physics ?? null
+  };
+}
+
+export function downloadSnapshot(snapshot: WorldSnapshot, filename = `scene-${Date.now()}.json`) {
+  downloadJson(snapshot, filename);
+}
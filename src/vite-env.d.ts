@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Comma-separated MediaPipe asset base URLs, tried in order; `bundled` means the build's own copy
+  readonly VITE_MEDIAPIPE_ASSET_URLS?: string;
+}
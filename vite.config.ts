@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -7,4 +8,12 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  build: {
+    // MediaPipe fetches its files by URL at runtime, so even the tiny ones must stay real files
+    assetsInlineLimit: (file) => (file.includes('@mediapipe') ? false : undefined),
+  },
+  test: {
+    // The world tests step thousands of bodies for seconds of simulated time
+    testTimeout: 60000,
+  },
 });